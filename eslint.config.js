@@ -41,6 +41,8 @@ export default [
         structuredClone: 'readonly',
         self: 'readonly',
         WorkerGlobalScope: 'readonly',
+        WebSocketPair: 'readonly',
+        caches: 'readonly',
         
         // Node.js globals (for build tools)
         process: 'readonly',
@@ -97,6 +99,8 @@ export default [
         structuredClone: 'readonly',
         self: 'readonly',
         WorkerGlobalScope: 'readonly',
+        WebSocketPair: 'readonly',
+        caches: 'readonly',
         
         // Node.js globals (for build tools)
         process: 'readonly',
@@ -3,11 +3,30 @@
  * Provides a Workers-optimized interface for building MCP servers
  */
 
-import { FastMCP } from "fastmcp"
-import { WorkersTransport, WorkersTransportOptions } from "./transports/WorkersTransport.js"
+import { FastMCP, FastMCPSession } from "fastmcp"
+import { WorkersTransport, WorkersTransportOptions, MCP_SESSION_ID_HEADER } from "./transports/WorkersTransport.js"
+import { SessionBridge } from "./transports/SessionBridge.js"
+import { WebSocketTransport, WebSocketTransportOptions } from "./transports/WebSocketTransport.js"
+import type { SessionData, SessionStore } from "./sessions/SessionStore.js"
 import { initializePolyfills } from "./runtime/polyfills.js"
 import { assertWorkersRuntime } from "./runtime/detection.js"
 import { imageContent, audioContent } from "./utils/content-helpers.js"
+import { createErrorResponse, JsonRpcErrorCode } from "./utils/response-helpers.js"
+import { createAuthErrorResponse } from "./auth/errors.js"
+import { requireScopes, hasScopes } from "./auth/scopes.js"
+import { getAuthIdentity } from "./auth/identity.js"
+import { OAuthServer, OAuthServerOptions } from "./auth/oauth-server.js"
+import { base64UrlDecode, base64UrlEncode } from "./auth/crypto-helpers.js"
+import type { ListedResource, ResourceProvider } from "./resources/ResourceProvider.js"
+import { KVResourceProvider, KVResourceOptions } from "./resources/KVResourceProvider.js"
+import { R2ResourceProvider, R2ResourceOptions } from "./resources/R2ResourceProvider.js"
+import { D1Toolkit, D1ToolkitOptions } from "./toolkits/D1Toolkit.js"
+import { createWorkersAITool, WorkersAIToolOptions } from "./toolkits/WorkersAITool.js"
+import { VectorizeSearch, VectorizeSearchOptions } from "./toolkits/VectorizeSearch.js"
+import { ResultCache, CACHE_META_KEY } from "./cache/ResultCache.js"
+import type { CacheTarget, ResultCacheOptions } from "./cache/ResultCache.js"
+import { DeferredTasks, DeferredTaskOptions, isTaskMessage } from "./tasks/DeferredTasks.js"
+import type { TaskData } from "./tasks/TaskStore.js"
 import type { ImageContent, AudioContent } from "./utils/content-helpers.js"
 import { assertFastMCPCompatibility } from "./compatibility/version-check.js"
 import {
@@ -15,7 +34,13 @@ import {
   assertValidResourceDefinition,
   assertValidPromptDefinition,
 } from "./compatibility/interface-validation.js"
-import type { ExecutionContext } from "@cloudflare/workers-types"
+import type {
+  ExecutionContext,
+  ExportedHandler,
+  ForwardableEmailMessage,
+  MessageBatch,
+  ScheduledController,
+} from "@cloudflare/workers-types"
 
 /**
  * Workers-specific server options extending FastMCP options
@@ -69,6 +94,13 @@ export interface WorkersServerOptions<
       resource: string
       authorizationServers: string[]
     }
+
+    /**
+     * Built-in authorization server. When set, its endpoints are mounted by toWorkerHandler(),
+     * discovery metadata is generated, and its access tokens authenticate MCP requests
+     * unless an `authenticate` function is given.
+     */
+    server?: OAuthServerOptions
   }
 
   /**
@@ -90,12 +122,94 @@ export interface WorkersServerOptions<
     credentials?: boolean
   }
 
+  /**
+   * Session store for stateful sessions keyed by Mcp-Session-Id.
+   * Pass a store, or a factory building one from the Worker env (e.g. for Durable Object bindings).
+   */
+  sessionStore?: SessionStore<T> | ((env: any) => SessionStore<T>)
+
+  /**
+   * WebSocket transport configuration.
+   * Connections are hibernatable when a Durable Object namespace is provided.
+   */
+  websocket?: WebSocketTransportOptions
+
+  /**
+   * Cache results of read-only or idempotent tools and of resource reads.
+   * Tools, resources and templates can set `cache: false` or their own `cache: { ttlSeconds }`.
+   */
+  cache?: ResultCacheOptions
+
+  /**
+   * Run tools defined with `deferred: true` from a Queue consumer instead of the request.
+   * Calls answer with a task ID, collected through the built-in `task_status` tool or `task://{id}` resources.
+   */
+  tasks?: DeferredTaskOptions<T>
+
   /**
    * Skip compatibility checks (not recommended for production)
    */
   skipCompatibilityCheck?: boolean
 }
 
+/**
+ * What toWorkerExport() hooks are called with besides the event
+ */
+export interface WorkerHookContext<
+  T extends Record<string, unknown> | undefined = Record<string, unknown> | undefined,
+  Env = any,
+> {
+  env: Env
+  ctx: ExecutionContext
+  server: WorkersFastMCP<T>
+}
+
+export type ScheduledHook<T extends Record<string, unknown> | undefined = any, Env = any> = (
+  controller: ScheduledController,
+  context: WorkerHookContext<T, Env>,
+) => void | Promise<void>
+
+export type QueueHook<T extends Record<string, unknown> | undefined = any, Env = any> = (
+  batch: MessageBatch<unknown>,
+  context: WorkerHookContext<T, Env>,
+) => void | Promise<void>
+
+export type EmailHook<T extends Record<string, unknown> | undefined = any, Env = any> = (
+  message: ForwardableEmailMessage,
+  context: WorkerHookContext<T, Env>,
+) => void | Promise<void>
+
+/**
+ * Handlers of the Worker module export besides fetch. Hooks of an event run in order.
+ */
+export interface WorkerExportOptions<
+  T extends Record<string, unknown> | undefined = Record<string, unknown> | undefined,
+  Env = any,
+> {
+  /**
+   * Cron Trigger hooks, e.g. to refresh cached resources. The trigger's schedule is `controller.cron`.
+   */
+  onScheduled?: ScheduledHook<T, Env> | ScheduledHook<T, Env>[]
+
+  /**
+   * Queue consumer hooks. With deferred tools enabled, task messages are run first and the hooks
+   * get a batch of the other messages.
+   */
+  onQueue?: QueueHook<T, Env> | QueueHook<T, Env>[]
+
+  /**
+   * Email Routing hooks
+   */
+  onEmail?: EmailHook<T, Env> | EmailHook<T, Env>[]
+}
+
+/**
+ * Worker module export created by toWorkerExport(), whose fetch handler is the one of toWorkerHandler()
+ */
+export type WorkerExport<Env = any> = Omit<ExportedHandler<Env>, "fetch"> & {
+  fetch: (request: Request, env: Env, ctx: ExecutionContext) => Promise<Response>
+}
+
 /**
  * Default server options
  */
@@ -122,7 +236,25 @@ const DEFAULT_SERVER_OPTIONS = {
 export class WorkersFastMCP<T extends Record<string, unknown> | undefined = Record<string, unknown> | undefined> {
   private fastmcp: FastMCP<T>
   private transport: WorkersTransport
+  private webSocketTransport?: WebSocketTransport
+  private oauthServer?: OAuthServer
+  private resultCache?: ResultCache
+  private tasks?: DeferredTasks<T>
   private options: WorkersServerOptions<T>
+  private authenticate?: (request: any) => Promise<T>
+
+  // Registrations mirrored from FastMCP so each request can build its own session
+  private tools: any[] = []
+  private resources: any[] = []
+  private resourceTemplates: any[] = []
+  private prompts: any[] = []
+  private resourceProviders: ResourceProvider[] = []
+
+  // Stored sessions loaded while validating a request, picked up when its messages are dispatched
+  private requestSessions = new WeakMap<Request, SessionData<T>>()
+
+  // Auth results of requests authenticated before reaching a transport
+  private requestAuth = new WeakMap<Request, T>()
 
   constructor(options: WorkersServerOptions<T>) {
     // Ensure we're in Workers environment
@@ -140,6 +272,20 @@ export class WorkersFastMCP<T extends Record<string, unknown> | undefined = Reco
 
     this.options = { ...DEFAULT_SERVER_OPTIONS, ...options }
 
+    if (this.options.oauth?.enabled && this.options.oauth.server) {
+      const oauthServer = new OAuthServer(this.options.oauth.server)
+      this.oauthServer = oauthServer
+      this.options.authenticate ??= (request, env) => oauthServer.authenticate(request, env) as Promise<any>
+    }
+
+    if (this.options.cache) {
+      this.resultCache = new ResultCache(this.options.cache)
+    }
+
+    if (this.options.tasks) {
+      this.tasks = new DeferredTasks(this.options.tasks)
+    }
+
     // Initialize polyfills for Workers environment
     initializePolyfills()
 
@@ -148,10 +294,16 @@ export class WorkersFastMCP<T extends Record<string, unknown> | undefined = Reco
     const transportOptions: WorkersTransportOptions = {
       ...this.options.transport,
       ...(corsConfig && { cors: corsConfig }),
+      resourceMetadata: (request) => this.getResourceMetadataUrl(request),
+      identify: (request) => getAuthIdentity(this.requestAuth.get(request)),
     }
 
     this.transport = new WorkersTransport(transportOptions)
 
+    if (this.options.websocket) {
+      this.webSocketTransport = new WebSocketTransport(this.options.websocket)
+    }
+
     // Create FastMCP instance with Workers-compatible configuration
     const serverOptions: any = {
       name: this.options.name,
@@ -161,7 +313,8 @@ export class WorkersFastMCP<T extends Record<string, unknown> | undefined = Reco
 
     // Add authenticate if provided
     if (this.options.authenticate) {
-      serverOptions.authenticate = this.createAuthWrapper()
+      this.authenticate = this.createAuthWrapper()
+      serverOptions.authenticate = this.authenticate
     }
 
     this.fastmcp = new FastMCP(serverOptions)
@@ -170,8 +323,16 @@ export class WorkersFastMCP<T extends Record<string, unknown> | undefined = Reco
     // ping: { enabled: false }, // Disable ping in Workers
     // roots: { enabled: false }, // Disable roots in Workers
 
-    // Connect transport to FastMCP
-    this.connectTransport()
+    // Connect transports to FastMCP
+    this.connectTransport(this.transport)
+    if (this.webSocketTransport) {
+      this.connectTransport(this.webSocketTransport)
+    }
+
+    if (this.tasks) {
+      this.addTool(this.tasks.createStatusTool())
+      this.addResourceProvider(this.tasks)
+    }
   }
 
   /**
@@ -196,20 +357,428 @@ export class WorkersFastMCP<T extends Record<string, unknown> | undefined = Reco
   }
 
   /**
-   * Connect Workers transport to FastMCP server
+   * Connect a Workers transport to FastMCP server
+   */
+  private connectTransport(transport: WorkersTransport | WebSocketTransport): void {
+    transport.addEventListener("message", (message: any) => {
+      const {
+        _responseHandler,
+        _errorHandler,
+        _env,
+        _workersRequest,
+        _sessionId,
+        _notificationHandler,
+        _signal,
+        _auth,
+        ...rpcMessage
+      } = message
+
+      // WebSocket messages carry the auth result of their connection's upgrade request
+      if (_auth !== undefined) {
+        this.requestAuth.set(_workersRequest, _auth)
+      }
+
+      this.handleMessage(rpcMessage, _workersRequest, _env, {
+        sessionId: _sessionId,
+        onNotification: _notificationHandler,
+        signal: _signal,
+      }).then(_responseHandler, _errorHandler)
+    })
+  }
+
+  /**
+   * Dispatch a JSON-RPC message to a FastMCP session built for this request
+   */
+  private async handleMessage(
+    message: any,
+    request: Request,
+    env?: any,
+    context: { sessionId?: string; onNotification?: (notification: any) => void; signal?: AbortSignal } = {},
+  ): Promise<any> {
+    let auth: T | undefined
+    if (this.requestAuth.has(request)) {
+      auth = this.requestAuth.get(request)
+    } else if (this.authenticate) {
+      auth = await this.authenticate({ _workersRequest: request, _env: env })
+    }
+
+    // Calls to items the session lacks scopes for get an insufficient_scope error rather than "not found"
+    const definition = this.findDefinition(message)
+    if (definition?.requiredScopes) {
+      requireScopes(auth, definition.requiredScopes)
+    }
+
+    const cacheEntry = await this.getCacheEntry(message, definition, auth)
+    if (cacheEntry) {
+      const cached = await this.resultCache!.get(cacheEntry.target, env)
+      if (cached) {
+        const age = Math.floor((Date.now() - cached.storedAt) / 1000)
+        return { jsonrpc: "2.0", id: message.id, result: withCacheMeta(cached.result, { status: "HIT", age }) }
+      }
+    }
+
+    let structuredContent: unknown
+    const session = this.createSession(auth, env, {
+      ...context,
+      onStructuredContent: (value) => {
+        structuredContent = value
+      },
+    })
+    const bridge = new SessionBridge(context.sessionId)
+    const store = this.getSessionStore(env)
+    const storedSession =
+      this.requestSessions.get(request) ?? (store && context.sessionId ? await store.get(context.sessionId) : undefined)
+
+    // Stream progress, logging and other related notifications back to the client
+    if (context.onNotification) {
+      bridge.onOutbound(context.onNotification)
+    }
+
+    try {
+      // Connect the underlying MCP server directly - FastMCPSession.connect() waits for
+      // client capabilities, which a single stateless request may never send
+      await session.server.connect(bridge)
+
+      if (storedSession) {
+        await this.rehydrateSession(bridge, storedSession)
+      }
+
+      const providers = this.resourceProviders.filter((provider) => provider.list && this.canAccess(provider, auth))
+      const response =
+        message.method === "resources/list" && providers.length
+          ? await this.listResources(bridge, message, providers, env)
+          : await bridge.dispatch(message)
+
+      if (structuredContent !== undefined && response?.result) {
+        response.result.structuredContent = structuredContent
+      }
+
+      if (cacheEntry && response?.result && !response.result.isError) {
+        await this.resultCache!.put(cacheEntry.target, response.result, cacheEntry.ttlSeconds, env)
+        response.result = withCacheMeta(response.result, { status: "MISS", ttl: cacheEntry.ttlSeconds })
+      }
+
+      if (store && context.sessionId) {
+        await this.persistSession(store, context.sessionId, message, response, auth, storedSession)
+      }
+
+      return response
+    } finally {
+      await session.close()
+    }
+  }
+
+  /**
+   * Answer resources/list with the registered resources followed by the pages of each resource provider.
+   * Cursors record which provider to continue with and that provider's own cursor.
    */
-  private connectTransport(): void {
-    // Set up message handling
-    this.transport.addEventListener("message", (message: any) => {
-      // Add Workers-specific context to the message
-      // Note: Direct server access not available in current FastMCP API
-      // TODO: Update to use current FastMCP message handling API
-      console.log("Received message:", message)
+  private async listResources(
+    bridge: SessionBridge,
+    message: any,
+    providers: ResourceProvider[],
+    env?: any,
+  ): Promise<any> {
+    let resources: ListedResource[] = []
+    let position: ResourceListCursor | undefined
+
+    if (message.params?.cursor === undefined) {
+      const response = await bridge.dispatch(message)
+      if (!response?.result) {
+        return response
+      }
+
+      resources = response.result.resources
+      position = { provider: providers[0]!.name }
+    } else {
+      position = decodeResourceListCursor(message.params.cursor)
+    }
+
+    const index = providers.findIndex((provider) => provider.name === position?.provider)
+    if (index === -1) {
+      return {
+        jsonrpc: "2.0",
+        id: message.id,
+        error: { code: JsonRpcErrorCode.InvalidParams, message: "Invalid cursor" },
+      }
+    }
+
+    const page = await providers[index]!.list!(env, position!.cursor)
+    const next: ResourceListCursor | undefined = page.nextCursor
+      ? { provider: providers[index]!.name, cursor: page.nextCursor }
+      : providers[index + 1] && { provider: providers[index + 1]!.name }
+
+    return {
+      jsonrpc: "2.0",
+      id: message.id,
+      result: {
+        resources: [...resources, ...page.resources],
+        ...(next && { nextCursor: encodeResourceListCursor(next) }),
+      },
+    }
+  }
+
+  /**
+   * Replay what the client negotiated earlier into a fresh MCP server
+   */
+  private async rehydrateSession(bridge: SessionBridge, stored: SessionData<T>): Promise<void> {
+    await bridge.dispatch({
+      jsonrpc: "2.0",
+      id: "__rehydrate_initialize",
+      method: "initialize",
+      params: {
+        protocolVersion: stored.protocolVersion,
+        capabilities: stored.clientCapabilities ?? {},
+        clientInfo: stored.clientInfo ?? { name: "unknown", version: "0.0.0" },
+      },
     })
 
-    // Connect FastMCP server to transport
-    // Note: This is a simplified connection - in practice, we'd need to
-    // properly implement the MCP transport protocol
+    if (stored.loggingLevel) {
+      await bridge.dispatch({
+        jsonrpc: "2.0",
+        id: "__rehydrate_logging",
+        method: "logging/setLevel",
+        params: { level: stored.loggingLevel },
+      })
+    }
+  }
+
+  /**
+   * Record session state negotiated by a successful message
+   */
+  private async persistSession(
+    store: SessionStore<T>,
+    sessionId: string,
+    message: any,
+    response: any,
+    auth: T | undefined,
+    stored: SessionData<T> | undefined,
+  ): Promise<void> {
+    if (!response?.result) {
+      return
+    }
+
+    const now = Date.now()
+
+    if (message.method === "initialize") {
+      await store.set({
+        id: sessionId,
+        protocolVersion: response.result.protocolVersion,
+        clientInfo: message.params?.clientInfo,
+        clientCapabilities: message.params?.capabilities,
+        ...(auth !== undefined && { auth }),
+        createdAt: now,
+        updatedAt: now,
+      })
+    } else if (message.method === "logging/setLevel" && stored) {
+      await store.set({ ...stored, loggingLevel: message.params?.level, updatedAt: now })
+    }
+  }
+
+  /**
+   * Whether a request is authenticated as the identity that initialized a stored session
+   */
+  private async isSessionOwner(session: SessionData<T>, request: Request): Promise<boolean> {
+    return (await getAuthIdentity(session.auth)) === (await getAuthIdentity(this.requestAuth.get(request)))
+  }
+
+  /**
+   * Resolve the configured session store for this request's env
+   */
+  private getSessionStore(env?: any): SessionStore<T> | undefined {
+    const { sessionStore } = this.options
+    return typeof sessionStore === "function" ? sessionStore(env) : sessionStore
+  }
+
+  /**
+   * Load stored session data by ID
+   */
+  async getSession(sessionId: string, env?: any): Promise<SessionData<T> | undefined> {
+    return this.getSessionStore(env)?.get(sessionId)
+  }
+
+  /**
+   * Create a FastMCP session from the current registrations
+   */
+  private createSession(
+    auth: T | undefined,
+    env?: any,
+    context: {
+      sessionId?: string
+      signal?: AbortSignal
+      onStructuredContent?: (value: unknown) => void
+      runDeferred?: boolean
+    } = {},
+  ): FastMCPSession<T> {
+    const { sessionId, signal, onStructuredContent, runDeferred } = context
+
+    // Hand the request's env and abort signal to tools as `context.env` and `context.signal`.
+    // Deferred tools are enqueued unless this session runs them for the queue consumer.
+    const tools = this.tools
+      .filter((tool) => this.canAccess(tool, auth))
+      .map((tool) => ({
+        ...tool,
+        execute: async (args: any, toolContext: any) => {
+          const result =
+            tool.deferred && !runDeferred
+              ? await this.tasks!.enqueue(tool.name, args, auth, env)
+              : await tool.execute(args, { ...toolContext, env, ...(signal && { signal }) })
+
+          // FastMCP rejects structuredContent in tool results, so it is added to the response afterwards
+          if (result && typeof result === "object" && "structuredContent" in result) {
+            const { structuredContent, ...rest } = result
+            onStructuredContent?.(structuredContent)
+            return rest
+          }
+
+          return result
+        },
+      }))
+
+    return new FastMCPSession<T>({
+      ...(auth !== undefined && { auth }),
+      ...(this.options.instructions !== undefined && { instructions: this.options.instructions }),
+      ...(sessionId !== undefined && { sessionId }),
+      logger: console,
+      name: this.options.name,
+      version: this.options.version,
+      tools,
+      resources: this.resources.filter((resource) => this.canAccess(resource, auth)),
+      resourcesTemplates: [
+        ...this.resourceTemplates.filter((template) => this.canAccess(template, auth)),
+        ...this.resourceProviders
+          .filter((provider) => this.canAccess(provider, auth))
+          .map((provider) => provider.createTemplate(env)),
+      ],
+      prompts: this.prompts.filter((prompt) => this.canAccess(prompt, auth)),
+    })
+  }
+
+  /**
+   * Whether a tool, resource, resource template or prompt is visible to a session,
+   * checking its `requiredScopes` and `canAccess` policy
+   */
+  private canAccess(definition: any, auth: T | undefined): boolean {
+    if (definition.requiredScopes && !hasScopes(auth, definition.requiredScopes)) {
+      return false
+    }
+
+    return auth && definition.canAccess ? Boolean(definition.canAccess(auth)) : true
+  }
+
+  /**
+   * The tool, prompt, resource, resource template or resource provider a tools/call, resources/read
+   * or prompts/get message targets
+   */
+  private findDefinition(message: any): any {
+    const params = message?.params ?? {}
+
+    switch (message?.method) {
+      case "tools/call":
+        return this.tools.find((tool) => tool.name === params.name)
+      case "prompts/get":
+        return this.prompts.find((prompt) => prompt.name === params.name)
+      case "resources/read":
+        return (
+          this.resources.find((item) => item.uri === params.uri) ??
+          this.resourceTemplates.find((template) => matchesUriTemplate(template.uriTemplate, params.uri)) ??
+          this.resourceProviders.find((provider) => matchesUriTemplate(provider.uriTemplate, params.uri))
+        )
+      default:
+        return undefined
+    }
+  }
+
+  /**
+   * Where the result of a cacheable message is cached and for how long.
+   * Tool calls are cacheable when the tool is annotated read-only or idempotent, resource reads always,
+   * unless the definition sets `cache: false`.
+   */
+  private async getCacheEntry(
+    message: any,
+    definition: any,
+    auth: T | undefined,
+  ): Promise<{ target: CacheTarget; ttlSeconds: number } | undefined> {
+    if (
+      !this.resultCache ||
+      !definition ||
+      definition.cache === false ||
+      definition.deferred ||
+      !this.canAccess(definition, auth)
+    ) {
+      return undefined
+    }
+
+    const params = message.params ?? {}
+    let target: Omit<CacheTarget, "partition">
+    if (message.method === "tools/call") {
+      const { readOnlyHint, idempotentHint } = definition.annotations ?? {}
+      if (!readOnlyHint && !idempotentHint) {
+        return undefined
+      }
+
+      target = { kind: "tool", name: params.name, arguments: params.arguments ?? {} }
+    } else if (message.method === "resources/read") {
+      target = { kind: "resource", name: params.uri }
+    } else {
+      return undefined
+    }
+
+    const ttlSeconds = typeof definition.cache === "object" ? definition.cache.ttlSeconds : this.resultCache.ttlSeconds
+    return { target: { ...target, partition: await this.resultCache.partition(auth) }, ttlSeconds }
+  }
+
+  /**
+   * Drop cached results of a tool: for the given arguments and auth, or for all of either when left out.
+   * Dropping more than one entry at a time needs a KV cache store.
+   */
+  async invalidateToolCache(
+    name: string,
+    options: { arguments?: Record<string, unknown>; auth?: T; env?: any } = {},
+  ): Promise<void> {
+    if (!this.resultCache) {
+      return
+    }
+
+    await this.resultCache.delete(
+      {
+        kind: "tool",
+        name,
+        arguments: options.arguments,
+        ...(await this.getInvalidationPartition(options)),
+      },
+      options.env,
+    )
+  }
+
+  /**
+   * Drop cached reads of a resource URI: for the given auth, or for everyone when left out.
+   * Dropping more than one entry at a time needs a KV cache store.
+   */
+  async invalidateResourceCache(uri: string, options: { auth?: T; env?: any } = {}): Promise<void> {
+    if (!this.resultCache) {
+      return
+    }
+
+    await this.resultCache.delete(
+      {
+        kind: "resource",
+        name: uri,
+        ...(await this.getInvalidationPartition(options)),
+      },
+      options.env,
+    )
+  }
+
+  /**
+   * Partition of the entries to invalidate: the given auth's, or "public" on servers without authentication,
+   * where every entry is public. Otherwise all partitions.
+   */
+  private async getInvalidationPartition(options: { auth?: T }): Promise<{ partition?: string }> {
+    if ("auth" in options || (!this.options.authenticate && !this.options.cache?.partition)) {
+      return { partition: await this.resultCache!.partition(options.auth) }
+    }
+
+    return {}
   }
 
   /**
@@ -218,6 +787,11 @@ export class WorkersFastMCP<T extends Record<string, unknown> | undefined = Reco
   addTool = (definition: any) => {
     // Validate tool definition for compatibility
     assertValidToolDefinition(definition)
+    if (definition.deferred && !this.options.tasks) {
+      throw new Error(`Tool "${definition.name}" is deferred but no tasks queue is configured - set the tasks option`)
+    }
+
+    this.tools = [...this.tools.filter((tool) => tool.name !== definition.name), definition]
     return this.fastmcp.addTool(definition)
   }
 
@@ -227,6 +801,7 @@ export class WorkersFastMCP<T extends Record<string, unknown> | undefined = Reco
   addResource = (definition: any) => {
     // Validate resource definition for compatibility
     assertValidResourceDefinition(definition)
+    this.resources = [...this.resources.filter((resource) => resource.name !== definition.name), definition]
     return this.fastmcp.addResource(definition)
   }
 
@@ -234,6 +809,10 @@ export class WorkersFastMCP<T extends Record<string, unknown> | undefined = Reco
    * Add a resource template to the server
    */
   addResourceTemplate(definition: any) {
+    this.resourceTemplates = [
+      ...this.resourceTemplates.filter((template) => template.name !== definition.name),
+      definition,
+    ]
     return this.fastmcp.addResourceTemplate(definition)
   }
 
@@ -243,9 +822,143 @@ export class WorkersFastMCP<T extends Record<string, unknown> | undefined = Reco
   addPrompt(definition: any) {
     // Validate prompt definition for compatibility
     assertValidPromptDefinition(definition)
+    this.prompts = [...this.prompts.filter((prompt) => prompt.name !== definition.name), definition]
     return this.fastmcp.addPrompt(definition)
   }
 
+  /**
+   * Add a resource provider, whose template is registered per request with the request's env
+   */
+  addResourceProvider(provider: ResourceProvider) {
+    this.resourceProviders = [...this.resourceProviders.filter((item) => item.name !== provider.name), provider]
+  }
+
+  /**
+   * Expose the keys of a KV namespace as resources, such as `kv://{key}`
+   */
+  addKVResources(options: KVResourceOptions) {
+    this.addResourceProvider(new KVResourceProvider(options))
+  }
+
+  /**
+   * Expose the objects of an R2 bucket as resources, such as `r2://{key}`
+   */
+  addR2Resources(options: R2ResourceOptions) {
+    this.addResourceProvider(new R2ResourceProvider(options))
+  }
+
+  /**
+   * Publish the table schemas of a D1 database as resources, such as `d1://users/schema`,
+   * and register a guarded `query` tool for it
+   */
+  addD1Toolkit(options: D1ToolkitOptions) {
+    const toolkit = new D1Toolkit(options)
+    this.addResourceProvider(toolkit)
+    this.addTool(toolkit.createQueryTool())
+  }
+
+  /**
+   * Add a tool that runs a Workers AI model, with parameters and content built for the model's task
+   */
+  addWorkersAITool(options: WorkersAIToolOptions) {
+    return this.addTool(createWorkersAITool(options))
+  }
+
+  /**
+   * Add a semantic `search` tool over a Vectorize index, linking results to their source documents.
+   * Documents whose text is stored in vector metadata are readable as resources, such as `vectorize://{id}`.
+   */
+  addVectorizeSearch(options: VectorizeSearchOptions) {
+    const search = new VectorizeSearch(options)
+    this.addResourceProvider(search)
+    this.addTool(search.createSearchTool())
+  }
+
+  /**
+   * Run the deferred tool calls in a queue batch, recording their status, progress and results in the task store.
+   * Call it from the Worker's `queue` handler; messages that are not deferred tool calls are left untouched.
+   */
+  async handleTaskQueue(batch: MessageBatch<unknown>, env?: any): Promise<void> {
+    if (!this.tasks) {
+      throw new Error("Deferred tools are not enabled - set the tasks option")
+    }
+
+    for (const message of batch.messages) {
+      if (!isTaskMessage(message.body)) {
+        continue
+      }
+
+      try {
+        await this.runTask(message.body.taskId, env)
+        message.ack()
+      } catch (error) {
+        console.error(`Failed to run task ${message.body.taskId}:`, error)
+        message.retry()
+      }
+    }
+  }
+
+  /**
+   * Run a queued tool call in a session with the auth of the call that created it
+   */
+  private async runTask(taskId: string, env?: any): Promise<void> {
+    const store = this.tasks!.getStore(env)
+    const queued = await store.get(taskId)
+
+    // Redelivered messages of finished tasks
+    if (!queued || queued.status === "completed" || queued.status === "failed") {
+      return
+    }
+
+    const writer = this.tasks!.createWriter(env)
+    let task: TaskData<T> = { ...queued, status: "running", updatedAt: Date.now() }
+    await writer.write(task)
+
+    // Record progress as the tool reports it, coalesced to stay within the store's write rate
+    const bridge = new SessionBridge()
+    bridge.onOutbound((notification) => {
+      if (notification.method === "notifications/progress") {
+        const { progress, total, message } = notification.params ?? {}
+        task = { ...task, progress: { progress, total, message }, updatedAt: Date.now() }
+        writer.progress(task)
+      }
+    })
+
+    let structuredContent: unknown
+    const session = this.createSession(task.auth, env, {
+      runDeferred: true,
+      onStructuredContent: (value) => {
+        structuredContent = value
+      },
+    })
+
+    try {
+      await session.server.connect(bridge)
+
+      const response = await bridge.dispatch({
+        jsonrpc: "2.0",
+        id: taskId,
+        method: "tools/call",
+        params: { name: task.tool, arguments: task.arguments, _meta: { progressToken: taskId } },
+      })
+
+      const result = response?.result && {
+        ...response.result,
+        ...(structuredContent !== undefined && { structuredContent }),
+      }
+
+      await writer.write({
+        ...task,
+        status: result && !result.isError ? "completed" : "failed",
+        ...(result && { result }),
+        ...(response?.error && { error: response.error.message }),
+        updatedAt: Date.now(),
+      })
+    } finally {
+      await session.close()
+    }
+  }
+
   /**
    * Get embedded resource (not available in current FastMCP API)
    * TODO: Update to use current FastMCP resource access API
@@ -256,7 +969,7 @@ export class WorkersFastMCP<T extends Record<string, unknown> | undefined = Reco
    * Create Workers fetch handler
    */
   toWorkerHandler(): (request: Request, env?: any, ctx?: ExecutionContext) => Promise<Response> {
-    return async (request: Request, env?: any, _ctx?: ExecutionContext) => {
+    return async (request: Request, env?: any, ctx?: ExecutionContext) => {
       const url = new URL(request.url)
 
       // Handle health check endpoint
@@ -270,23 +983,202 @@ export class WorkersFastMCP<T extends Record<string, unknown> | undefined = Reco
       // Handle OAuth discovery endpoints
       if (this.options.oauth?.enabled) {
         if (url.pathname === "/.well-known/oauth-authorization-server") {
-          return this.handleOAuthAuthorizationServer()
+          return this.handleOAuthAuthorizationServer(request)
         }
 
         if (url.pathname === "/.well-known/oauth-protected-resource") {
-          return this.handleOAuthProtectedResource()
+          return this.handleOAuthProtectedResource(request)
+        }
+      }
+
+      // Serve the built-in authorization server endpoints, which must be reachable without a token
+      if (this.oauthServer && request.method !== "OPTIONS") {
+        const response = await this.oauthServer.handleRequest(request, env)
+        if (response) {
+          return response
+        }
+      }
+
+      // Authenticate before any transport or session work, so failures get a 401 or 403 challenge
+      if (this.options.authenticate && request.method !== "OPTIONS") {
+        try {
+          this.requestAuth.set(request, await this.options.authenticate(request, env))
+        } catch (error) {
+          return createAuthErrorResponse(error, { resourceMetadata: this.getResourceMetadataUrl(request) })
+        }
+      }
+
+      // Hand WebSocket upgrades to the WebSocket transport
+      if (this.webSocketTransport?.isUpgradeRequest(request)) {
+        return await this.webSocketTransport.handleUpgrade(request, env, ctx, this.requestAuth.get(request))
+      }
+
+      // Validate or terminate stored sessions before the transport sees the request
+      const store = this.getSessionStore(env)
+      const sessionNotFound = () =>
+        createErrorResponse({ code: JsonRpcErrorCode.ServerError, message: "Session not found" }, { status: 404 })
+
+      // Legacy SSE sessions are stored on initialize, after their stream was opened
+      const legacySse = this.options.transport?.legacySse
+      const legacySessionId =
+        legacySse?.enabled && url.pathname === (legacySse.messagesPath ?? "/messages")
+          ? url.searchParams.get("sessionId")
+          : null
+      if (store && legacySessionId) {
+        const session = await store.get(legacySessionId)
+        if (session && !(await this.isSessionOwner(session, request))) {
+          return sessionNotFound()
+        }
+
+        if (session) {
+          this.requestSessions.set(request, session)
+        }
+      }
+
+      const sessionId = request.headers.get(MCP_SESSION_ID_HEADER)
+      if (
+        store &&
+        sessionId &&
+        url.pathname.startsWith(this.options.transport?.pathPrefix ?? "/mcp") &&
+        ["DELETE", "GET", "POST"].includes(request.method)
+      ) {
+        const session = await store.get(sessionId)
+
+        // A session belongs to the identity that initialized it; to anyone else it does not exist.
+        // Deleting a session that does not exist is a no-op.
+        const found = session !== undefined && (await this.isSessionOwner(session, request))
+        if (!found && (session !== undefined || request.method !== "DELETE")) {
+          return sessionNotFound()
+        }
+
+        if (request.method === "DELETE") {
+          await store.delete(sessionId)
+        } else {
+          this.requestSessions.set(request, session!)
         }
       }
 
       // Handle MCP requests through transport
-      return await this.transport.handleRequest(request, env)
+      return await this.transport.handleRequest(request, env, ctx)
+    }
+  }
+
+  /**
+   * Create the Worker module export: the fetch handler, plus scheduled, queue and email handlers
+   * running the given hooks. The queue handler also runs deferred tool calls when tasks are enabled.
+   */
+  toWorkerExport<Env = any>(options: WorkerExportOptions<T, Env> = {}): WorkerExport<Env> {
+    const onScheduled = toArray(options.onScheduled)
+    const onQueue = toArray(options.onQueue)
+    const onEmail = toArray(options.onEmail)
+    const handler: WorkerExport<Env> = {
+      fetch: this.toWorkerHandler(),
+    }
+
+    if (onScheduled.length > 0) {
+      handler.scheduled = async (controller, env, ctx) => {
+        for (const hook of onScheduled) {
+          await hook(controller, { env, ctx, server: this })
+        }
+      }
+    }
+
+    if (onQueue.length > 0 || this.tasks) {
+      handler.queue = async (batch, env, ctx) => {
+        let rest = batch
+        if (this.tasks) {
+          await this.handleTaskQueue(batch, env)
+
+          const messages = batch.messages.filter((message) => !isTaskMessage(message.body))
+          rest = {
+            queue: batch.queue,
+            metadata: batch.metadata,
+            messages,
+            ackAll: () => messages.forEach((message) => message.ack()),
+            retryAll: (retryOptions) => messages.forEach((message) => message.retry(retryOptions)),
+          }
+        }
+
+        if (rest.messages.length === 0) {
+          return
+        }
+
+        for (const hook of onQueue) {
+          await hook(rest, { env, ctx, server: this })
+        }
+      }
+    }
+
+    if (onEmail.length > 0) {
+      handler.email = async (message, env, ctx) => {
+        for (const hook of onEmail) {
+          await hook(message, { env, ctx, server: this })
+        }
+      }
     }
+
+    return handler
+  }
+
+  /**
+   * Create the Durable Object class that holds hibernatable WebSocket connections.
+   * Export it from your Worker and bind it to the namespace given in `websocket.durableObject`.
+   */
+  toWebSocketDurableObject() {
+    if (!this.webSocketTransport) {
+      throw new Error("WebSocket transport is not enabled - set the websocket option")
+    }
+
+    return this.webSocketTransport.createDurableObjectClass()
+  }
+
+  /**
+   * Send a server-initiated message to a session over whichever transport holds it open: a WebSocket
+   * connection, a Streamable HTTP GET stream or a legacy SSE stream. Returns false if none is reachable;
+   * HTTP streams without a relay are only reachable from the isolate that opened them.
+   */
+  async notify(sessionId: string, message: any, env?: any): Promise<boolean> {
+    if (await this.notifyWebSocket(sessionId, message, env)) {
+      return true
+    }
+
+    return await this.transport.notify(sessionId, message, env)
+  }
+
+  /**
+   * Send a server-initiated message to an open WebSocket session
+   */
+  async notifyWebSocket(sessionId: string, message: any, env?: any): Promise<boolean> {
+    if (!this.webSocketTransport) {
+      return false
+    }
+
+    return await this.webSocketTransport.notify(sessionId, message, env)
+  }
+
+  /**
+   * URL of the protected resource metadata advertised in auth challenges, when OAuth discovery is enabled
+   */
+  private getResourceMetadataUrl(request: Request): string | undefined {
+    const oauth = this.options.oauth
+    if (!oauth?.enabled || (!oauth.protectedResource && !this.oauthServer)) {
+      return undefined
+    }
+
+    const origin = new URL(oauth.protectedResource?.resource ?? request.url).origin
+    return `${origin}/.well-known/oauth-protected-resource`
   }
 
   /**
    * Handle OAuth authorization server discovery
    */
-  private handleOAuthAuthorizationServer(): Response {
+  private handleOAuthAuthorizationServer(request: Request): Response {
+    if (!this.options.oauth?.authorizationServer && this.oauthServer) {
+      return new Response(JSON.stringify(this.oauthServer.getMetadata(request)), {
+        headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" },
+      })
+    }
+
     if (!this.options.oauth?.authorizationServer) {
       return new Response("OAuth authorization server not configured", { status: 404 })
     }
@@ -299,7 +1191,20 @@ export class WorkersFastMCP<T extends Record<string, unknown> | undefined = Reco
   /**
    * Handle OAuth protected resource discovery
    */
-  private handleOAuthProtectedResource(): Response {
+  private handleOAuthProtectedResource(request: Request): Response {
+    if (!this.options.oauth?.protectedResource && this.oauthServer) {
+      const { origin } = new URL(request.url)
+      const metadata = {
+        resource: `${origin}${this.options.transport?.pathPrefix ?? "/mcp"}`,
+        authorization_servers: [this.oauthServer.getMetadata(request).issuer],
+        bearer_methods_supported: ["header"],
+      }
+
+      return new Response(JSON.stringify(metadata), {
+        headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" },
+      })
+    }
+
     if (!this.options.oauth?.protectedResource) {
       return new Response("OAuth protected resource not configured", { status: 404 })
     }
@@ -322,6 +1227,7 @@ export class WorkersFastMCP<T extends Record<string, unknown> | undefined = Reco
    */
   async stop(): Promise<void> {
     this.transport.close()
+    await this.webSocketTransport?.close()
   }
 
   /**
@@ -338,13 +1244,73 @@ export class WorkersFastMCP<T extends Record<string, unknown> | undefined = Reco
   }
 }
 
+/**
+ * Match a URI against an RFC 6570 template such as `file:///logs/{name}`.
+ * Query expressions like `{?offset,length}` are optional.
+ */
+function matchesUriTemplate(uriTemplate: unknown, uri: unknown): boolean {
+  if (typeof uriTemplate !== "string" || typeof uri !== "string") {
+    return false
+  }
+
+  const pattern = uriTemplate
+    .split(/(\{[^}]+\})/)
+    .map((part, index) => {
+      if (index % 2 === 0) {
+        return part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+      }
+
+      return /^\{[?&]/.test(part) ? "(?:[?&].*)?" : ".+"
+    })
+    .join("")
+  return new RegExp(`^${pattern}$`).test(uri)
+}
+
+/**
+ * Result with the cache status reported in `_meta`
+ */
+function withCacheMeta(result: any, status: { status: "HIT" | "MISS"; age?: number; ttl?: number }): any {
+  return { ...result, _meta: { ...result._meta, [CACHE_META_KEY]: status } }
+}
+
+/**
+ * Position in a paged resources/list: the provider to list next and its cursor
+ */
+interface ResourceListCursor {
+  provider: string
+  cursor?: string
+}
+
+/**
+ * Opaque resources/list cursor for a position
+ */
+function encodeResourceListCursor(position: ResourceListCursor): string {
+  return base64UrlEncode(new TextEncoder().encode(JSON.stringify(position)))
+}
+
+/**
+ * Read a resources/list cursor, or undefined when it was not issued by encodeResourceListCursor
+ */
+function decodeResourceListCursor(cursor: unknown): ResourceListCursor | undefined {
+  try {
+    const position = JSON.parse(new TextDecoder().decode(base64UrlDecode(String(cursor))))
+    return typeof position?.provider === "string" ? position : undefined
+  } catch {
+    return undefined
+  }
+}
+
+function toArray<V>(value: V | V[] | undefined): V[] {
+  return value === undefined ? [] : Array.isArray(value) ? value : [value]
+}
+
 // Re-export content helpers for convenience
 export { imageContent, audioContent }
 export type { ImageContent, AudioContent }
 
 // Re-export transport types
-export type { WorkersTransportOptions }
-export { WorkersTransport }
+export type { WorkersTransportOptions, WebSocketTransportOptions }
+export { WorkersTransport, WebSocketTransport }
 
 // Re-export compatibility utilities for advanced usage
 export {
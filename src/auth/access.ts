@@ -0,0 +1,175 @@
+/**
+ * Cloudflare Access (Zero Trust) authentication
+ * Verifies the application token Access adds to every request it lets through
+ */
+
+import { AuthUnavailableError, UnauthorizedError } from "./errors.js"
+import { jwtAuthenticator } from "./jwt.js"
+import type { JwtClaims } from "./jwt.js"
+
+/**
+ * Header carrying the Access token
+ */
+export const ACCESS_JWT_HEADER = "Cf-Access-Jwt-Assertion"
+
+/**
+ * Cookie carrying the Access token in browser sessions
+ */
+export const ACCESS_COOKIE = "CF_Authorization"
+
+/**
+ * Identity behind a request admitted by Cloudflare Access
+ */
+export interface AccessIdentity extends JwtClaims {
+  /**
+   * User id, or the service token client id for service tokens
+   */
+  sub: string
+
+  /**
+   * User email (absent for service tokens)
+   */
+  email?: string
+
+  /**
+   * Group names from the identity provider, when available
+   */
+  groups?: string[]
+
+  /**
+   * Service token client id (absent for users)
+   */
+  client_id?: string
+}
+
+/**
+ * Cloudflare Access authenticator configuration
+ */
+export interface AccessAuthenticatorOptions {
+  /**
+   * Zero Trust team domain, e.g. "myteam" or "myteam.cloudflareaccess.com"
+   */
+  teamDomain: string
+
+  /**
+   * Application Audience (AUD) tag(s) from the Access application
+   */
+  audience: string | string[]
+
+  /**
+   * Fetch the user's groups from the Access identity endpoint when the token does not carry them (default: false).
+   * Adds a subrequest per authenticated user request.
+   */
+  fetchGroups?: boolean
+
+  /**
+   * How long the team's signing keys are cached, in seconds (default: 600)
+   */
+  jwksCacheTtlSeconds?: number
+}
+
+/**
+ * Create an `authenticate` function verifying Cloudflare Access tokens from the
+ * `Cf-Access-Jwt-Assertion` header or the `CF_Authorization` cookie.
+ * Resolves with the user's identity (email, groups) or the service token client id.
+ */
+export function accessAuthenticator<T extends AccessIdentity = AccessIdentity>(
+  options: AccessAuthenticatorOptions,
+): (request: Request, env?: any) => Promise<T> {
+  const teamUrl = getTeamUrl(options.teamDomain)
+  const verify = jwtAuthenticator<JwtClaims>({
+    issuer: teamUrl,
+    audience: options.audience,
+    jwksUri: `${teamUrl}/cdn-cgi/access/certs`,
+    algorithms: ["RS256"],
+    ...(options.jwksCacheTtlSeconds !== undefined && { jwksCacheTtlSeconds: options.jwksCacheTtlSeconds }),
+    getToken: getAccessToken,
+  })
+
+  return async (request: Request, env?: any): Promise<T> => {
+    const claims = await verify(request, env)
+
+    // Service tokens carry their client id as common_name and an empty sub
+    const clientId = typeof claims.common_name === "string" && claims.common_name ? claims.common_name : undefined
+    const sub = claims.sub || clientId
+    if (!sub) {
+      throw new UnauthorizedError("Access token has no subject", "invalid_token")
+    }
+
+    let groups = parseGroups(claims.groups ?? (claims.custom as { groups?: unknown } | undefined)?.groups)
+    if (!groups && options.fetchGroups && !clientId) {
+      groups = await fetchGroups(teamUrl, getAccessToken(request))
+    }
+
+    return {
+      ...claims,
+      sub,
+      ...(clientId && { client_id: clientId }),
+      ...(groups && { groups }),
+    } as T
+  }
+}
+
+/**
+ * Read the Access token from the header, falling back to the cookie
+ */
+function getAccessToken(request: Request): string {
+  const header = request.headers.get(ACCESS_JWT_HEADER)
+  if (header) {
+    return header.trim()
+  }
+
+  const cookies = request.headers.get("cookie") ?? ""
+  for (const cookie of cookies.split(";")) {
+    const [name, ...value] = cookie.trim().split("=")
+    if (name === ACCESS_COOKIE && value.length) {
+      return value.join("=")
+    }
+  }
+
+  throw new UnauthorizedError("Missing Cloudflare Access token")
+}
+
+/**
+ * Normalize the team domain to the issuer URL
+ */
+function getTeamUrl(teamDomain: string): string {
+  const host = teamDomain.replace(/^https?:\/\//, "").replace(/\/+$/, "")
+  return `https://${host.includes(".") ? host : `${host}.cloudflareaccess.com`}`
+}
+
+/**
+ * Group names from a claim holding strings or `{ name }` objects
+ */
+function parseGroups(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined
+  }
+
+  return value
+    .map((group) => (typeof group === "string" ? group : (group as { name?: unknown })?.name))
+    .filter((group): group is string => typeof group === "string")
+}
+
+/**
+ * Look up the user's groups on the Access identity endpoint
+ */
+async function fetchGroups(teamUrl: string, token: string): Promise<string[] | undefined> {
+  const response = await fetch(`${teamUrl}/cdn-cgi/access/get-identity`, {
+    headers: { Cookie: `${ACCESS_COOKIE}=${token}` },
+  }).catch((error) => {
+    throw new AuthUnavailableError(`Failed to fetch Cloudflare Access identity: ${String(error)}`)
+  })
+
+  if (!response.ok) {
+    console.warn(`Failed to fetch Cloudflare Access identity: ${response.status}`)
+    return undefined
+  }
+
+  const identity = (await response.json().catch(() => undefined)) as { groups?: unknown } | null | undefined
+  if (typeof identity !== "object" || identity === null) {
+    throw new AuthUnavailableError("Invalid Cloudflare Access identity response")
+  }
+
+  return parseGroups(identity.groups)
+}
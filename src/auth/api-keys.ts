@@ -0,0 +1,278 @@
+/**
+ * API key authentication backed by Workers KV
+ * Keys are stored by SHA-256 hash, so neither KV nor env vars ever hold them in plaintext
+ */
+
+import type { KVNamespace } from "@cloudflare/workers-types"
+import { randomToken, sha256Hex } from "./crypto-helpers.js"
+import { UnauthorizedError } from "./errors.js"
+
+/**
+ * Stored API key metadata
+ */
+export interface ApiKeyRecord {
+  /**
+   * Stable key identifier, safe to log and display
+   */
+  id: string
+
+  /**
+   * Principal the key authenticates as
+   */
+  principal: string
+
+  /**
+   * Scopes granted to the key
+   */
+  scopes: string[]
+
+  /**
+   * Human readable label
+   */
+  name?: string
+
+  /**
+   * Extra data exposed to tools as `props`
+   */
+  props?: Record<string, unknown>
+
+  /**
+   * Creation timestamp (ms since epoch)
+   */
+  createdAt: number
+
+  /**
+   * Expiry timestamp (ms since epoch); keys without one never expire
+   */
+  expiresAt?: number
+}
+
+/**
+ * Session auth object for requests authenticated with an API key
+ */
+export interface ApiKeyPrincipal extends Record<string, unknown> {
+  sub: string
+  key_id: string
+  scope: string
+  name?: string
+  exp?: number
+  props?: Record<string, unknown>
+}
+
+/**
+ * Options for issuing a key
+ */
+export interface IssueApiKeyOptions {
+  principal: string
+  scopes?: string[]
+  name?: string
+  props?: Record<string, unknown>
+
+  /**
+   * Lifetime in seconds (default: no expiry)
+   */
+  expiresInSeconds?: number
+}
+
+/**
+ * API key store configuration
+ */
+export interface ApiKeyStoreOptions {
+  /**
+   * KV key prefix (default: "apikey:")
+   */
+  prefix?: string
+
+  /**
+   * Prefix of generated keys, making them recognizable to secret scanners (default: "mcp_")
+   */
+  keyPrefix?: string
+}
+
+/**
+ * API key authenticator configuration
+ */
+export interface ApiKeyAuthenticatorOptions extends ApiKeyStoreOptions {
+  /**
+   * KV namespace holding the keys
+   */
+  kv: (env: any) => KVNamespace
+
+  /**
+   * Header carrying the key when not sent as a bearer token (default: "X-API-Key")
+   */
+  header?: string
+}
+
+/**
+ * KV rejects expirations shorter than a minute
+ */
+const MIN_KV_TTL = 60
+
+/**
+ * Issues, verifies, rotates and revokes API keys kept in KV.
+ * Use it from a management tool or script with the same namespace the authenticator reads.
+ */
+export class ApiKeyStore {
+  private prefix: string
+  private keyPrefix: string
+
+  constructor(
+    private kv: KVNamespace,
+    options: ApiKeyStoreOptions = {},
+  ) {
+    this.prefix = options.prefix ?? "apikey:"
+    this.keyPrefix = options.keyPrefix ?? "mcp_"
+  }
+
+  /**
+   * Issue a new key. The plaintext key is only returned here - hand it to the client and discard it.
+   */
+  async issue(options: IssueApiKeyOptions): Promise<{ key: string; record: ApiKeyRecord }> {
+    const key = `${this.keyPrefix}${randomToken()}`
+    const now = Date.now()
+    const record: ApiKeyRecord = {
+      id: randomToken(12),
+      principal: options.principal,
+      scopes: options.scopes ?? [],
+      createdAt: now,
+      ...(options.name !== undefined && { name: options.name }),
+      ...(options.props && { props: options.props }),
+      ...(options.expiresInSeconds !== undefined && { expiresAt: now + options.expiresInSeconds * 1000 }),
+    }
+
+    await this.write(await sha256Hex(key), record)
+    return { key, record }
+  }
+
+  /**
+   * Look up the record of a plaintext key. Returns undefined for unknown or expired keys.
+   */
+  async verify(key: string): Promise<ApiKeyRecord | undefined> {
+    const record = await this.kv.get<ApiKeyRecord>(this.hashKey(await sha256Hex(key)), "json")
+    if (!record || (record.expiresAt !== undefined && record.expiresAt <= Date.now())) {
+      return undefined
+    }
+
+    return record
+  }
+
+  /**
+   * Look up a key record by id
+   */
+  async get(id: string): Promise<ApiKeyRecord | undefined> {
+    const hash = await this.kv.get(this.idKey(id))
+    return (hash && (await this.kv.get<ApiKeyRecord>(this.hashKey(hash), "json"))) || undefined
+  }
+
+  /**
+   * Replace a key with a new one for the same principal and scopes.
+   * The old key keeps working for `graceSeconds` (default: 0) so clients can switch over.
+   */
+  async rotate(id: string, options: { graceSeconds?: number } = {}): Promise<{ key: string; record: ApiKeyRecord }> {
+    const hash = await this.kv.get(this.idKey(id))
+    const old = hash ? await this.kv.get<ApiKeyRecord>(this.hashKey(hash), "json") : null
+    if (!hash || !old) {
+      throw new Error(`API key ${id} not found`)
+    }
+
+    const { principal, scopes, name, props, expiresAt, createdAt } = old
+    const rotated = await this.issue({
+      principal,
+      scopes,
+      ...(name !== undefined && { name }),
+      ...(props && { props }),
+      ...(expiresAt !== undefined && { expiresInSeconds: Math.max(0, (expiresAt - createdAt) / 1000) }),
+    })
+
+    const graceSeconds = options.graceSeconds ?? 0
+    if (graceSeconds > 0) {
+      await this.write(hash, { ...old, expiresAt: Date.now() + graceSeconds * 1000 })
+    } else {
+      await this.delete(id, hash)
+    }
+
+    return rotated
+  }
+
+  /**
+   * Revoke a key by id. Returns false when the key does not exist.
+   */
+  async revoke(id: string): Promise<boolean> {
+    const hash = await this.kv.get(this.idKey(id))
+    if (!hash) {
+      return false
+    }
+
+    await this.delete(id, hash)
+    return true
+  }
+
+  private async write(hash: string, record: ApiKeyRecord): Promise<void> {
+    const options =
+      record.expiresAt !== undefined
+        ? { expirationTtl: Math.max(Math.ceil((record.expiresAt - Date.now()) / 1000), MIN_KV_TTL) }
+        : undefined
+
+    await Promise.all([
+      this.kv.put(this.hashKey(hash), JSON.stringify(record), options),
+      this.kv.put(this.idKey(record.id), hash, options),
+    ])
+  }
+
+  private async delete(id: string, hash: string): Promise<void> {
+    await Promise.all([this.kv.delete(this.hashKey(hash)), this.kv.delete(this.idKey(id))])
+  }
+
+  private hashKey(hash: string): string {
+    return `${this.prefix}hash:${hash}`
+  }
+
+  private idKey(id: string): string {
+    return `${this.prefix}id:${id}`
+  }
+}
+
+/**
+ * Create an `authenticate` function accepting API keys from `Authorization: Bearer` or `X-API-Key`.
+ * Resolves with the key's principal and scopes, which become the session auth object.
+ */
+export function apiKeyAuthenticator<T extends ApiKeyPrincipal = ApiKeyPrincipal>(
+  options: ApiKeyAuthenticatorOptions,
+): (request: Request, env?: any) => Promise<T> {
+  const header = options.header ?? "X-API-Key"
+
+  return async (request: Request, env?: any): Promise<T> => {
+    const key = getApiKey(request, header)
+    if (!key) {
+      throw new UnauthorizedError("Missing API key")
+    }
+
+    const record = await new ApiKeyStore(options.kv(env), options).verify(key)
+    if (!record) {
+      throw new UnauthorizedError("Invalid or expired API key", "invalid_token")
+    }
+
+    return {
+      sub: record.principal,
+      key_id: record.id,
+      scope: record.scopes.join(" "),
+      ...(record.name !== undefined && { name: record.name }),
+      ...(record.expiresAt !== undefined && { exp: Math.floor(record.expiresAt / 1000) }),
+      ...(record.props && { props: record.props }),
+    } as T
+  }
+}
+
+/**
+ * Read the key from the bearer token or the API key header
+ */
+function getApiKey(request: Request, header: string): string | undefined {
+  const authorization = request.headers.get("authorization")
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i)
+  if (match) {
+    return match[1]
+  }
+
+  return request.headers.get(header)?.trim() || undefined
+}
@@ -0,0 +1,51 @@
+/**
+ * Encoding and hashing helpers shared by the authenticators
+ */
+
+/**
+ * Encode bytes as base64url without padding
+ */
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = ""
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+/**
+ * Decode a base64url string to bytes
+ */
+export function base64UrlDecode(input: string): Uint8Array<ArrayBuffer> {
+  const base64 = input
+    .replace(/-/g, "+")
+    .replace(/_/g, "/")
+    .padEnd(Math.ceil(input.length / 4) * 4, "=")
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+/**
+ * Generate an unguessable token (base64url of `bytes` random bytes)
+ */
+export function randomToken(bytes = 32): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(bytes)))
+}
+
+/**
+ * SHA-256 digest of a string
+ */
+export async function sha256(value: string): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value)))
+}
+
+/**
+ * Hex-encoded SHA-256 digest of a string, for storing secrets by hash
+ */
+export async function sha256Hex(value: string): Promise<string> {
+  return Array.from(await sha256(value), (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
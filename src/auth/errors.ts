@@ -0,0 +1,158 @@
+/**
+ * Authentication and authorization errors and their HTTP responses
+ */
+
+import { createErrorResponse, JsonRpcErrorCode } from "../utils/response-helpers.js"
+
+/**
+ * Bearer token error codes (RFC 6750, section 3.1)
+ */
+export type BearerErrorCode = "invalid_request" | "invalid_token" | "insufficient_scope"
+
+/**
+ * Base class for errors answered with an HTTP auth status and a `WWW-Authenticate: Bearer` challenge
+ */
+export class AuthError extends Error {
+  /**
+   * JSON-RPC error code, used where the error is answered in-band (batches, WebSocket)
+   */
+  readonly code = JsonRpcErrorCode.ServerError
+
+  constructor(
+    message: string,
+    /**
+     * HTTP status of the response (401 or 403)
+     */
+    public readonly status: 401 | 403,
+    /**
+     * Bearer error code; leave undefined when the request had no credentials at all
+     */
+    public readonly errorCode?: BearerErrorCode,
+    /**
+     * Scopes needed to access the resource, advertised in the challenge
+     */
+    public readonly scopes?: string[],
+  ) {
+    super(message)
+    this.name = "AuthError"
+  }
+}
+
+/**
+ * Thrown by an authenticator when a request carries no valid credentials.
+ * Answered with 401.
+ */
+export class UnauthorizedError extends AuthError {
+  constructor(message = "Unauthorized", errorCode?: BearerErrorCode, scopes?: string[]) {
+    super(message, 401, errorCode, scopes)
+    this.name = "UnauthorizedError"
+  }
+}
+
+/**
+ * Thrown when valid credentials are not allowed to access the server.
+ * Answered with 403.
+ */
+export class ForbiddenError extends AuthError {
+  constructor(message = "Forbidden", errorCode?: BearerErrorCode, scopes?: string[]) {
+    super(message, 403, errorCode, scopes)
+    this.name = "ForbiddenError"
+  }
+}
+
+/**
+ * Thrown when a token lacks the scopes a request needs.
+ * Answered with 403 and an `insufficient_scope` challenge listing the required scopes.
+ */
+export class InsufficientScopeError extends ForbiddenError {
+  constructor(scopes: string[], message = `Requires scope ${scopes.join(" ")}`) {
+    super(message, "insufficient_scope", scopes)
+    this.name = "InsufficientScopeError"
+  }
+}
+
+/**
+ * Thrown when credentials cannot be checked because a service the authenticator relies on failed,
+ * e.g. an unreachable JWKS or introspection endpoint. Answered with 503 rather than a challenge.
+ */
+export class AuthUnavailableError extends Error {
+  constructor(message = "Authentication service unavailable") {
+    super(message)
+    this.name = "AuthUnavailableError"
+  }
+}
+
+/**
+ * Options for auth error responses
+ */
+export interface AuthErrorResponseOptions {
+  /**
+   * URL of the protected resource metadata document (RFC 9728), advertised so clients can discover
+   * the authorization server
+   */
+  resourceMetadata?: string | undefined
+
+  /**
+   * Extra response headers
+   */
+  headers?: Record<string, string>
+}
+
+/**
+ * Build the `WWW-Authenticate` challenge for a failed authentication or authorization
+ */
+export function createBearerChallenge(error: AuthError, resourceMetadata?: string): string {
+  const params: string[] = []
+
+  if (resourceMetadata) {
+    params.push(`resource_metadata="${quote(resourceMetadata)}"`)
+  }
+
+  if (error.errorCode) {
+    params.push(`error="${error.errorCode}"`, `error_description="${quote(error.message)}"`)
+  }
+
+  if (error.scopes?.length) {
+    params.push(`scope="${quote(error.scopes.join(" "))}"`)
+  }
+
+  return params.length ? `Bearer ${params.join(", ")}` : "Bearer"
+}
+
+/**
+ * Create the 401 or 403 response for an error thrown while authenticating or authorizing.
+ * Other errors are not the client's fault: AuthUnavailableError is answered with 503 and anything
+ * else with 500, without details.
+ */
+export function createAuthErrorResponse(error: unknown, options: AuthErrorResponseOptions = {}): Response {
+  if (!(error instanceof AuthError)) {
+    console.error("Error authenticating request:", error)
+
+    const unavailable = error instanceof AuthUnavailableError
+    return createErrorResponse(
+      { code: JsonRpcErrorCode.InternalError, message: unavailable ? "Service Unavailable" : "Internal error" },
+      { status: unavailable ? 503 : 500, headers: { ...options.headers } },
+    )
+  }
+
+  const authError = error
+
+  return createErrorResponse(
+    {
+      code: JsonRpcErrorCode.ServerError,
+      message: authError.status === 403 ? "Forbidden" : "Unauthorized",
+      data: authError.message,
+    },
+    {
+      status: authError.status,
+      headers: { "WWW-Authenticate": createBearerChallenge(authError, options.resourceMetadata), ...options.headers },
+    },
+  )
+}
+
+/**
+ * Strip characters that cannot appear in a quoted challenge parameter
+ */
+function quote(value: string): string {
+  return value.replace(/["\\]/g, "")
+}
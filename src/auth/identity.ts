@@ -0,0 +1,40 @@
+/**
+ * Stable identity of an authenticated principal, shared by the result cache, deferred tasks and stored sessions
+ */
+
+import { canonicalJson } from "../utils/json-helpers.js"
+import { sha256Hex } from "./crypto-helpers.js"
+
+/**
+ * Claims naming the principal, in order of preference
+ */
+const IDENTITY_CLAIMS = ["sub", "client_id", "clientId"]
+
+/**
+ * Claims that change with every token issued to the same principal
+ */
+const PER_TOKEN_CLAIMS = new Set(["iat", "exp", "nbf", "jti"])
+
+/**
+ * Identity of an auth result: its `sub`, `client_id` or `clientId` claim, else a hash of the auth result without
+ * per-token claims (`iat`, `exp`, `nbf`, `jti`). Unauthenticated requests are "public".
+ */
+export async function getAuthIdentity(auth: unknown): Promise<string> {
+  if (auth === undefined || auth === null) {
+    return "public"
+  }
+
+  if (typeof auth === "object") {
+    const claims = auth as Record<string, unknown>
+    for (const claim of IDENTITY_CLAIMS) {
+      if (typeof claims[claim] === "string" && claims[claim]) {
+        return `${claim}:${claims[claim]}`
+      }
+    }
+
+    const stable = Object.fromEntries(Object.entries(claims).filter(([key]) => !PER_TOKEN_CLAIMS.has(key)))
+    return await sha256Hex(canonicalJson(stable))
+  }
+
+  return await sha256Hex(canonicalJson(auth))
+}
@@ -0,0 +1,162 @@
+/**
+ * OAuth 2.0 token introspection (RFC 7662) for opaque access tokens
+ * Active results are cached in the Cache API until the token expires
+ */
+
+import { sha256Hex } from "./crypto-helpers.js"
+import { AuthUnavailableError, UnauthorizedError } from "./errors.js"
+import { getBearerToken } from "./jwt.js"
+import type { JwtClaims } from "./jwt.js"
+import { requireScopes } from "./scopes.js"
+import { openCache } from "../utils/cache-helpers.js"
+
+/**
+ * Claims of an active token, as returned by the introspection endpoint
+ */
+export interface IntrospectionClaims extends JwtClaims {
+  client_id?: string
+  username?: string
+  token_type?: string
+}
+
+/**
+ * Introspection authenticator configuration
+ */
+export interface IntrospectionAuthenticatorOptions {
+  /**
+   * URL of the authorization server's introspection endpoint
+   */
+  introspectionEndpoint: string
+
+  /**
+   * Client credentials of this resource server, or a function reading them from the Worker env
+   */
+  clientId: string | ((env: any) => string)
+  clientSecret: string | ((env: any) => string)
+
+  /**
+   * How the credentials are sent (default: "client_secret_basic")
+   */
+  authMethod?: "client_secret_basic" | "client_secret_post"
+
+  /**
+   * Expected `aud` - the token must be issued for at least one of these
+   */
+  audience?: string | string[]
+
+  /**
+   * Scopes every token must carry
+   */
+  requiredScopes?: string[]
+
+  /**
+   * Upper bound for caching an active result, in seconds (default: 300).
+   * Results are never cached past the token's `exp`; revocations take up to this long to apply.
+   */
+  cacheTtlSeconds?: number
+}
+
+/**
+ * Cache API cache holding introspection results
+ */
+const INTROSPECTION_CACHE_NAME = "fastmcp:introspection"
+
+/**
+ * Create an `authenticate` function validating opaque bearer tokens at an introspection endpoint.
+ * Resolves with the token's claims (`sub`, `scope`, `client_id`, ...), which become the session auth object.
+ */
+export function introspectionAuthenticator<T extends IntrospectionClaims = IntrospectionClaims>(
+  options: IntrospectionAuthenticatorOptions,
+): (request: Request, env?: any) => Promise<T> {
+  const maxCacheTtl = options.cacheTtlSeconds ?? 300
+
+  return async (request: Request, env?: any): Promise<T> => {
+    const token = getBearerToken(request)
+    const cache = await openCache(INTROSPECTION_CACHE_NAME)
+    const cacheKey = new Request(`${options.introspectionEndpoint}?token_hash=${await sha256Hex(token)}`)
+
+    let claims = (await (await cache?.match(cacheKey))?.json()) as T | undefined
+    if (!claims) {
+      claims = await introspect<T>(token, options, env)
+
+      const now = Math.floor(Date.now() / 1000)
+      const ttl = Math.min(maxCacheTtl, typeof claims.exp === "number" ? claims.exp - now : maxCacheTtl)
+      if (cache && ttl > 0) {
+        await cache.put(
+          cacheKey,
+          new Response(JSON.stringify(claims), {
+            headers: { "Content-Type": "application/json", "Cache-Control": `max-age=${ttl}` },
+          }),
+        )
+      }
+    }
+
+    validateClaims(claims, options)
+    return claims
+  }
+}
+
+/**
+ * Ask the introspection endpoint about a token. Throws for inactive tokens.
+ */
+async function introspect<T extends IntrospectionClaims>(
+  token: string,
+  options: IntrospectionAuthenticatorOptions,
+  env?: any,
+): Promise<T> {
+  const clientId = typeof options.clientId === "function" ? options.clientId(env) : options.clientId
+  const clientSecret = typeof options.clientSecret === "function" ? options.clientSecret(env) : options.clientSecret
+
+  const body = new URLSearchParams({ token, token_type_hint: "access_token" })
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+    Accept: "application/json",
+  }
+
+  if (options.authMethod === "client_secret_post") {
+    body.set("client_id", clientId)
+    body.set("client_secret", clientSecret)
+  } else {
+    headers.Authorization = `Basic ${btoa(`${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`)}`
+  }
+
+  const response = await fetch(options.introspectionEndpoint, { method: "POST", headers, body }).catch((error) => {
+    throw new AuthUnavailableError(`Token introspection failed: ${String(error)}`)
+  })
+  if (!response.ok) {
+    throw new AuthUnavailableError(`Token introspection failed: ${response.status}`)
+  }
+
+  const result = (await response.json().catch(() => undefined)) as ({ active?: boolean } & T) | null | undefined
+  if (typeof result !== "object" || result === null) {
+    throw new AuthUnavailableError(`Invalid token introspection response from ${options.introspectionEndpoint}`)
+  }
+
+  const { active, ...claims } = result
+  if (active !== true) {
+    throw new UnauthorizedError("Token is not active", "invalid_token")
+  }
+
+  return claims as unknown as T
+}
+
+/**
+ * Check a (possibly cached) active result against the authenticator options
+ */
+function validateClaims(claims: IntrospectionClaims, options: IntrospectionAuthenticatorOptions): void {
+  if (typeof claims.exp === "number" && claims.exp <= Math.floor(Date.now() / 1000)) {
+    throw new UnauthorizedError("Token expired", "invalid_token")
+  }
+
+  if (options.audience !== undefined) {
+    const expected = Array.isArray(options.audience) ? options.audience : [options.audience]
+    const actual = Array.isArray(claims.aud) ? claims.aud : claims.aud ? [claims.aud] : []
+    if (!actual.some((audience) => expected.includes(audience))) {
+      throw new UnauthorizedError("Token not issued for this audience", "invalid_token")
+    }
+  }
+
+  if (options.requiredScopes) {
+    requireScopes(claims, options.requiredScopes)
+  }
+}
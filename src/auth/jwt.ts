@@ -0,0 +1,372 @@
+/**
+ * JWT bearer token authentication for Cloudflare Workers
+ * Verifies signatures with WebCrypto against a JWKS cached in the Cache API
+ */
+
+import { base64UrlDecode } from "./crypto-helpers.js"
+import { AuthUnavailableError, UnauthorizedError } from "./errors.js"
+import { openCache } from "../utils/cache-helpers.js"
+
+/**
+ * Registered JWT claims, plus any custom claims the issuer adds
+ */
+export interface JwtClaims extends Record<string, unknown> {
+  iss?: string
+  sub?: string
+  aud?: string | string[]
+  exp?: number
+  nbf?: number
+  iat?: number
+  jti?: string
+  scope?: string
+}
+
+/**
+ * Supported JWS signing algorithms
+ */
+export type JwtAlgorithm = "RS256" | "RS384" | "RS512" | "PS256" | "ES256" | "ES384" | "EdDSA"
+
+/**
+ * JWT authenticator configuration
+ */
+export interface JwtAuthenticatorOptions {
+  /**
+   * Expected `iss` claim (one of, when an array)
+   */
+  issuer?: string | string[]
+
+  /**
+   * Expected `aud` claim - the token must be issued for at least one of these
+   */
+  audience?: string | string[]
+
+  /**
+   * URL of the issuer's JSON Web Key Set
+   */
+  jwksUri: string
+
+  /**
+   * Accepted signing algorithms (default: RS256, ES256, EdDSA)
+   */
+  algorithms?: JwtAlgorithm[]
+
+  /**
+   * Allowed clock skew in seconds for exp/nbf checks (default: 60)
+   */
+  clockToleranceSeconds?: number
+
+  /**
+   * How long a fetched JWKS is cached, in seconds (default: 600)
+   */
+  jwksCacheTtlSeconds?: number
+
+  /**
+   * Minimum seconds between refetches triggered by an unknown key id (default: 30).
+   * Keeps tokens with made-up `kid`s from hammering the JWKS endpoint.
+   */
+  jwksRefreshIntervalSeconds?: number
+
+  /**
+   * Read the token from the request (default: the `Authorization: Bearer` header)
+   */
+  getToken?: (request: Request) => string
+}
+
+/**
+ * JSON Web Key as published in a JWKS
+ */
+interface Jwk extends JsonWebKey {
+  kid?: string
+  use?: string
+}
+
+/**
+ * WebCrypto parameters for each JWS algorithm
+ */
+const ALGORITHMS: Record<JwtAlgorithm, { kty: string; importParams: any; verifyParams: any; crv?: string }> = {
+  RS256: {
+    kty: "RSA",
+    importParams: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    verifyParams: { name: "RSASSA-PKCS1-v1_5" },
+  },
+  RS384: {
+    kty: "RSA",
+    importParams: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-384" },
+    verifyParams: { name: "RSASSA-PKCS1-v1_5" },
+  },
+  RS512: {
+    kty: "RSA",
+    importParams: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-512" },
+    verifyParams: { name: "RSASSA-PKCS1-v1_5" },
+  },
+  PS256: {
+    kty: "RSA",
+    importParams: { name: "RSA-PSS", hash: "SHA-256" },
+    verifyParams: { name: "RSA-PSS", saltLength: 32 },
+  },
+  ES256: {
+    kty: "EC",
+    crv: "P-256",
+    importParams: { name: "ECDSA", namedCurve: "P-256" },
+    verifyParams: { name: "ECDSA", hash: "SHA-256" },
+  },
+  ES384: {
+    kty: "EC",
+    crv: "P-384",
+    importParams: { name: "ECDSA", namedCurve: "P-384" },
+    verifyParams: { name: "ECDSA", hash: "SHA-384" },
+  },
+  EdDSA: {
+    kty: "OKP",
+    crv: "Ed25519",
+    importParams: { name: "Ed25519" },
+    verifyParams: { name: "Ed25519" },
+  },
+}
+
+/**
+ * Cache API cache holding fetched key sets
+ */
+const JWKS_CACHE_NAME = "fastmcp:jwks"
+
+/**
+ * Create an `authenticate` function verifying `Authorization: Bearer` JWTs.
+ * Resolves with the token's claims, which become the session auth object.
+ */
+export function jwtAuthenticator<T extends JwtClaims = JwtClaims>(
+  options: JwtAuthenticatorOptions,
+): (request: Request, env?: any) => Promise<T> {
+  const algorithms = options.algorithms ?? ["RS256", "ES256", "EdDSA"]
+  const clockTolerance = options.clockToleranceSeconds ?? 60
+  const jwks = new JwksCache(
+    options.jwksUri,
+    options.jwksCacheTtlSeconds ?? 600,
+    options.jwksRefreshIntervalSeconds ?? 30,
+  )
+
+  return async (request: Request): Promise<T> => {
+    const parts = (options.getToken ?? getBearerToken)(request).split(".")
+    if (parts.length !== 3) {
+      throw new UnauthorizedError("Malformed token", "invalid_token")
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] = parts as [string, string, string]
+
+    const header = decodeJson(encodedHeader) as { alg?: unknown; kid?: unknown; typ?: unknown }
+    const claims = decodeJson(encodedPayload) as T
+    const signature = decodeSegment(encodedSignature)
+
+    const alg = header.alg as JwtAlgorithm
+    if (!alg || !algorithms.includes(alg) || !ALGORITHMS[alg]) {
+      throw new UnauthorizedError(`Unsupported token algorithm ${String(header.alg)}`, "invalid_token")
+    }
+
+    const key = await jwks.getKey(typeof header.kid === "string" ? header.kid : undefined, alg)
+    const valid = await crypto.subtle.verify(
+      ALGORITHMS[alg].verifyParams,
+      key,
+      signature,
+      new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`),
+    )
+    if (!valid) {
+      throw new UnauthorizedError("Invalid token signature", "invalid_token")
+    }
+
+    validateClaims(claims, options, clockTolerance)
+    return claims
+  }
+}
+
+/**
+ * Read the bearer token from the Authorization header
+ */
+export function getBearerToken(request: Request): string {
+  const header = request.headers.get("authorization")
+  if (!header) {
+    throw new UnauthorizedError("Missing bearer token")
+  }
+
+  const match = header.match(/^Bearer\s+(\S+)$/i)
+  if (!match) {
+    throw new UnauthorizedError("Authorization header must use the Bearer scheme", "invalid_request")
+  }
+
+  return match[1]!
+}
+
+/**
+ * Check registered claims against the authenticator options
+ */
+function validateClaims(claims: JwtClaims, options: JwtAuthenticatorOptions, clockTolerance: number): void {
+  const now = Math.floor(Date.now() / 1000)
+
+  if (typeof claims.exp === "number" && now - clockTolerance >= claims.exp) {
+    throw new UnauthorizedError("Token expired", "invalid_token")
+  }
+
+  if (typeof claims.nbf === "number" && now + clockTolerance < claims.nbf) {
+    throw new UnauthorizedError("Token not yet valid", "invalid_token")
+  }
+
+  if (options.issuer !== undefined) {
+    const issuers = Array.isArray(options.issuer) ? options.issuer : [options.issuer]
+    if (!claims.iss || !issuers.includes(claims.iss)) {
+      throw new UnauthorizedError("Unexpected token issuer", "invalid_token")
+    }
+  }
+
+  if (options.audience !== undefined) {
+    const expected = Array.isArray(options.audience) ? options.audience : [options.audience]
+    const actual = Array.isArray(claims.aud) ? claims.aud : claims.aud ? [claims.aud] : []
+    if (!actual.some((audience) => expected.includes(audience))) {
+      throw new UnauthorizedError("Token not issued for this audience", "invalid_token")
+    }
+  }
+}
+
+/**
+ * JWKS of one issuer, cached in isolate memory and in the Cache API.
+ * An unknown `kid` triggers a refetch so rotated keys are picked up without waiting for the TTL.
+ */
+class JwksCache {
+  private keys?: Jwk[]
+  private fetchedAt = 0
+  private cryptoKeys = new Map<string, Promise<CryptoKey>>()
+
+  constructor(
+    private jwksUri: string,
+    private ttlSeconds: number,
+    private refreshIntervalSeconds: number,
+  ) {}
+
+  async getKey(kid: string | undefined, alg: JwtAlgorithm): Promise<CryptoKey> {
+    let jwk = this.findKey(await this.getKeys(), kid, alg)
+
+    if (!jwk && Date.now() - this.fetchedAt >= this.refreshIntervalSeconds * 1000) {
+      jwk = this.findKey(await this.getKeys(true), kid, alg)
+    }
+
+    if (!jwk) {
+      throw new UnauthorizedError("Unknown token signing key", "invalid_token")
+    }
+
+    const cacheKey = `${alg}:${jwk.kid ?? ""}:${jwk.n ?? jwk.x ?? ""}`
+    let key = this.cryptoKeys.get(cacheKey)
+    if (!key) {
+      key = crypto.subtle.importKey("jwk", jwk, ALGORITHMS[alg].importParams, false, ["verify"])
+      key.catch(() => this.cryptoKeys.delete(cacheKey))
+      this.cryptoKeys.set(cacheKey, key)
+    }
+
+    return key
+  }
+
+  private findKey(keys: Jwk[], kid: string | undefined, alg: JwtAlgorithm): Jwk | undefined {
+    const { kty, crv } = ALGORITHMS[alg]
+    const candidates = keys.filter(
+      (key) =>
+        key.kty === kty &&
+        (crv === undefined || key.crv === crv) &&
+        (key.alg === undefined || key.alg === alg) &&
+        (key.use === undefined || key.use === "sig"),
+    )
+
+    if (kid !== undefined) {
+      return candidates.find((key) => key.kid === kid)
+    }
+
+    // Without a kid the key set must be unambiguous
+    return candidates.length === 1 ? candidates[0] : undefined
+  }
+
+  private async getKeys(forceRefresh = false): Promise<Jwk[]> {
+    if (!forceRefresh && this.keys && Date.now() - this.fetchedAt < this.ttlSeconds * 1000) {
+      return this.keys
+    }
+
+    const cache = await openCache(JWKS_CACHE_NAME)
+    const cacheKey = new Request(this.jwksUri)
+
+    if (!forceRefresh && cache) {
+      const cached = await cache.match(cacheKey)
+      if (cached) {
+        return this.remember(((await cached.json()) as { keys?: Jwk[] }).keys ?? [])
+      }
+    }
+
+    let keys: Jwk[]
+    try {
+      keys = await this.fetchKeys()
+    } catch (error) {
+      // Keep verifying with the last known keys if the endpoint is briefly unavailable
+      if (this.keys) {
+        return this.keys
+      }
+      throw error
+    }
+
+    await cache?.put(
+      cacheKey,
+      new Response(JSON.stringify({ keys }), {
+        headers: { "Content-Type": "application/json", "Cache-Control": `max-age=${this.ttlSeconds}` },
+      }),
+    )
+
+    return this.remember(keys)
+  }
+
+  private async fetchKeys(): Promise<Jwk[]> {
+    let response: Response
+    try {
+      response = await fetch(this.jwksUri, { headers: { Accept: "application/json" } })
+    } catch (error) {
+      throw new AuthUnavailableError(`Failed to fetch JWKS from ${this.jwksUri}: ${String(error)}`)
+    }
+
+    if (!response.ok) {
+      throw new AuthUnavailableError(`Failed to fetch JWKS from ${this.jwksUri}: ${response.status}`)
+    }
+
+    const body = (await response.json().catch(() => undefined)) as { keys?: unknown } | null | undefined
+    if (typeof body !== "object" || body === null) {
+      throw new AuthUnavailableError(`Invalid JWKS from ${this.jwksUri}`)
+    }
+
+    return Array.isArray(body.keys) ? body.keys : []
+  }
+
+  private remember(keys: Jwk[]): Jwk[] {
+    this.keys = keys
+    this.fetchedAt = Date.now()
+    return keys
+  }
+}
+
+/**
+ * Decode a base64url segment of a token
+ */
+function decodeSegment(segment: string): Uint8Array<ArrayBuffer> {
+  try {
+    return base64UrlDecode(segment)
+  } catch {
+    throw new UnauthorizedError("Malformed token", "invalid_token")
+  }
+}
+
+/**
+ * Decode a base64url JSON object segment of a token
+ */
+function decodeJson(segment: string): Record<string, unknown> {
+  let value: unknown
+  try {
+    value = JSON.parse(new TextDecoder().decode(decodeSegment(segment)))
+  } catch {
+    throw new UnauthorizedError("Malformed token", "invalid_token")
+  }
+
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new UnauthorizedError("Malformed token", "invalid_token")
+  }
+
+  return value as Record<string, unknown>
+}
@@ -0,0 +1,143 @@
+/**
+ * mTLS client certificate authentication
+ * Reads the certificate Cloudflare API Shield validated at the edge from `request.cf.tlsClientAuth`
+ */
+
+import type { IncomingRequestCfPropertiesTLSClientAuth, KVNamespace } from "@cloudflare/workers-types"
+import { ForbiddenError, UnauthorizedError } from "./errors.js"
+
+/**
+ * Principal a certificate maps to
+ */
+export interface MtlsPrincipalRecord {
+  /**
+   * Principal the certificate authenticates as
+   */
+  principal: string
+
+  /**
+   * Scopes granted to the principal
+   */
+  scopes?: string[]
+
+  /**
+   * Extra data exposed to tools as `props`
+   */
+  props?: Record<string, unknown>
+}
+
+/**
+ * Session auth object for requests authenticated with a client certificate
+ */
+export interface MtlsPrincipal extends Record<string, unknown> {
+  sub: string
+  scope: string
+  fingerprint: string
+  subject_dn: string
+  issuer_dn: string
+  serial: string
+  exp?: number
+  props?: Record<string, unknown>
+}
+
+/**
+ * mTLS authenticator configuration
+ */
+export interface MtlsAuthenticatorOptions {
+  /**
+   * Certificate field principals are keyed by (default: "fingerprint").
+   * Fingerprints are lowercase SHA-256 hex; subjects are RFC 2253 DNs such as "CN=billing,O=Example".
+   */
+  identifyBy?: "fingerprint" | "subject"
+
+  /**
+   * Static map of certificate identifiers to principals
+   */
+  principals?: Record<string, MtlsPrincipalRecord>
+
+  /**
+   * KV namespace mapping `${kvPrefix}${identifier}` to a JSON principal record, checked when
+   * the static map has no entry
+   */
+  kv?: (env: any) => KVNamespace
+
+  /**
+   * KV key prefix (default: "mtls:")
+   */
+  kvPrefix?: string
+}
+
+/**
+ * Create an `authenticate` function for requests carrying a client certificate verified by Cloudflare.
+ * Missing, unverified, revoked or expired certificates get a 401; valid certificates without a
+ * principal get a 403.
+ */
+export function mtlsAuthenticator<T extends MtlsPrincipal = MtlsPrincipal>(
+  options: MtlsAuthenticatorOptions,
+): (request: Request, env?: any) => Promise<T> {
+  if (!options.principals && !options.kv) {
+    throw new Error("mtlsAuthenticator requires principals or kv")
+  }
+
+  const identifyBy = options.identifyBy ?? "fingerprint"
+  const kvPrefix = options.kvPrefix ?? "mtls:"
+
+  return async (request: Request, env?: any): Promise<T> => {
+    const cert = getVerifiedCertificate(request)
+    const fingerprint = cert.certFingerprintSHA256.replace(/:/g, "").toLowerCase()
+    const identifier = identifyBy === "fingerprint" ? fingerprint : cert.certSubjectDNRFC2253
+
+    const record =
+      options.principals?.[identifier] ??
+      (options.kv ? await options.kv(env).get<MtlsPrincipalRecord>(`${kvPrefix}${identifier}`, "json") : undefined)
+    if (!record) {
+      throw new ForbiddenError("Client certificate is not authorized")
+    }
+
+    const notAfter = Date.parse(cert.certNotAfter)
+
+    return {
+      sub: record.principal,
+      scope: (record.scopes ?? []).join(" "),
+      fingerprint,
+      subject_dn: cert.certSubjectDNRFC2253,
+      issuer_dn: cert.certIssuerDNRFC2253,
+      serial: cert.certSerial,
+      ...(!Number.isNaN(notAfter) && { exp: Math.floor(notAfter / 1000) }),
+      ...(record.props && { props: record.props }),
+    } as T
+  }
+}
+
+/**
+ * Read the client certificate from the request, rejecting anything Cloudflare did not verify
+ */
+function getVerifiedCertificate(request: Request): IncomingRequestCfPropertiesTLSClientAuth {
+  const cert = (
+    request as { cf?: { tlsClientAuth?: IncomingRequestCfPropertiesTLSClientAuth | { certPresented: "0" } } }
+  ).cf?.tlsClientAuth
+
+  if (!cert || cert.certPresented !== "1") {
+    throw new UnauthorizedError("Client certificate required")
+  }
+
+  if (cert.certVerified !== "SUCCESS") {
+    throw new UnauthorizedError(`Client certificate verification failed: ${cert.certVerified}`, "invalid_token")
+  }
+
+  if (cert.certRevoked === "1") {
+    throw new UnauthorizedError("Client certificate revoked", "invalid_token")
+  }
+
+  // Verification happens at the handshake, and resumed TLS sessions can outlive the certificate
+  const now = Date.now()
+  if (Date.parse(cert.certNotAfter) <= now) {
+    throw new UnauthorizedError("Client certificate expired", "invalid_token")
+  }
+
+  if (Date.parse(cert.certNotBefore) > now) {
+    throw new UnauthorizedError("Client certificate not yet valid", "invalid_token")
+  }
+
+  return cert
+}
@@ -0,0 +1,811 @@
+/**
+ * Built-in OAuth 2.1 authorization server for MCP on Cloudflare Workers
+ * Serves authorization code + PKCE, refresh tokens, revocation and dynamic client registration,
+ * keeping clients and grants in KV. The user login step is delegated to a pluggable callback.
+ */
+
+import type { KVNamespace } from "@cloudflare/workers-types"
+import { base64UrlEncode, randomToken, sha256, sha256Hex } from "./crypto-helpers.js"
+import { UnauthorizedError } from "./errors.js"
+import { getBearerToken } from "./jwt.js"
+import type { JwtClaims } from "./jwt.js"
+
+/**
+ * Authorization request received on /authorize, after validation
+ */
+export interface AuthorizationRequest {
+  clientId: string
+  redirectUri: string
+  scope: string[]
+  state?: string
+  codeChallenge: string
+  codeChallengeMethod: "S256"
+
+  /**
+   * Resource indicator (RFC 8707): the MCP server URL the tokens are for
+   */
+  resource?: string
+}
+
+/**
+ * Context passed to the login callback
+ */
+export interface OAuthLoginContext {
+  /**
+   * The current request: the /authorize request first, then the callbackPath request
+   * when an upstream identity provider redirects back
+   */
+  request: Request
+  env: any
+  authorization: AuthorizationRequest
+  client: OAuthClient
+
+  /**
+   * Identifier of the pending authorization. Send it as `state` to an upstream identity
+   * provider whose redirect URI is `callbackUrl`; the flow resumes there.
+   */
+  pendingId: string
+  callbackUrl: string
+}
+
+/**
+ * Result of a successful login
+ */
+export interface OAuthLoginResult {
+  /**
+   * Stable user identifier, exposed to tools as `sub`
+   */
+  userId: string
+
+  /**
+   * Scopes granted (default: the scopes requested)
+   */
+  scope?: string[]
+
+  /**
+   * Extra data stored with the grant and exposed to tools as `props`
+   */
+  props?: Record<string, unknown>
+}
+
+/**
+ * Registered OAuth client (RFC 7591)
+ */
+export interface OAuthClient {
+  clientId: string
+  clientSecretHash?: string
+  clientName?: string
+  redirectUris: string[]
+  grantTypes: string[]
+  tokenEndpointAuthMethod: "none" | "client_secret_basic" | "client_secret_post"
+  scope?: string
+  createdAt: number
+}
+
+/**
+ * Auth object for requests carrying an access token issued by the built-in server
+ */
+export interface OAuthTokenClaims extends JwtClaims {
+  sub: string
+  client_id: string
+  scope: string
+  exp: number
+  iat: number
+  props?: Record<string, unknown>
+}
+
+/**
+ * Built-in authorization server configuration
+ */
+export interface OAuthServerOptions {
+  /**
+   * KV namespace storing clients, pending authorizations and grants
+   */
+  kv: (env: any) => KVNamespace
+
+  /**
+   * Authenticate the user. Return the login result to complete the authorization,
+   * or a Response (a login page, or a redirect to an upstream identity provider).
+   */
+  login: (context: OAuthLoginContext) => Promise<Response | OAuthLoginResult>
+
+  /**
+   * Issuer identifier (default: the request origin)
+   */
+  issuer?: string
+
+  /**
+   * Endpoint paths
+   */
+  paths?: {
+    authorize?: string
+    token?: string
+    register?: string
+    revoke?: string
+    callback?: string
+  }
+
+  /**
+   * Scopes advertised in the metadata. Requests for other scopes are rejected when set.
+   */
+  scopesSupported?: string[]
+
+  /**
+   * Access token lifetime in seconds (default: 3600)
+   */
+  accessTokenTtlSeconds?: number
+
+  /**
+   * Refresh token lifetime in seconds (default: 30 days)
+   */
+  refreshTokenTtlSeconds?: number
+
+  /**
+   * How long a login may take, including the upstream round trip, in seconds (default: 600)
+   */
+  authorizationTtlSeconds?: number
+
+  /**
+   * Allow clients to register themselves on the registration endpoint (default: true)
+   */
+  dynamicRegistration?: boolean
+}
+
+/**
+ * Grant stored with authorization codes and tokens
+ */
+interface GrantRecord {
+  clientId: string
+  userId: string
+  scope: string[]
+  props?: Record<string, unknown>
+  resource?: string
+}
+
+interface CodeRecord extends GrantRecord {
+  redirectUri: string
+  codeChallenge: string
+}
+
+interface TokenRecord extends GrantRecord {
+  issuedAt: number
+  expiresAt: number
+}
+
+interface PendingRecord {
+  authorization: AuthorizationRequest
+}
+
+/**
+ * KV key prefixes
+ */
+const KEYS = {
+  client: "oauth:client:",
+  pending: "oauth:pending:",
+  code: "oauth:code:",
+  accessToken: "oauth:access:",
+  refreshToken: "oauth:refresh:",
+}
+
+/**
+ * KV rejects expirations shorter than a minute
+ */
+const MIN_KV_TTL = 60
+
+/**
+ * Headers for token endpoint responses (RFC 6749, section 5.1)
+ */
+const NO_STORE_HEADERS = {
+  "Content-Type": "application/json",
+  "Cache-Control": "no-store",
+  Pragma: "no-cache",
+  "Access-Control-Allow-Origin": "*",
+}
+
+/**
+ * OAuth 2.1 authorization server
+ */
+export class OAuthServer {
+  private paths: Required<NonNullable<OAuthServerOptions["paths"]>>
+
+  constructor(private options: OAuthServerOptions) {
+    this.paths = {
+      authorize: "/authorize",
+      token: "/token",
+      register: "/register",
+      revoke: "/revoke",
+      callback: "/oauth/callback",
+      ...options.paths,
+    }
+  }
+
+  /**
+   * Handle a request for one of the authorization server endpoints.
+   * Returns undefined for any other path.
+   */
+  async handleRequest(request: Request, env?: any): Promise<Response | undefined> {
+    const { pathname } = new URL(request.url)
+
+    switch (pathname) {
+      case this.paths.authorize:
+        return this.handleAuthorize(request, env)
+      case this.paths.callback:
+        return this.handleCallback(request, env)
+      case this.paths.token:
+        return request.method === "POST" ? this.handleToken(request, env) : methodNotAllowed("POST")
+      case this.paths.register:
+        if (this.options.dynamicRegistration === false) {
+          return undefined
+        }
+        return request.method === "POST" ? this.handleRegister(request, env) : methodNotAllowed("POST")
+      case this.paths.revoke:
+        return request.method === "POST" ? this.handleRevoke(request, env) : methodNotAllowed("POST")
+      default:
+        return undefined
+    }
+  }
+
+  /**
+   * Authorization server metadata (RFC 8414)
+   */
+  getMetadata(request: Request): Record<string, unknown> {
+    const issuer = this.getIssuer(request)
+
+    return {
+      issuer,
+      authorization_endpoint: `${issuer}${this.paths.authorize}`,
+      token_endpoint: `${issuer}${this.paths.token}`,
+      revocation_endpoint: `${issuer}${this.paths.revoke}`,
+      ...(this.options.dynamicRegistration !== false && { registration_endpoint: `${issuer}${this.paths.register}` }),
+      ...(this.options.scopesSupported && { scopes_supported: this.options.scopesSupported }),
+      response_types_supported: ["code"],
+      grant_types_supported: ["authorization_code", "refresh_token"],
+      token_endpoint_auth_methods_supported: ["none", "client_secret_basic", "client_secret_post"],
+      revocation_endpoint_auth_methods_supported: ["none", "client_secret_basic", "client_secret_post"],
+      code_challenge_methods_supported: ["S256"],
+    }
+  }
+
+  /**
+   * Authenticate an MCP request carrying an access token issued by this server
+   */
+  async authenticate(request: Request, env?: any): Promise<OAuthTokenClaims> {
+    const token = getBearerToken(request)
+    const record = await this.getRecord<TokenRecord>(env, KEYS.accessToken + (await sha256Hex(token)))
+
+    if (!record) {
+      throw new UnauthorizedError("Invalid access token", "invalid_token")
+    }
+
+    if (record.expiresAt <= Date.now()) {
+      throw new UnauthorizedError("Access token expired", "invalid_token")
+    }
+
+    // Tokens bound to a resource are only accepted by that resource
+    if (record.resource && !isResourceUrl(record.resource, request.url)) {
+      throw new UnauthorizedError("Access token was issued for another resource", "invalid_token")
+    }
+
+    return {
+      sub: record.userId,
+      client_id: record.clientId,
+      scope: record.scope.join(" "),
+      iat: Math.floor(record.issuedAt / 1000),
+      exp: Math.floor(record.expiresAt / 1000),
+      ...(record.resource && { aud: record.resource }),
+      ...(record.props && { props: record.props }),
+    }
+  }
+
+  /**
+   * Look up a registered client
+   */
+  async getClient(clientId: string, env?: any): Promise<OAuthClient | undefined> {
+    return this.getRecord<OAuthClient>(env, KEYS.client + clientId)
+  }
+
+  /**
+   * Validate an authorization request, remember it and hand over to the login callback
+   */
+  private async handleAuthorize(request: Request, env?: any): Promise<Response> {
+    if (request.method !== "GET" && request.method !== "POST") {
+      return methodNotAllowed("GET, POST")
+    }
+
+    const params =
+      request.method === "POST" ? new URLSearchParams(await request.text()) : new URL(request.url).searchParams
+
+    // Without a known client and redirect URI there is nowhere safe to send errors
+    const clientId = params.get("client_id")
+    const client = clientId ? await this.getClient(clientId, env) : undefined
+    if (!client) {
+      return errorPage("Unknown client")
+    }
+
+    const redirectUri = params.get("redirect_uri") ?? (client.redirectUris.length === 1 ? client.redirectUris[0] : null)
+    if (!redirectUri || !client.redirectUris.includes(redirectUri)) {
+      return errorPage("Redirect URI is not registered for this client")
+    }
+
+    const state = params.get("state") ?? undefined
+    const fail = (error: string, description: string) =>
+      redirectWithParams(redirectUri, { error, error_description: description, state })
+
+    if (params.get("response_type") !== "code") {
+      return fail("unsupported_response_type", "Only the authorization code flow is supported")
+    }
+
+    const codeChallenge = params.get("code_challenge")
+    if (!codeChallenge) {
+      return fail("invalid_request", "code_challenge is required")
+    }
+
+    if ((params.get("code_challenge_method") ?? "plain") !== "S256") {
+      return fail("invalid_request", "code_challenge_method must be S256")
+    }
+
+    const scope = parseScope(params.get("scope"))
+    const { scopesSupported } = this.options
+    if (scopesSupported && scope.some((value) => !scopesSupported.includes(value))) {
+      return fail("invalid_scope", "Requested scope is not supported")
+    }
+
+    const resource = params.get("resource") ?? undefined
+    if (resource !== undefined && !isResourceIndicator(resource)) {
+      return fail("invalid_target", "resource must be an absolute URI without a fragment")
+    }
+
+    const authorization: AuthorizationRequest = {
+      clientId: client.clientId,
+      redirectUri,
+      scope,
+      codeChallenge,
+      codeChallengeMethod: "S256",
+      ...(state !== undefined && { state }),
+      ...(resource !== undefined && { resource }),
+    }
+
+    const pendingId = randomToken()
+    await this.putRecord(
+      env,
+      KEYS.pending + pendingId,
+      { authorization } satisfies PendingRecord,
+      this.getAuthorizationTtl(),
+    )
+
+    return this.runLogin(request, env, pendingId, authorization, client)
+  }
+
+  /**
+   * Resume a pending authorization when an upstream identity provider redirects back
+   */
+  private async handleCallback(request: Request, env?: any): Promise<Response> {
+    const pendingId = new URL(request.url).searchParams.get("state")
+    const pending = pendingId ? await this.getRecord<PendingRecord>(env, KEYS.pending + pendingId) : undefined
+    if (!pendingId || !pending) {
+      return errorPage("Authorization request expired or unknown")
+    }
+
+    const client = await this.getClient(pending.authorization.clientId, env)
+    if (!client) {
+      return errorPage("Unknown client")
+    }
+
+    return this.runLogin(request, env, pendingId, pending.authorization, client)
+  }
+
+  /**
+   * Call the login callback and issue an authorization code once it succeeds
+   */
+  private async runLogin(
+    request: Request,
+    env: any,
+    pendingId: string,
+    authorization: AuthorizationRequest,
+    client: OAuthClient,
+  ): Promise<Response> {
+    const callbackUrl = `${new URL(request.url).origin}${this.paths.callback}`
+    const result = await this.options.login({ request, env, authorization, client, pendingId, callbackUrl })
+
+    if (result instanceof Response) {
+      return result
+    }
+
+    await this.getKv(env).delete(KEYS.pending + pendingId)
+
+    const code = randomToken()
+    const record: CodeRecord = {
+      clientId: client.clientId,
+      userId: result.userId,
+      scope: result.scope ?? authorization.scope,
+      redirectUri: authorization.redirectUri,
+      codeChallenge: authorization.codeChallenge,
+      ...(result.props && { props: result.props }),
+      ...(authorization.resource && { resource: authorization.resource }),
+    }
+    await this.putRecord(env, KEYS.code + (await sha256Hex(code)), record, this.getAuthorizationTtl())
+
+    return redirectWithParams(authorization.redirectUri, {
+      code,
+      state: authorization.state,
+      iss: this.getIssuer(request),
+    })
+  }
+
+  /**
+   * Token endpoint: authorization_code and refresh_token grants
+   */
+  private async handleToken(request: Request, env?: any): Promise<Response> {
+    const params = new URLSearchParams(await request.text())
+    const client = await this.authenticateClient(request, params, env)
+    if (client instanceof Response) {
+      return client
+    }
+
+    switch (params.get("grant_type")) {
+      case "authorization_code":
+        return this.exchangeCode(params, client, env)
+      case "refresh_token":
+        return this.refreshTokens(params, client, env)
+      default:
+        return oauthError("unsupported_grant_type", "Supported grants are authorization_code and refresh_token")
+    }
+  }
+
+  private async exchangeCode(params: URLSearchParams, client: OAuthClient, env?: any): Promise<Response> {
+    const code = params.get("code")
+    const verifier = params.get("code_verifier")
+    if (!code || !verifier) {
+      return oauthError("invalid_request", "code and code_verifier are required")
+    }
+
+    // Codes are single use; KV has no compare-and-delete, so this is best effort across colos
+    const key = KEYS.code + (await sha256Hex(code))
+    const record = await this.getRecord<CodeRecord>(env, key)
+    if (!record) {
+      return oauthError("invalid_grant", "Authorization code is invalid or expired")
+    }
+    await this.getKv(env).delete(key)
+
+    if (record.clientId !== client.clientId) {
+      return oauthError("invalid_grant", "Authorization code was issued to another client")
+    }
+
+    const redirectUri = params.get("redirect_uri")
+    if (redirectUri !== null && redirectUri !== record.redirectUri) {
+      return oauthError("invalid_grant", "redirect_uri does not match the authorization request")
+    }
+
+    if (base64UrlEncode(await sha256(verifier)) !== record.codeChallenge) {
+      return oauthError("invalid_grant", "PKCE verification failed")
+    }
+
+    if (params.has("resource") && params.get("resource") !== record.resource) {
+      return oauthError("invalid_target", "resource does not match the authorization request")
+    }
+
+    return this.issueTokens(record, env)
+  }
+
+  private async refreshTokens(params: URLSearchParams, client: OAuthClient, env?: any): Promise<Response> {
+    const refreshToken = params.get("refresh_token")
+    if (!refreshToken) {
+      return oauthError("invalid_request", "refresh_token is required")
+    }
+
+    const key = KEYS.refreshToken + (await sha256Hex(refreshToken))
+    const record = await this.getRecord<TokenRecord>(env, key)
+    if (!record || record.expiresAt <= Date.now() || record.clientId !== client.clientId) {
+      return oauthError("invalid_grant", "Refresh token is invalid or expired")
+    }
+
+    const requested = params.has("scope") ? parseScope(params.get("scope")) : record.scope
+    if (requested.some((value) => !record.scope.includes(value))) {
+      return oauthError("invalid_scope", "Requested scope exceeds the original grant")
+    }
+
+    if (params.has("resource") && params.get("resource") !== record.resource) {
+      return oauthError("invalid_target", "resource does not match the original grant")
+    }
+
+    // Refresh tokens are rotated on every successful use; rejected requests leave them valid
+    const response = await this.issueTokens({ ...record, scope: requested }, env)
+    await this.getKv(env).delete(key)
+    return response
+  }
+
+  private async issueTokens(grant: GrantRecord, env?: any): Promise<Response> {
+    const now = Date.now()
+    const accessTtl = this.options.accessTokenTtlSeconds ?? 3600
+    const refreshTtl = this.options.refreshTokenTtlSeconds ?? 30 * 24 * 3600
+
+    const { clientId, userId, scope, props, resource } = grant
+    const base = { clientId, userId, scope, ...(props && { props }), ...(resource && { resource }), issuedAt: now }
+
+    const accessToken = randomToken()
+    const refreshToken = randomToken()
+    await Promise.all([
+      this.putRecord(
+        env,
+        KEYS.accessToken + (await sha256Hex(accessToken)),
+        { ...base, expiresAt: now + accessTtl * 1000 } satisfies TokenRecord,
+        accessTtl,
+      ),
+      this.putRecord(
+        env,
+        KEYS.refreshToken + (await sha256Hex(refreshToken)),
+        { ...base, expiresAt: now + refreshTtl * 1000 } satisfies TokenRecord,
+        refreshTtl,
+      ),
+    ])
+
+    return new Response(
+      JSON.stringify({
+        access_token: accessToken,
+        token_type: "Bearer",
+        expires_in: accessTtl,
+        refresh_token: refreshToken,
+        scope: scope.join(" "),
+      }),
+      { status: 200, headers: NO_STORE_HEADERS },
+    )
+  }
+
+  /**
+   * Dynamic client registration (RFC 7591)
+   */
+  private async handleRegister(request: Request, env?: any): Promise<Response> {
+    let metadata: any
+    try {
+      metadata = await request.json()
+    } catch {
+      return oauthError("invalid_client_metadata", "Body must be a JSON object")
+    }
+
+    const redirectUris: unknown = metadata?.redirect_uris
+    if (!Array.isArray(redirectUris) || redirectUris.length === 0 || !redirectUris.every(isAllowedRedirectUri)) {
+      return oauthError(
+        "invalid_redirect_uri",
+        "redirect_uris must list https URLs, loopback http URLs or private-use scheme URIs",
+      )
+    }
+
+    const authMethod = metadata.token_endpoint_auth_method ?? "client_secret_basic"
+    if (!["none", "client_secret_basic", "client_secret_post"].includes(authMethod)) {
+      return oauthError("invalid_client_metadata", `Unsupported token_endpoint_auth_method ${String(authMethod)}`)
+    }
+
+    const clientId = randomToken(16)
+    const clientSecret = authMethod === "none" ? undefined : randomToken()
+    const client: OAuthClient = {
+      clientId,
+      redirectUris: redirectUris as string[],
+      grantTypes: ["authorization_code", "refresh_token"],
+      tokenEndpointAuthMethod: authMethod,
+      createdAt: Date.now(),
+      ...(clientSecret && { clientSecretHash: await sha256Hex(clientSecret) }),
+      ...(typeof metadata.client_name === "string" && { clientName: metadata.client_name }),
+      ...(typeof metadata.scope === "string" && { scope: metadata.scope }),
+    }
+    await this.putRecord(env, KEYS.client + clientId, client)
+
+    return new Response(
+      JSON.stringify({
+        client_id: clientId,
+        client_id_issued_at: Math.floor(client.createdAt / 1000),
+        ...(clientSecret && { client_secret: clientSecret, client_secret_expires_at: 0 }),
+        redirect_uris: client.redirectUris,
+        grant_types: client.grantTypes,
+        response_types: ["code"],
+        token_endpoint_auth_method: client.tokenEndpointAuthMethod,
+        ...(client.clientName && { client_name: client.clientName }),
+        ...(client.scope && { scope: client.scope }),
+      }),
+      { status: 201, headers: NO_STORE_HEADERS },
+    )
+  }
+
+  /**
+   * Token revocation (RFC 7009)
+   */
+  private async handleRevoke(request: Request, env?: any): Promise<Response> {
+    const params = new URLSearchParams(await request.text())
+    const client = await this.authenticateClient(request, params, env)
+    if (client instanceof Response) {
+      return client
+    }
+
+    const token = params.get("token")
+    if (!token) {
+      return oauthError("invalid_request", "token is required")
+    }
+
+    const hash = await sha256Hex(token)
+    const kv = this.getKv(env)
+
+    // Only the client a token was issued to may revoke it; unknown tokens are not an error
+    for (const prefix of [KEYS.accessToken, KEYS.refreshToken]) {
+      const record = await this.getRecord<TokenRecord>(env, prefix + hash)
+      if (record && record.clientId === client.clientId) {
+        await kv.delete(prefix + hash)
+      }
+    }
+
+    return new Response(null, { status: 200, headers: NO_STORE_HEADERS })
+  }
+
+  /**
+   * Authenticate the client calling the token or revocation endpoint
+   */
+  private async authenticateClient(
+    request: Request,
+    params: URLSearchParams,
+    env?: any,
+  ): Promise<OAuthClient | Response> {
+    let clientId = params.get("client_id")
+    let clientSecret = params.get("client_secret")
+    let method: OAuthClient["tokenEndpointAuthMethod"] = clientSecret ? "client_secret_post" : "none"
+
+    const authorization = request.headers.get("authorization")
+    if (authorization?.toLowerCase().startsWith("basic ")) {
+      method = "client_secret_basic"
+      try {
+        const [id, secret] = atob(authorization.slice(6).trim()).split(":")
+        clientId = decodeURIComponent(id ?? "")
+        clientSecret = decodeURIComponent(secret ?? "")
+      } catch {
+        return clientAuthenticationFailed(method)
+      }
+    }
+
+    const client = clientId ? await this.getClient(clientId, env) : undefined
+    if (!client) {
+      return clientAuthenticationFailed(method)
+    }
+
+    // Clients must authenticate the way they registered to
+    if (method !== client.tokenEndpointAuthMethod) {
+      return clientAuthenticationFailed(client.tokenEndpointAuthMethod)
+    }
+
+    if (method === "none") {
+      return client
+    }
+
+    if (!clientSecret || !client.clientSecretHash || (await sha256Hex(clientSecret)) !== client.clientSecretHash) {
+      return clientAuthenticationFailed(method)
+    }
+
+    return client
+  }
+
+  private getIssuer(request: Request): string {
+    return (this.options.issuer ?? new URL(request.url).origin).replace(/\/$/, "")
+  }
+
+  private getAuthorizationTtl(): number {
+    return this.options.authorizationTtlSeconds ?? 600
+  }
+
+  private getKv(env?: any): KVNamespace {
+    return this.options.kv(env)
+  }
+
+  private async getRecord<R>(env: any, key: string): Promise<R | undefined> {
+    return ((await this.getKv(env).get(key, "json")) as R | null) ?? undefined
+  }
+
+  private async putRecord(env: any, key: string, value: unknown, ttlSeconds?: number): Promise<void> {
+    await this.getKv(env).put(
+      key,
+      JSON.stringify(value),
+      ttlSeconds !== undefined ? { expirationTtl: Math.max(ttlSeconds, MIN_KV_TTL) } : undefined,
+    )
+  }
+}
+
+/**
+ * Split a space-delimited scope parameter
+ */
+function parseScope(scope: string | null): string[] {
+  return scope ? scope.split(" ").filter(Boolean) : []
+}
+
+/**
+ * Redirect URIs allowed at registration: https, loopback http, or a private-use scheme (native apps)
+ */
+function isAllowedRedirectUri(value: unknown): boolean {
+  if (typeof value !== "string") {
+    return false
+  }
+
+  try {
+    const url = new URL(value)
+    if (url.hash) {
+      return false
+    }
+
+    if (url.protocol === "http:") {
+      return ["localhost", "127.0.0.1", "[::1]"].includes(url.hostname)
+    }
+
+    return url.protocol === "https:" || /^[a-z][a-z0-9+.-]*\.[a-z0-9+.-]+:$/i.test(url.protocol)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Resource indicators are absolute URIs without a fragment (RFC 8707, section 2)
+ */
+function isResourceIndicator(value: string): boolean {
+  try {
+    new URL(value)
+    return !value.includes("#")
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Whether a request URL belongs to a resource: same origin, and a path at or below the resource path
+ */
+function isResourceUrl(resource: string, requestUrl: string): boolean {
+  const expected = new URL(resource)
+  const actual = new URL(requestUrl)
+  const path = expected.pathname.replace(/\/$/, "")
+
+  return (
+    expected.origin === actual.origin && (actual.pathname === path || actual.pathname.startsWith(`${path}/`) || !path)
+  )
+}
+
+/**
+ * Redirect back to the client with query parameters
+ */
+function redirectWithParams(redirectUri: string, params: Record<string, string | undefined>): Response {
+  const url = new URL(redirectUri)
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      url.searchParams.set(key, value)
+    }
+  }
+
+  return new Response(null, { status: 302, headers: { Location: url.toString(), "Cache-Control": "no-store" } })
+}
+
+/**
+ * OAuth error response (RFC 6749, section 5.2)
+ */
+function oauthError(error: string, description: string, status = 400, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify({ error, error_description: description }), {
+    status,
+    headers: { ...NO_STORE_HEADERS, ...headers },
+  })
+}
+
+/**
+ * Failed client authentication, with a Basic challenge when the client tried the Authorization header
+ */
+function clientAuthenticationFailed(method: OAuthClient["tokenEndpointAuthMethod"]): Response {
+  return oauthError(
+    "invalid_client",
+    "Client authentication failed",
+    401,
+    method === "client_secret_basic" ? { "WWW-Authenticate": 'Basic realm="OAuth"' } : {},
+  )
+}
+
+/**
+ * Error shown to the user when the request cannot be sent back to the client
+ */
+function errorPage(message: string): Response {
+  return new Response(`Authorization failed: ${message}`, {
+    status: 400,
+    headers: { "Content-Type": "text/plain; charset=utf-8", "Cache-Control": "no-store" },
+  })
+}
+
+function methodNotAllowed(allow: string): Response {
+  return new Response("Method Not Allowed", { status: 405, headers: { Allow: allow } })
+}
@@ -0,0 +1,46 @@
+/**
+ * Scope checks shared by the authenticators and per-definition authorization
+ */
+
+import { InsufficientScopeError } from "./errors.js"
+
+/**
+ * Scopes granted to an authenticated session.
+ * Reads the space-delimited `scope` claim, or a `scopes`/`scp` array as some identity providers issue.
+ */
+export function getScopes(auth: unknown): string[] {
+  if (typeof auth !== "object" || auth === null) {
+    return []
+  }
+
+  const { scope, scopes, scp } = auth as { scope?: unknown; scopes?: unknown; scp?: unknown }
+  const scopeSet = new Set<string>()
+
+  for (const value of [scope, scopes, scp]) {
+    const values = typeof value === "string" ? value.split(" ") : Array.isArray(value) ? value : []
+    for (const item of values) {
+      if (typeof item === "string" && item) {
+        scopeSet.add(item)
+      }
+    }
+  }
+
+  return [...scopeSet]
+}
+
+/**
+ * Whether a session was granted all of the required scopes
+ */
+export function hasScopes(auth: unknown, required: string[]): boolean {
+  const granted = getScopes(auth)
+  return required.every((scope) => granted.includes(scope))
+}
+
+/**
+ * Throw InsufficientScopeError unless a session was granted all of the required scopes
+ */
+export function requireScopes(auth: unknown, required: string[]): void {
+  if (!hasScopes(auth, required)) {
+    throw new InsufficientScopeError(required)
+  }
+}
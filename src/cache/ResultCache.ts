@@ -0,0 +1,202 @@
+/**
+ * Edge cache for tools/call and resources/read results
+ */
+
+import type { KVNamespace } from "@cloudflare/workers-types"
+import { sha256Hex } from "../auth/crypto-helpers.js"
+import { getAuthIdentity } from "../auth/identity.js"
+import { resolveBinding } from "../resources/ResourceProvider.js"
+import { defaultCache, openCache } from "../utils/cache-helpers.js"
+import { canonicalJson } from "../utils/json-helpers.js"
+
+export { canonicalJson }
+
+/**
+ * Result cache configuration
+ */
+export interface ResultCacheOptions {
+  /**
+   * Seconds results are cached for, unless a definition sets its own (default: 60)
+   */
+  ttlSeconds?: number
+
+  /**
+   * Store entries in this KV namespace instead of the Cache API.
+   * KV entries are shared across data centers and can be invalidated for all arguments of a tool at once.
+   */
+  kv?: string | ((env: any) => KVNamespace)
+
+  /**
+   * Cache API cache to use (default: `caches.default`)
+   */
+  cacheName?: string
+
+  /**
+   * Partition of the cache an auth result reads and writes. Results are only shared within a partition.
+   * Default: one partition per principal - the `sub`, `client_id` or `clientId` claim, else the auth result
+   * without per-token claims - and "public" for unauthenticated requests.
+   */
+  partition?: (auth: any) => string | Promise<string>
+
+  /**
+   * URL prefix of Cache API keys and prefix of KV keys (default: "https://fastmcp-cache.internal/")
+   */
+  keyPrefix?: string
+}
+
+/**
+ * Per-definition cache setting of tools, resources and resource templates:
+ * false to never cache, or the TTL of the definition's results
+ */
+export type CacheSetting = boolean | { ttlSeconds: number }
+
+/**
+ * Where a cached result lives: what was called and the partition it belongs to
+ */
+export interface CacheTarget {
+  kind: "tool" | "resource"
+
+  /**
+   * Tool name or resource URI
+   */
+  name: string
+
+  /**
+   * Tool arguments
+   */
+  arguments?: unknown
+
+  partition: string
+}
+
+/**
+ * A cached result with the time it was stored (ms since the epoch)
+ */
+export interface CachedResult {
+  result: any
+  storedAt: number
+}
+
+/**
+ * `_meta` key reporting whether a result came from the cache
+ */
+export const CACHE_META_KEY = "fastmcp-cloudflare/cache"
+
+const DEFAULT_KEY_PREFIX = "https://fastmcp-cache.internal/"
+
+/**
+ * KV rejects expirations under a minute
+ */
+const KV_MIN_TTL_SECONDS = 60
+
+/**
+ * Result cache over the Cache API or KV
+ */
+export class ResultCache {
+  readonly ttlSeconds: number
+  private keyPrefix: string
+
+  constructor(private options: ResultCacheOptions = {}) {
+    this.ttlSeconds = options.ttlSeconds ?? 60
+    this.keyPrefix = options.keyPrefix ?? DEFAULT_KEY_PREFIX
+  }
+
+  /**
+   * Cache partition of an auth result
+   */
+  async partition(auth: unknown): Promise<string> {
+    if (this.options.partition) {
+      return await this.options.partition(auth)
+    }
+
+    return await getAuthIdentity(auth)
+  }
+
+  async get(target: CacheTarget, env?: any): Promise<CachedResult | undefined> {
+    const key = await this.getKey(target)
+
+    if (this.options.kv) {
+      return (await this.getNamespace(env).get<CachedResult>(key, "json")) ?? undefined
+    }
+
+    const response = await (await this.openCache())?.match(key)
+    return response ? ((await response.json()) as CachedResult) : undefined
+  }
+
+  async put(target: CacheTarget, result: any, ttlSeconds: number, env?: any): Promise<void> {
+    const key = await this.getKey(target)
+    const body = JSON.stringify({ result, storedAt: Date.now() } satisfies CachedResult)
+
+    if (this.options.kv) {
+      await this.getNamespace(env).put(key, body, { expirationTtl: Math.max(ttlSeconds, KV_MIN_TTL_SECONDS) })
+      return
+    }
+
+    await (
+      await this.openCache()
+    )?.put(
+      key,
+      new Response(body, {
+        headers: { "Content-Type": "application/json", "Cache-Control": `max-age=${ttlSeconds}` },
+      }),
+    )
+  }
+
+  /**
+   * Delete cached results. Leaving out the arguments or partition deletes the results for all of them,
+   * which needs a KV store since Cache API entries cannot be listed.
+   */
+  async delete(target: Omit<CacheTarget, "partition"> & { partition?: string }, env?: any): Promise<void> {
+    const exact = target.partition !== undefined && (target.kind === "resource" || target.arguments !== undefined)
+
+    if (!this.options.kv) {
+      if (!exact) {
+        throw new Error("Cache API entries are invalidated one at a time - give the arguments and auth, or use KV")
+      }
+
+      await (await this.openCache())?.delete(await this.getKey(target as CacheTarget))
+      return
+    }
+
+    const namespace = this.getNamespace(env)
+    if (exact) {
+      await namespace.delete(await this.getKey(target as CacheTarget))
+      return
+    }
+
+    const prefix = await this.getKeyPrefix(target)
+    let cursor: string | undefined
+    do {
+      const page = await namespace.list({ prefix, ...(cursor && { cursor }) })
+      await Promise.all(page.keys.map((key) => namespace.delete(key.name)))
+      cursor = page.list_complete ? undefined : page.cursor
+    } while (cursor)
+  }
+
+  /**
+   * Key of a result: `tool/<name>/<arguments hash>/<partition>` or `resource/<uri>/<partition>`
+   */
+  private async getKey(target: CacheTarget): Promise<string> {
+    return `${await this.getKeyPrefix(target)}${encodeURIComponent(target.partition)}`
+  }
+
+  /**
+   * Key prefix shared by the results of a target across partitions, or across arguments when they are left out
+   */
+  private async getKeyPrefix(target: Omit<CacheTarget, "partition">): Promise<string> {
+    const name = `${this.keyPrefix}${target.kind}/${encodeURIComponent(target.name)}/`
+    if (target.kind === "resource") {
+      return name
+    }
+
+    return target.arguments === undefined ? name : `${name}${await sha256Hex(canonicalJson(target.arguments))}/`
+  }
+
+  private async openCache(): Promise<Cache | undefined> {
+    return this.options.cacheName ? await openCache(this.options.cacheName) : defaultCache()
+  }
+
+  private getNamespace(env: any): KVNamespace {
+    return resolveBinding(this.options.kv!, env, "KV")
+  }
+}
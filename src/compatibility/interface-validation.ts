@@ -66,6 +66,18 @@ export function validateToolDefinition(tool: any): {
     issues.push("Tool timeoutMs must be a number or undefined")
   }
 
+  if (!isValidScopeList(tool.requiredScopes)) {
+    issues.push("Tool requiredScopes must be an array of strings or undefined")
+  }
+
+  if (!isValidCacheSetting(tool.cache)) {
+    issues.push("Tool cache must be a boolean, { ttlSeconds: number } or undefined")
+  }
+
+  if (tool.deferred !== undefined && typeof tool.deferred !== "boolean") {
+    issues.push("Tool deferred must be a boolean or undefined")
+  }
+
   return {
     valid: issues.length === 0,
     issues,
@@ -99,6 +111,18 @@ export function validateResourceDefinition(resource: any): {
     issues.push("Resource mimeType must be a string or undefined")
   }
 
+  if (resource.canAccess !== undefined && typeof resource.canAccess !== "function") {
+    issues.push("Resource canAccess must be a function or undefined")
+  }
+
+  if (!isValidScopeList(resource.requiredScopes)) {
+    issues.push("Resource requiredScopes must be an array of strings or undefined")
+  }
+
+  if (!isValidCacheSetting(resource.cache)) {
+    issues.push("Resource cache must be a boolean, { ttlSeconds: number } or undefined")
+  }
+
   return {
     valid: issues.length === 0,
     issues,
@@ -128,6 +152,14 @@ export function validatePromptDefinition(prompt: any): {
     issues.push("Prompt description must be a string or undefined")
   }
 
+  if (prompt.canAccess !== undefined && typeof prompt.canAccess !== "function") {
+    issues.push("Prompt canAccess must be a function or undefined")
+  }
+
+  if (!isValidScopeList(prompt.requiredScopes)) {
+    issues.push("Prompt requiredScopes must be an array of strings or undefined")
+  }
+
   if (prompt.arguments !== undefined) {
     if (!Array.isArray(prompt.arguments)) {
       issues.push("Prompt arguments must be an array or undefined")
@@ -160,6 +192,24 @@ export function validatePromptDefinition(prompt: any): {
   }
 }
 
+/**
+ * Check an optional `requiredScopes` list
+ */
+function isValidScopeList(scopes: unknown): boolean {
+  return scopes === undefined || (Array.isArray(scopes) && scopes.every((scope) => typeof scope === "string"))
+}
+
+/**
+ * Check an optional `cache` setting
+ */
+function isValidCacheSetting(cache: unknown): boolean {
+  return (
+    cache === undefined ||
+    typeof cache === "boolean" ||
+    (typeof cache === "object" && cache !== null && typeof (cache as any).ttlSeconds === "number")
+  )
+}
+
 /**
  * Validate FastMCP server options interface
  */
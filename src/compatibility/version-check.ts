@@ -25,7 +25,7 @@ export const EXPECTED_FASTMCP_API = {
   ToolDefinition: ["name", "description", "parameters", "execute", "annotations", "canAccess", "timeoutMs"],
 
   // Expected exports we use
-  exports: ["FastMCP", "UserError", "imageContent", "audioContent"],
+  exports: ["FastMCP", "FastMCPSession", "UserError", "imageContent", "audioContent"],
 }
 
 /**
@@ -7,15 +7,95 @@
 
 // Main exports
 export { WorkersFastMCP } from "./WorkersFastMCP.js"
-export type { WorkersServerOptions } from "./WorkersFastMCP.js"
+export type {
+  WorkersServerOptions,
+  WorkerExport,
+  WorkerExportOptions,
+  WorkerHookContext,
+  ScheduledHook,
+  QueueHook,
+  EmailHook,
+} from "./WorkersFastMCP.js"
 
 // Transport exports
-export { WorkersTransport, createWorkerHandler } from "./transports/WorkersTransport.js"
+export { WorkersTransport, createWorkerHandler, MCP_SESSION_ID_HEADER } from "./transports/WorkersTransport.js"
 export type { WorkersTransportOptions } from "./transports/WorkersTransport.js"
+export { WebSocketTransport } from "./transports/WebSocketTransport.js"
+export type { WebSocketTransportOptions } from "./transports/WebSocketTransport.js"
+export { LocalSseRelay, DurableObjectSseRelay, McpSseRelayDurableObject } from "./transports/SseRelay.js"
+export type { SseRelay } from "./transports/SseRelay.js"
+
+// Session store exports
+export { MemorySessionStore } from "./sessions/SessionStore.js"
+export type { SessionData, SessionStore } from "./sessions/SessionStore.js"
+export { DurableObjectSessionStore, McpSessionDurableObject } from "./sessions/DurableObjectSessionStore.js"
+
+// Auth exports
+export { jwtAuthenticator } from "./auth/jwt.js"
+export type { JwtClaims, JwtAlgorithm, JwtAuthenticatorOptions } from "./auth/jwt.js"
+export {
+  AuthError,
+  UnauthorizedError,
+  ForbiddenError,
+  InsufficientScopeError,
+  AuthUnavailableError,
+  createAuthErrorResponse,
+  createBearerChallenge,
+} from "./auth/errors.js"
+export type { BearerErrorCode, AuthErrorResponseOptions } from "./auth/errors.js"
+export { accessAuthenticator, ACCESS_JWT_HEADER, ACCESS_COOKIE } from "./auth/access.js"
+export type { AccessIdentity, AccessAuthenticatorOptions } from "./auth/access.js"
+export { introspectionAuthenticator } from "./auth/introspection.js"
+export type { IntrospectionClaims, IntrospectionAuthenticatorOptions } from "./auth/introspection.js"
+export { mtlsAuthenticator } from "./auth/mtls.js"
+export type { MtlsPrincipal, MtlsPrincipalRecord, MtlsAuthenticatorOptions } from "./auth/mtls.js"
+export { getScopes, hasScopes, requireScopes } from "./auth/scopes.js"
+export { apiKeyAuthenticator, ApiKeyStore } from "./auth/api-keys.js"
+export type {
+  ApiKeyRecord,
+  ApiKeyPrincipal,
+  ApiKeyStoreOptions,
+  ApiKeyAuthenticatorOptions,
+  IssueApiKeyOptions,
+} from "./auth/api-keys.js"
+export { OAuthServer } from "./auth/oauth-server.js"
+export type {
+  OAuthServerOptions,
+  OAuthLoginContext,
+  OAuthLoginResult,
+  OAuthClient,
+  OAuthTokenClaims,
+  AuthorizationRequest,
+} from "./auth/oauth-server.js"
+
+// Resource provider exports
+export { KVResourceProvider } from "./resources/KVResourceProvider.js"
+export type { KVResourceOptions } from "./resources/KVResourceProvider.js"
+export { R2ResourceProvider } from "./resources/R2ResourceProvider.js"
+export type { R2ResourceOptions } from "./resources/R2ResourceProvider.js"
+export type { ResourceProvider, ResourcePage, ListedResource } from "./resources/ResourceProvider.js"
+
+// Toolkit exports
+export { D1Toolkit } from "./toolkits/D1Toolkit.js"
+export type { D1ToolkitOptions } from "./toolkits/D1Toolkit.js"
+export { createWorkersAITool, inferWorkersAITask, LocalWorkersAI } from "./toolkits/WorkersAITool.js"
+export type { WorkersAIToolOptions, WorkersAITask, WorkersAIBinding } from "./toolkits/WorkersAITool.js"
+export { VectorizeSearch, MemoryVectorizeIndex } from "./toolkits/VectorizeSearch.js"
+export type { VectorizeSearchOptions, VectorizeBinding, VectorizeDocument } from "./toolkits/VectorizeSearch.js"
+
+// Result cache exports
+export { ResultCache, CACHE_META_KEY, canonicalJson } from "./cache/ResultCache.js"
+export type { ResultCacheOptions, CacheSetting, CacheTarget, CachedResult } from "./cache/ResultCache.js"
+
+// Deferred task exports
+export { DeferredTasks, isTaskMessage, TASK_MESSAGE_TYPE } from "./tasks/DeferredTasks.js"
+export type { DeferredTaskOptions, TaskMessage } from "./tasks/DeferredTasks.js"
+export { MemoryTaskStore, KVTaskStore } from "./tasks/TaskStore.js"
+export type { TaskData, TaskResult, TaskStatus, TaskStore } from "./tasks/TaskStore.js"
 
 // Content helper exports
-export { imageContent, audioContent } from "./utils/content-helpers.js"
-export type { ImageContent, AudioContent } from "./utils/content-helpers.js"
+export { imageContent, audioContent, isTextMimeType, storedResourceContent } from "./utils/content-helpers.js"
+export type { ImageContent, AudioContent, StoredResourceContent } from "./utils/content-helpers.js"
 
 // Runtime utilities
 export {
@@ -45,7 +125,19 @@ export {
   createErrorResponse,
   createCorsResponse,
   createHealthResponse,
+  createJsonRpcError,
+  toJsonRpcError,
+  getHttpStatusForError,
+  JsonRpcError,
+  JsonRpcErrorCode,
 } from "./utils/response-helpers.js"
+export type { JsonRpcErrorObject } from "./utils/response-helpers.js"
+
+// Tool errors reported to clients as `isError` results
+export { UserError } from "fastmcp"
+
+// SSE helpers
+export { SSEStream, formatSSEEvent } from "./utils/sse-helpers.js"
 
 // Compatibility utilities
 export {
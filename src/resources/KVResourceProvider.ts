@@ -0,0 +1,165 @@
+/**
+ * Workers KV namespace exposed as browsable MCP resources
+ */
+
+import type { KVNamespace } from "@cloudflare/workers-types"
+import { keyToUri, resolveBinding } from "./ResourceProvider.js"
+import type { ListedResource, ResourcePage, ResourceProvider } from "./ResourceProvider.js"
+import { storedResourceContent } from "../utils/content-helpers.js"
+import { JsonRpcError, JsonRpcErrorCode } from "../utils/response-helpers.js"
+
+/**
+ * KV resource configuration
+ */
+export interface KVResourceOptions {
+  /**
+   * Name of the KV binding in the Worker env, or a function resolving the namespace from it
+   */
+  binding: string | ((env: any) => KVNamespace)
+
+  /**
+   * Only expose keys starting with this prefix (default: ""). URIs carry the key without it.
+   */
+  prefix?: string
+
+  /**
+   * URI scheme of the resources (default: "kv"), giving URIs such as `kv://config/flags.json`
+   */
+  uriScheme?: string
+
+  /**
+   * MIME type of values stored without `mimeType` or `contentType` metadata (default: "text/plain")
+   */
+  mimeType?: string
+
+  /**
+   * Resource template name (default: the URI scheme) and description
+   */
+  name?: string
+  description?: string
+
+  /**
+   * Keys per resources/list page (default: 100, KV allows up to 1000)
+   */
+  pageSize?: number
+
+  /**
+   * Completion results per request (default: 20)
+   */
+  completionLimit?: number
+
+  /**
+   * Scopes a session must carry to list and read the keys
+   */
+  requiredScopes?: string[]
+
+  /**
+   * Access policy for the keys
+   */
+  canAccess?: (auth: any) => boolean
+}
+
+/**
+ * KV key metadata describing how a value is returned
+ */
+interface KVValueMetadata {
+  mimeType?: string
+  contentType?: string
+}
+
+/**
+ * Resource provider listing and reading the keys of a KV namespace.
+ * Values are returned as text or base64 blobs depending on the MIME type in their metadata.
+ */
+export class KVResourceProvider implements ResourceProvider {
+  readonly name: string
+  readonly uriTemplate: string
+  readonly requiredScopes?: string[]
+  readonly canAccess?: (auth: any) => boolean
+
+  private prefix: string
+  private uriScheme: string
+  private mimeType: string
+
+  constructor(private options: KVResourceOptions) {
+    this.prefix = options.prefix ?? ""
+    this.uriScheme = options.uriScheme ?? "kv"
+    this.mimeType = options.mimeType ?? "text/plain"
+    this.name = options.name ?? this.uriScheme
+    this.uriTemplate = `${this.uriScheme}://{key}`
+
+    if (options.requiredScopes) {
+      this.requiredScopes = options.requiredScopes
+    }
+
+    if (options.canAccess) {
+      this.canAccess = options.canAccess
+    }
+  }
+
+  createTemplate(env: any): any {
+    return {
+      name: this.name,
+      uriTemplate: this.uriTemplate,
+      ...(this.options.description !== undefined && { description: this.options.description }),
+      ...(this.requiredScopes && { requiredScopes: this.requiredScopes }),
+      ...(this.canAccess && { canAccess: this.canAccess }),
+      arguments: [
+        {
+          name: "key",
+          description: "Key in the KV namespace",
+          required: true,
+          complete: async (value: string) => {
+            const limit = this.options.completionLimit ?? 20
+            const page = await this.getNamespace(env).list({ prefix: `${this.prefix}${value}`, limit })
+            return {
+              values: page.keys.map((key) => key.name.slice(this.prefix.length)),
+              hasMore: !page.list_complete,
+            }
+          },
+        },
+      ],
+      load: async ({ key }: { key: string }) => {
+        const { value, metadata } = await this.getNamespace(env).getWithMetadata<KVValueMetadata>(
+          `${this.prefix}${key}`,
+          "arrayBuffer",
+        )
+        if (value === null) {
+          throw new JsonRpcError(JsonRpcErrorCode.ResourceNotFound, `Resource not found: ${this.toUri(key)}`)
+        }
+
+        return {
+          uri: this.toUri(key),
+          ...storedResourceContent(value, metadata?.mimeType ?? metadata?.contentType ?? this.mimeType),
+        }
+      },
+    }
+  }
+
+  async list(env: any, cursor?: string): Promise<ResourcePage> {
+    const page = await this.getNamespace(env).list<KVValueMetadata>({
+      prefix: this.prefix,
+      limit: this.options.pageSize ?? 100,
+      ...(cursor && { cursor }),
+    })
+
+    const resources = page.keys.map((entry): ListedResource => {
+      const key = entry.name.slice(this.prefix.length)
+      return {
+        uri: this.toUri(key),
+        name: key,
+        mimeType: entry.metadata?.mimeType ?? entry.metadata?.contentType ?? this.mimeType,
+      }
+    })
+
+    return { resources, ...(!page.list_complete && { nextCursor: page.cursor }) }
+  }
+
+  private toUri(key: string): string {
+    return keyToUri(this.uriScheme, key)
+  }
+
+  private getNamespace(env: any): KVNamespace {
+    return resolveBinding(this.options.binding, env, "KV")
+  }
+}
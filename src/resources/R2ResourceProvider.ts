@@ -0,0 +1,205 @@
+/**
+ * R2 bucket exposed as browsable MCP resources
+ */
+
+import type { R2Bucket, R2ListOptions } from "@cloudflare/workers-types"
+import { keyToUri, resolveBinding } from "./ResourceProvider.js"
+import type { ListedResource, ResourcePage, ResourceProvider } from "./ResourceProvider.js"
+import { storedResourceContent } from "../utils/content-helpers.js"
+import { JsonRpcError, JsonRpcErrorCode } from "../utils/response-helpers.js"
+
+/**
+ * R2 resource configuration
+ */
+export interface R2ResourceOptions {
+  /**
+   * Name of the R2 binding in the Worker env, or a function resolving the bucket from it
+   */
+  binding: string | ((env: any) => R2Bucket)
+
+  /**
+   * Only expose objects whose key starts with this prefix (default: ""). URIs carry the key without it.
+   */
+  prefix?: string
+
+  /**
+   * URI scheme of the resources (default: "r2"), giving URIs such as `r2://reports/2024.pdf`
+   */
+  uriScheme?: string
+
+  /**
+   * MIME type of objects stored without a Content-Type (default: "application/octet-stream")
+   */
+  mimeType?: string
+
+  /**
+   * Resource template name (default: the URI scheme) and description
+   */
+  name?: string
+  description?: string
+
+  /**
+   * Objects per resources/list page (default: 100, R2 allows up to 1000)
+   */
+  pageSize?: number
+
+  /**
+   * Largest number of bytes returned by one read (default: 1 MiB). Reading a larger object whole fails.
+   */
+  maxSize?: number
+
+  /**
+   * Accept `?offset=&length=` on resource URIs to read part of an object, such as
+   * `r2://logs/app.log?offset=1048576&length=65536` (default: false)
+   */
+  rangeReads?: boolean
+
+  /**
+   * Scopes a session must carry to list and read the objects
+   */
+  requiredScopes?: string[]
+
+  /**
+   * Access policy for the objects
+   */
+  canAccess?: (auth: any) => boolean
+}
+
+/**
+ * Default limit for a single read
+ */
+const DEFAULT_MAX_SIZE = 1024 * 1024
+
+/**
+ * Resource provider listing and reading the objects of an R2 bucket.
+ * Objects are returned as text or base64 blobs depending on their Content-Type.
+ */
+export class R2ResourceProvider implements ResourceProvider {
+  readonly name: string
+  readonly uriTemplate: string
+  readonly requiredScopes?: string[]
+  readonly canAccess?: (auth: any) => boolean
+
+  private prefix: string
+  private uriScheme: string
+  private mimeType: string
+  private maxSize: number
+
+  constructor(private options: R2ResourceOptions) {
+    this.prefix = options.prefix ?? ""
+    this.uriScheme = options.uriScheme ?? "r2"
+    this.mimeType = options.mimeType ?? "application/octet-stream"
+    this.maxSize = options.maxSize ?? DEFAULT_MAX_SIZE
+    this.name = options.name ?? this.uriScheme
+    this.uriTemplate = `${this.uriScheme}://{key}${options.rangeReads ? "{?offset,length}" : ""}`
+
+    if (options.requiredScopes) {
+      this.requiredScopes = options.requiredScopes
+    }
+
+    if (options.canAccess) {
+      this.canAccess = options.canAccess
+    }
+  }
+
+  createTemplate(env: any): any {
+    return {
+      name: this.name,
+      uriTemplate: this.uriTemplate,
+      ...(this.options.description !== undefined && { description: this.options.description }),
+      ...(this.requiredScopes && { requiredScopes: this.requiredScopes }),
+      ...(this.canAccess && { canAccess: this.canAccess }),
+      arguments: [
+        {
+          name: "key",
+          description: "Object key in the R2 bucket",
+          required: true,
+          complete: async (value: string) => {
+            const page = await this.getBucket(env).list({ prefix: `${this.prefix}${value}`, limit: 20 })
+            return {
+              values: page.objects.map((object) => object.key.slice(this.prefix.length)),
+              hasMore: page.truncated,
+            }
+          },
+        },
+        ...(this.options.rangeReads
+          ? [
+              { name: "offset", description: "First byte to read", required: false },
+              { name: "length", description: `Number of bytes to read (at most ${this.maxSize})`, required: false },
+            ]
+          : []),
+      ],
+      load: async ({ key, offset, length }: { key: string; offset?: string; length?: string }) => {
+        const range = this.options.rangeReads ? this.parseRange(offset, length) : undefined
+        const object = await this.getBucket(env).get(`${this.prefix}${key}`, range ? { range } : {})
+        if (!object) {
+          throw new JsonRpcError(
+            JsonRpcErrorCode.ResourceNotFound,
+            `Resource not found: ${keyToUri(this.uriScheme, key)}`,
+          )
+        }
+
+        if (!range && object.size > this.maxSize) {
+          await object.body.cancel()
+          throw new JsonRpcError(
+            JsonRpcErrorCode.InvalidParams,
+            `Object is ${object.size} bytes, over the ${this.maxSize} byte read limit` +
+              (this.options.rangeReads ? " - read it in ranges with ?offset=&length=" : ""),
+            { size: object.size, maxSize: this.maxSize },
+          )
+        }
+
+        const query = range ? `?offset=${range.offset}&length=${range.length}` : ""
+
+        return {
+          uri: `${keyToUri(this.uriScheme, key)}${query}`,
+          ...storedResourceContent(await object.arrayBuffer(), object.httpMetadata?.contentType ?? this.mimeType),
+        }
+      },
+    }
+  }
+
+  async list(env: any, cursor?: string): Promise<ResourcePage> {
+    // The base workers-types predate `include`, without which list() leaves out httpMetadata
+    const options: R2ListOptions & { include: string[] } = {
+      prefix: this.prefix,
+      limit: this.options.pageSize ?? 100,
+      include: ["httpMetadata"],
+      ...(cursor && { cursor }),
+    }
+    const page = await this.getBucket(env).list(options)
+
+    const resources = page.objects.map((object): ListedResource => {
+      const key = object.key.slice(this.prefix.length)
+      return {
+        uri: keyToUri(this.uriScheme, key),
+        name: key,
+        mimeType: object.httpMetadata?.contentType ?? this.mimeType,
+        size: object.size,
+      }
+    })
+
+    return { resources, ...(page.truncated && { nextCursor: page.cursor }) }
+  }
+
+  /**
+   * Byte range requested through `?offset=&length=`, capped at the read limit
+   */
+  private parseRange(offset?: string, length?: string): { offset: number; length: number } | undefined {
+    if (offset === undefined && length === undefined) {
+      return undefined
+    }
+
+    const start = Number(offset ?? 0)
+    const count = Math.min(Number(length ?? this.maxSize), this.maxSize)
+    if (!Number.isSafeInteger(start) || start < 0 || !Number.isSafeInteger(count) || count <= 0) {
+      throw new JsonRpcError(JsonRpcErrorCode.InvalidParams, "offset and length must be non-negative integers")
+    }
+
+    return { offset: start, length: count }
+  }
+
+  private getBucket(env: any): R2Bucket {
+    return resolveBinding(this.options.binding, env, "R2")
+  }
+}
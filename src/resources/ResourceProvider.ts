@@ -0,0 +1,86 @@
+/**
+ * Resource providers expose a storage binding (KV, R2, ...) as MCP resources
+ * The binding is resolved from the Worker env on every request
+ */
+
+/**
+ * Resource entry returned from resources/list
+ */
+export interface ListedResource {
+  uri: string
+  name: string
+  description?: string
+  mimeType?: string
+  size?: number
+}
+
+/**
+ * One page of a provider's resources
+ */
+export interface ResourcePage {
+  resources: ListedResource[]
+
+  /**
+   * Opaque cursor for the next page, absent on the last page
+   */
+  nextCursor?: string
+}
+
+/**
+ * Source of resources backed by a Worker binding
+ */
+export interface ResourceProvider {
+  /**
+   * Name of the resource template the provider registers
+   */
+  name: string
+
+  /**
+   * URI template its resources are read through, such as `kv://{key}`
+   */
+  uriTemplate: string
+
+  /**
+   * Scopes a session must carry to list and read the provider's resources
+   */
+  requiredScopes?: string[]
+
+  /**
+   * Access policy for the provider's resources
+   */
+  canAccess?: (auth: any) => boolean
+
+  /**
+   * Set to false to keep reads of the provider's resources out of the result cache
+   */
+  cache?: false
+
+  /**
+   * Build the resource template (with `load` and completion) for a request's env
+   */
+  createTemplate(env: any): any
+
+  /**
+   * List one page of resources. Providers without it only serve reads through their template.
+   */
+  list?(env: any, cursor?: string): Promise<ResourcePage>
+}
+
+/**
+ * Resource URI of a storage key, percent-encoding each path segment but keeping "/" readable
+ */
+export function keyToUri(uriScheme: string, key: string): string {
+  return `${uriScheme}://${key.split("/").map(encodeURIComponent).join("/")}`
+}
+
+/**
+ * Resolve a binding given by env name or resolver function
+ */
+export function resolveBinding<B>(binding: string | ((env: any) => B), env: any, kind: string): B {
+  const resolved = typeof binding === "function" ? binding(env) : env?.[binding]
+  if (!resolved) {
+    throw new Error(`${kind} binding ${typeof binding === "string" ? `"${binding}" ` : ""}not found in env`)
+  }
+
+  return resolved
+}
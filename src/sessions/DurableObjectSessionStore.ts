@@ -0,0 +1,136 @@
+/**
+ * Durable Object backed session store
+ * Each MCP session lives in its own Durable Object, giving strongly consistent
+ * session data across isolates and colos
+ */
+
+import type { DurableObjectNamespace, DurableObjectState } from "@cloudflare/workers-types"
+import type { SessionData, SessionStore } from "./SessionStore.js"
+
+/**
+ * Storage key used inside each session Durable Object
+ */
+const SESSION_KEY = "session"
+
+/**
+ * Internal URL used to address the session Durable Object
+ */
+const SESSION_URL = "https://mcp-session/"
+
+/**
+ * Session store that talks to McpSessionDurableObject instances
+ */
+export class DurableObjectSessionStore<
+  T extends Record<string, unknown> | undefined = Record<string, unknown> | undefined,
+> implements SessionStore<T> {
+  constructor(
+    private namespace: DurableObjectNamespace,
+    private options: {
+      /**
+       * Expire sessions this many seconds after their last update
+       */
+      ttlSeconds?: number
+    } = {},
+  ) {}
+
+  async get(sessionId: string): Promise<SessionData<T> | undefined> {
+    const response = await this.getStub(sessionId).fetch(SESSION_URL, { method: "GET" })
+
+    if (response.status === 404) {
+      return undefined
+    }
+
+    if (!response.ok) {
+      throw new Error(`Failed to load session ${sessionId}: ${response.status}`)
+    }
+
+    return (await response.json()) as SessionData<T>
+  }
+
+  async set(session: SessionData<T>): Promise<void> {
+    const response = await this.getStub(session.id).fetch(SESSION_URL, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        session,
+        ...(this.options.ttlSeconds !== undefined && { expiresAt: Date.now() + this.options.ttlSeconds * 1000 }),
+      }),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to store session ${session.id}: ${response.status}`)
+    }
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    const response = await this.getStub(sessionId).fetch(SESSION_URL, { method: "DELETE" })
+
+    if (!response.ok) {
+      throw new Error(`Failed to delete session ${sessionId}: ${response.status}`)
+    }
+  }
+
+  private getStub(sessionId: string) {
+    return this.namespace.get(this.namespace.idFromName(sessionId))
+  }
+}
+
+/**
+ * Durable Object class holding a single MCP session
+ *
+ * Export it from your Worker and bind it in wrangler.toml:
+ *
+ *   [[durable_objects.bindings]]
+ *   name = "MCP_SESSIONS"
+ *   class_name = "McpSessionDurableObject"
+ */
+export class McpSessionDurableObject {
+  constructor(
+    private state: DurableObjectState,
+    _env?: unknown,
+  ) {}
+
+  async fetch(request: Request): Promise<Response> {
+    switch (request.method) {
+      case "GET": {
+        const session = await this.state.storage.get(SESSION_KEY)
+        if (!session) {
+          return new Response("Session not found", { status: 404 })
+        }
+
+        return new Response(JSON.stringify(session), {
+          headers: { "Content-Type": "application/json" },
+        })
+      }
+
+      case "PUT": {
+        const { session, expiresAt } = (await request.json()) as { session: SessionData; expiresAt?: number }
+        await this.state.storage.put(SESSION_KEY, session)
+
+        if (expiresAt !== undefined) {
+          await this.state.storage.setAlarm(expiresAt)
+        }
+
+        return new Response(null, { status: 204 })
+      }
+
+      case "DELETE":
+        await this.state.storage.deleteAlarm()
+        await this.state.storage.deleteAll()
+        return new Response(null, { status: 204 })
+
+      default:
+        return new Response("Method Not Allowed", {
+          status: 405,
+          headers: { Allow: "GET, PUT, DELETE" },
+        })
+    }
+  }
+
+  /**
+   * Expire the session once its TTL elapses
+   */
+  async alarm(): Promise<void> {
+    await this.state.storage.deleteAll()
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Session storage for stateful MCP sessions
+ * Persists what a client negotiated during initialize so it survives across Worker invocations
+ */
+
+/**
+ * Per-session data captured during initialize and rehydrated on every request
+ */
+export interface SessionData<T extends Record<string, unknown> | undefined = Record<string, unknown> | undefined> {
+  /**
+   * Session ID (the Mcp-Session-Id header value)
+   */
+  id: string
+
+  /**
+   * Negotiated protocol version
+   */
+  protocolVersion?: string
+
+  /**
+   * Client implementation info sent with initialize
+   */
+  clientInfo?: { name: string; version: string }
+
+  /**
+   * Client capabilities sent with initialize
+   */
+  clientCapabilities?: Record<string, unknown>
+
+  /**
+   * Authentication result at initialize time
+   */
+  auth?: T
+
+  /**
+   * Logging level requested through logging/setLevel
+   */
+  loggingLevel?: string
+
+  /**
+   * Creation timestamp (ms since epoch)
+   */
+  createdAt: number
+
+  /**
+   * Last update timestamp (ms since epoch)
+   */
+  updatedAt: number
+}
+
+/**
+ * Pluggable session storage backend
+ */
+export interface SessionStore<T extends Record<string, unknown> | undefined = Record<string, unknown> | undefined> {
+  get(sessionId: string): Promise<SessionData<T> | undefined>
+  set(session: SessionData<T>): Promise<void>
+  delete(sessionId: string): Promise<void>
+}
+
+/**
+ * In-memory session store (isolate-local, intended for tests and local development)
+ */
+export class MemorySessionStore<
+  T extends Record<string, unknown> | undefined = Record<string, unknown> | undefined,
+> implements SessionStore<T> {
+  private sessions = new Map<string, { session: SessionData<T>; expiresAt?: number }>()
+
+  constructor(private options: { ttlSeconds?: number } = {}) {}
+
+  async get(sessionId: string): Promise<SessionData<T> | undefined> {
+    const entry = this.sessions.get(sessionId)
+    if (!entry) {
+      return undefined
+    }
+
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.sessions.delete(sessionId)
+      return undefined
+    }
+
+    return structuredClone(entry.session)
+  }
+
+  async set(session: SessionData<T>): Promise<void> {
+    this.sessions.set(session.id, {
+      session: structuredClone(session),
+      ...(this.options.ttlSeconds !== undefined && { expiresAt: Date.now() + this.options.ttlSeconds * 1000 }),
+    })
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId)
+  }
+
+  /**
+   * Number of sessions currently held
+   */
+  get size(): number {
+    return this.sessions.size
+  }
+}
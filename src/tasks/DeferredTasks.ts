@@ -0,0 +1,282 @@
+/**
+ * Deferred tool calls: enqueued to a Cloudflare Queue, run by its consumer and collected by task ID
+ */
+
+import type { Queue } from "@cloudflare/workers-types"
+import { UserError } from "fastmcp"
+import { z } from "zod"
+import { getAuthIdentity } from "../auth/identity.js"
+import { resolveBinding } from "../resources/ResourceProvider.js"
+import type { ResourceProvider } from "../resources/ResourceProvider.js"
+import { JsonRpcError, JsonRpcErrorCode } from "../utils/response-helpers.js"
+import type { TaskData, TaskResult, TaskStore } from "./TaskStore.js"
+
+/**
+ * Deferred tool configuration
+ */
+export interface DeferredTaskOptions<
+  T extends Record<string, unknown> | undefined = Record<string, unknown> | undefined,
+> {
+  /**
+   * Name of the Queue producer binding in the Worker env, or a function resolving the queue from it
+   */
+  queue: string | ((env: any) => Queue<TaskMessage>)
+
+  /**
+   * Task store, or a factory building one from the Worker env (e.g. for KV bindings)
+   */
+  store: TaskStore<T> | ((env: any) => TaskStore<T>)
+
+  /**
+   * Owner of the tasks an auth result creates; only the owner can read a task.
+   * Default: the `sub`, `client_id` or `clientId` claim, else the auth result without per-token claims,
+   * and "public" without auth.
+   */
+  owner?: (auth: T | undefined) => string | Promise<string>
+
+  /**
+   * Name of the built-in status tool (default: "task_status")
+   */
+  statusToolName?: string
+
+  /**
+   * URI scheme of the task status resources (default: "task"), giving URIs such as `task://{id}`
+   */
+  uriScheme?: string
+
+  /**
+   * Least time between two writes of a task in milliseconds (default: 1000, as KV takes one write per second
+   * to a key). Progress reported in between is coalesced, keeping the latest.
+   */
+  writeIntervalMs?: number
+}
+
+/**
+ * Queue message body of a deferred tool call
+ */
+export interface TaskMessage {
+  type: typeof TASK_MESSAGE_TYPE
+  taskId: string
+}
+
+export const TASK_MESSAGE_TYPE = "fastmcp-cloudflare/task"
+
+/**
+ * Whether a queue message body is a deferred tool call
+ */
+export function isTaskMessage(body: unknown): body is TaskMessage {
+  return (
+    typeof body === "object" &&
+    body !== null &&
+    (body as TaskMessage).type === TASK_MESSAGE_TYPE &&
+    typeof (body as TaskMessage).taskId === "string"
+  )
+}
+
+/**
+ * Enqueues deferred tool calls and lets their owners collect the outcome.
+ * It is the resource provider of the task status resources and builds the status tool.
+ */
+export class DeferredTasks<
+  T extends Record<string, unknown> | undefined = Record<string, unknown> | undefined,
+> implements ResourceProvider {
+  readonly name: string
+  readonly uriTemplate: string
+
+  // Task status changes while the task runs
+  readonly cache = false
+
+  private uriScheme: string
+  private statusToolName: string
+
+  constructor(private options: DeferredTaskOptions<T>) {
+    this.uriScheme = options.uriScheme ?? "task"
+    this.statusToolName = options.statusToolName ?? "task_status"
+    this.name = `${this.uriScheme}-status`
+    this.uriTemplate = `${this.uriScheme}://{id}`
+  }
+
+  /**
+   * Record a tool call as queued and send it to the queue, answering with its task ID
+   */
+  async enqueue(tool: string, args: Record<string, unknown>, auth: T | undefined, env: any): Promise<TaskResult> {
+    const now = Date.now()
+    const task: TaskData<T> = {
+      id: crypto.randomUUID(),
+      tool,
+      arguments: args ?? {},
+      status: "queued",
+      owner: await this.getOwner(auth),
+      ...(auth !== undefined && { auth }),
+      createdAt: now,
+      updatedAt: now,
+    }
+
+    await this.getStore(env).set(task)
+    await resolveBinding(this.options.queue, env, "Queue").send({ type: TASK_MESSAGE_TYPE, taskId: task.id })
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Task ${task.id} queued. Call ${this.statusToolName} with this taskId to get its result.`,
+        },
+      ],
+      structuredContent: { taskId: task.id, status: task.status, uri: this.toUri(task.id) },
+    }
+  }
+
+  /**
+   * Load a task its owner asked for
+   */
+  async getTask(taskId: string, auth: T | undefined, env: any): Promise<TaskData<T> | undefined> {
+    const task = await this.getStore(env).get(taskId)
+    return task && task.owner === (await this.getOwner(auth)) ? task : undefined
+  }
+
+  /**
+   * Build the status tool, which reads tasks from `context.env`
+   */
+  createStatusTool(): any {
+    return {
+      name: this.statusToolName,
+      description: "Get the status of a deferred tool call and, once it has finished, its result",
+      parameters: z.object({ taskId: z.string().describe("Task ID returned by the deferred tool") }),
+      annotations: { readOnlyHint: true },
+      cache: false,
+      execute: async ({ taskId }: { taskId: string }, context: { session?: T; env?: unknown }): Promise<TaskResult> => {
+        const task = await this.getTask(taskId, context.session, context.env)
+        if (!task) {
+          throw new UserError(`Task ${taskId} not found`)
+        }
+
+        const status = { taskId: task.id, status: task.status, ...(task.progress && { progress: task.progress }) }
+
+        if (task.status === "completed" || task.status === "failed") {
+          return {
+            content: task.result?.content ?? [{ type: "text", text: `Task ${task.id} failed: ${task.error}` }],
+            ...(task.status === "failed" && { isError: true }),
+            structuredContent: {
+              ...status,
+              ...(task.result?.structuredContent !== undefined && { result: task.result.structuredContent }),
+            },
+          }
+        }
+
+        const progress = task.progress
+          ? ` (${task.progress.progress}${task.progress.total !== undefined ? `/${task.progress.total}` : ""}` +
+            `${task.progress.message ? `: ${task.progress.message}` : ""})`
+          : ""
+
+        return {
+          content: [{ type: "text", text: `Task ${task.id} is ${task.status}${progress}` }],
+          structuredContent: status,
+        }
+      },
+    }
+  }
+
+  createTemplate(env: any): any {
+    return {
+      name: this.name,
+      uriTemplate: this.uriTemplate,
+      description: "Status and result of a deferred tool call",
+      mimeType: "application/json",
+      cache: false,
+      arguments: [{ name: "id", description: "Task ID", required: true }],
+      load: async ({ id }: { id: string }, auth?: T) => {
+        const task = await this.getTask(id, auth, env)
+        if (!task) {
+          throw new JsonRpcError(JsonRpcErrorCode.ResourceNotFound, `Resource not found: ${this.toUri(id)}`)
+        }
+
+        // Who a task belongs to and runs as is not shown to clients
+        const visible = Object.fromEntries(Object.entries(task).filter(([key]) => key !== "auth" && key !== "owner"))
+        return { uri: this.toUri(id), mimeType: "application/json", text: JSON.stringify(visible) }
+      },
+    }
+  }
+
+  /**
+   * Create the writer recording a running task in the store for an env
+   */
+  createWriter(env: any): TaskWriter<T> {
+    return new TaskWriter(this.getStore(env), this.options.writeIntervalMs ?? 1000)
+  }
+
+  /**
+   * Resolve the configured task store for an env
+   */
+  getStore(env: any): TaskStore<T> {
+    const { store } = this.options
+    return typeof store === "function" ? store(env) : store
+  }
+
+  private async getOwner(auth: T | undefined): Promise<string> {
+    if (this.options.owner) {
+      return await this.options.owner(auth)
+    }
+
+    return await getAuthIdentity(auth)
+  }
+
+  private toUri(taskId: string): string {
+    return `${this.uriScheme}://${taskId}`
+  }
+}
+
+/**
+ * Writes the updates of a running task no more often than once per interval.
+ * Progress updates in between replace each other, and failing to record one does not fail the task.
+ */
+export class TaskWriter<T extends Record<string, unknown> | undefined = Record<string, unknown> | undefined> {
+  private lastWrite = 0
+  private pending: TaskData<T> | undefined
+  private timer: ReturnType<typeof setTimeout> | undefined
+  private writing = Promise.resolve()
+
+  constructor(
+    private store: TaskStore<T>,
+    private intervalMs: number,
+  ) {}
+
+  /**
+   * Write a status change, superseding pending progress and waiting out the interval since the last write
+   */
+  async write(task: TaskData<T>): Promise<void> {
+    clearTimeout(this.timer)
+    this.timer = undefined
+    this.pending = undefined
+
+    await this.writing
+    const wait = this.lastWrite + this.intervalMs - Date.now()
+    if (wait > 0) {
+      await new Promise((resolve) => setTimeout(resolve, wait))
+    }
+
+    this.lastWrite = Date.now()
+    await this.store.set(task)
+  }
+
+  /**
+   * Record progress once the interval since the last write has passed
+   */
+  progress(task: TaskData<T>): void {
+    this.pending = task
+    this.timer ??= setTimeout(() => this.flush(), Math.max(0, this.lastWrite + this.intervalMs - Date.now()))
+  }
+
+  private flush(): void {
+    const task = this.pending
+    this.timer = undefined
+    this.pending = undefined
+    if (!task) {
+      return
+    }
+
+    this.lastWrite = Date.now()
+    this.writing = this.writing
+      .then(() => this.store.set(task))
+      .catch((error) => console.error(`Failed to record progress of task ${task.id}:`, error))
+  }
+}
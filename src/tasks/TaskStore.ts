@@ -0,0 +1,145 @@
+/**
+ * Storage for deferred tool calls run from a Queue consumer
+ * Holds each task's status, progress and result until the client collects it
+ */
+
+import type { KVNamespace } from "@cloudflare/workers-types"
+
+/**
+ * Lifecycle of a deferred tool call
+ */
+export type TaskStatus = "queued" | "running" | "completed" | "failed"
+
+/**
+ * Result of a tool call, as answered by the tool or the status tool
+ */
+export interface TaskResult {
+  content: unknown[]
+  structuredContent?: unknown
+  isError?: boolean
+}
+
+/**
+ * A deferred tool call
+ */
+export interface TaskData<T extends Record<string, unknown> | undefined = Record<string, unknown> | undefined> {
+  /**
+   * Task ID returned to the client
+   */
+  id: string
+
+  /**
+   * Name and arguments of the tool call
+   */
+  tool: string
+  arguments: Record<string, unknown>
+
+  status: TaskStatus
+
+  /**
+   * Who may read the task, derived from the auth result of the call
+   */
+  owner: string
+
+  /**
+   * Authentication result the tool runs with
+   */
+  auth?: T
+
+  /**
+   * Latest progress reported by the tool
+   */
+  progress?: { progress: number; total?: number; message?: string }
+
+  /**
+   * Tool result, once completed or failed
+   */
+  result?: TaskResult
+
+  /**
+   * Error message when the call could not run
+   */
+  error?: string
+
+  /**
+   * Creation timestamp (ms since epoch)
+   */
+  createdAt: number
+
+  /**
+   * Last update timestamp (ms since epoch)
+   */
+  updatedAt: number
+}
+
+/**
+ * Pluggable task storage backend
+ */
+export interface TaskStore<T extends Record<string, unknown> | undefined = Record<string, unknown> | undefined> {
+  get(taskId: string): Promise<TaskData<T> | undefined>
+  set(task: TaskData<T>): Promise<void>
+  delete(taskId: string): Promise<void>
+}
+
+/**
+ * In-memory task store (isolate-local, intended for tests and local development)
+ */
+export class MemoryTaskStore<
+  T extends Record<string, unknown> | undefined = Record<string, unknown> | undefined,
+> implements TaskStore<T> {
+  private tasks = new Map<string, TaskData<T>>()
+
+  async get(taskId: string): Promise<TaskData<T> | undefined> {
+    const task = this.tasks.get(taskId)
+    return task && structuredClone(task)
+  }
+
+  async set(task: TaskData<T>): Promise<void> {
+    this.tasks.set(task.id, structuredClone(task))
+  }
+
+  async delete(taskId: string): Promise<void> {
+    this.tasks.delete(taskId)
+  }
+}
+
+/**
+ * Task store keeping each task in a KV key. KV is eventually consistent, so a status written
+ * by the consumer can take up to a minute to be seen from other locations.
+ */
+export class KVTaskStore<
+  T extends Record<string, unknown> | undefined = Record<string, unknown> | undefined,
+> implements TaskStore<T> {
+  constructor(
+    private namespace: KVNamespace,
+    private options: {
+      /**
+       * Key prefix (default: "task:")
+       */
+      prefix?: string
+
+      /**
+       * Expire tasks this many seconds after their last update (default: one day)
+       */
+      ttlSeconds?: number
+    } = {},
+  ) {}
+
+  async get(taskId: string): Promise<TaskData<T> | undefined> {
+    return (await this.namespace.get<TaskData<T>>(this.key(taskId), "json")) ?? undefined
+  }
+
+  async set(task: TaskData<T>): Promise<void> {
+    await this.namespace.put(this.key(task.id), JSON.stringify(task), {
+      expirationTtl: this.options.ttlSeconds ?? 86400,
+    })
+  }
+
+  async delete(taskId: string): Promise<void> {
+    await this.namespace.delete(this.key(taskId))
+  }
+
+  private key(taskId: string): string {
+    return `${this.options.prefix ?? "task:"}${taskId}`
+  }
+}
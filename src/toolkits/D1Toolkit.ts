@@ -0,0 +1,643 @@
+/**
+ * D1 database toolkit: table schemas as MCP resources and a guarded SQL query tool
+ */
+
+import type { D1Database } from "@cloudflare/workers-types"
+import { UserError } from "fastmcp"
+import { z } from "zod"
+import { resolveBinding } from "../resources/ResourceProvider.js"
+import type { ListedResource, ResourcePage, ResourceProvider } from "../resources/ResourceProvider.js"
+import { JsonRpcError, JsonRpcErrorCode } from "../utils/response-helpers.js"
+
+/**
+ * D1 toolkit configuration
+ */
+export interface D1ToolkitOptions {
+  /**
+   * Name of the D1 binding in the Worker env, or a function resolving the database from it
+   */
+  binding: string | ((env: any) => D1Database)
+
+  /**
+   * Only allow statements that read data (default: true)
+   */
+  readOnly?: boolean
+
+  /**
+   * Tables the query tool may reference and whose schemas are published (default: all tables)
+   */
+  allowedTables?: string[]
+
+  /**
+   * Statement types the query tool accepts, by leading keyword.
+   * Default: SELECT, WITH and EXPLAIN, plus INSERT, UPDATE, DELETE and REPLACE when not read-only.
+   */
+  statements?: string[]
+
+  /**
+   * Largest number of rows returned by one query (default: 100)
+   */
+  maxRows?: number
+
+  /**
+   * Name of the query tool (default: "query")
+   */
+  toolName?: string
+
+  /**
+   * URI scheme of the schema resources (default: "d1"), giving URIs such as `d1://users/schema`
+   */
+  uriScheme?: string
+
+  /**
+   * Schema resource template name (default: the URI scheme) and description
+   */
+  name?: string
+  description?: string
+
+  /**
+   * Scopes a session must carry to use the query tool and read the schemas
+   */
+  requiredScopes?: string[]
+
+  /**
+   * Access policy for the query tool and schemas
+   */
+  canAccess?: (auth: any) => boolean
+}
+
+/**
+ * Column of a table schema, from `PRAGMA table_info`
+ */
+interface D1Column {
+  name: string
+  type: string
+  notNull: boolean
+  defaultValue: unknown
+  primaryKey: boolean
+}
+
+const READ_STATEMENTS = ["SELECT", "WITH", "EXPLAIN"]
+const WRITE_STATEMENTS = ["INSERT", "UPDATE", "DELETE", "REPLACE"]
+
+/**
+ * Keywords that change data or schema, rejected anywhere in a read-only query
+ */
+const WRITE_KEYWORDS = new Set([
+  ...WRITE_STATEMENTS,
+  "CREATE",
+  "DROP",
+  "ALTER",
+  "ATTACH",
+  "DETACH",
+  "PRAGMA",
+  "VACUUM",
+  "REINDEX",
+  "ANALYZE",
+  "BEGIN",
+  "COMMIT",
+  "ROLLBACK",
+  "SAVEPOINT",
+  "RELEASE",
+])
+
+/**
+ * Keywords followed by a table name
+ */
+const TABLE_KEYWORDS = new Set(["FROM", "INTO", "UPDATE", "TABLE"])
+
+/**
+ * Keywords ending the FROM clause of a statement
+ */
+const FROM_END_KEYWORDS = new Set([
+  "WHERE",
+  "GROUP",
+  "HAVING",
+  "ORDER",
+  "LIMIT",
+  "WINDOW",
+  "UNION",
+  "INTERSECT",
+  "EXCEPT",
+  "RETURNING",
+  "SET",
+  "VALUES",
+])
+
+/**
+ * Keywords starting a subquery in parentheses
+ */
+const SUBQUERY_KEYWORDS = new Set(["SELECT", "WITH", "VALUES"])
+
+/**
+ * Table-valued functions allowed in FROM clauses
+ */
+const TABLE_FUNCTIONS = new Set(["json_each", "json_tree"])
+
+/**
+ * Toolkit exposing a D1 database to LLM agents.
+ * It is the resource provider of the table schemas and builds the query tool.
+ */
+export class D1Toolkit implements ResourceProvider {
+  readonly name: string
+  readonly uriTemplate: string
+  readonly requiredScopes?: string[]
+  readonly canAccess?: (auth: any) => boolean
+
+  private uriScheme: string
+  private readOnly: boolean
+  private maxRows: number
+  private statements: Set<string>
+  private allowedTables?: Set<string>
+
+  constructor(private options: D1ToolkitOptions) {
+    this.uriScheme = options.uriScheme ?? "d1"
+    this.readOnly = options.readOnly ?? true
+    this.maxRows = options.maxRows ?? 100
+    this.name = options.name ?? this.uriScheme
+    this.uriTemplate = `${this.uriScheme}://{table}/schema`
+    this.statements = new Set(
+      (options.statements ?? (this.readOnly ? READ_STATEMENTS : [...READ_STATEMENTS, ...WRITE_STATEMENTS])).map(
+        (statement) => statement.toUpperCase(),
+      ),
+    )
+
+    if (options.allowedTables) {
+      this.allowedTables = new Set(options.allowedTables.map((table) => table.toLowerCase()))
+    }
+
+    if (options.requiredScopes) {
+      this.requiredScopes = options.requiredScopes
+    }
+
+    if (options.canAccess) {
+      this.canAccess = options.canAccess
+    }
+  }
+
+  createTemplate(env: any): any {
+    return {
+      name: this.name,
+      uriTemplate: this.uriTemplate,
+      mimeType: "application/json",
+      ...(this.options.description !== undefined && { description: this.options.description }),
+      ...(this.requiredScopes && { requiredScopes: this.requiredScopes }),
+      ...(this.canAccess && { canAccess: this.canAccess }),
+      arguments: [
+        {
+          name: "table",
+          description: "Table name",
+          required: true,
+          complete: async (value: string) => {
+            const tables = await this.listTables(env)
+            return { values: tables.map(({ name }) => name).filter((name) => name.startsWith(value)) }
+          },
+        },
+      ],
+      load: async ({ table: name }: { table: string }) => {
+        const entry = (await this.listTables(env)).find((item) => item.name === name)
+        if (!entry) {
+          throw new JsonRpcError(JsonRpcErrorCode.ResourceNotFound, `Resource not found: ${this.toUri(name)}`)
+        }
+
+        const { results } = await this.getDatabase(env)
+          .prepare(`PRAGMA table_info(${quoteIdentifier(name)})`)
+          .all<{ name: string; type: string; notnull: number; dflt_value: unknown; pk: number }>()
+        const columns = results.map((column): D1Column => ({
+          name: column.name,
+          type: column.type,
+          notNull: Boolean(column.notnull),
+          defaultValue: column.dflt_value,
+          primaryKey: column.pk > 0,
+        }))
+
+        return {
+          uri: this.toUri(name),
+          mimeType: "application/json",
+          text: JSON.stringify({ table: name, columns, sql: entry.sql }, null, 2),
+        }
+      },
+    }
+  }
+
+  async list(env: any): Promise<ResourcePage> {
+    const resources = (await this.listTables(env)).map(({ name }): ListedResource => ({
+      uri: this.toUri(name),
+      name: `${name} schema`,
+      description: `Columns of the ${name} table`,
+      mimeType: "application/json",
+    }))
+
+    return { resources }
+  }
+
+  /**
+   * Build the query tool, which reads the database from `context.env`
+   */
+  createQueryTool(): any {
+    const tables = this.options.allowedTables ? ` Tables: ${this.options.allowedTables.join(", ")}.` : ""
+    const statements = [...this.statements].join(", ")
+
+    return {
+      name: this.options.toolName ?? "query",
+      description:
+        `Run one ${this.readOnly ? "read-only " : ""}SQL statement (${statements}) against the D1 database ` +
+        `and return at most ${this.maxRows} rows. Use ? placeholders with params for values.${tables}`,
+      parameters: z.object({
+        sql: z.string().describe("A single SQLite statement"),
+        params: z
+          .array(z.union([z.string(), z.number(), z.boolean(), z.null()]))
+          .optional()
+          .describe("Values bound to the ? placeholders, in order"),
+      }),
+      annotations: this.readOnly ? { readOnlyHint: true } : { destructiveHint: true },
+      ...(this.requiredScopes && { requiredScopes: this.requiredScopes }),
+      ...(this.canAccess && { canAccess: this.canAccess }),
+      execute: async ({ sql, params = [] }: { sql: string; params?: unknown[] }, context: any) => {
+        const statement = this.checkStatement(sql)
+
+        const result = await this.getDatabase(context.env)
+          .prepare(statement)
+          .bind(...params)
+          .all<Record<string, unknown>>()
+        const rows = result.results.slice(0, this.maxRows)
+        const truncated = result.results.length > rows.length
+        const columns = rows.length ? Object.keys(rows[0]!) : []
+        const changes = result.meta?.changes ?? 0
+
+        return {
+          content: [{ type: "text", text: formatTable(columns, rows, { truncated, changes }) }],
+          structuredContent: { columns, rows, rowCount: rows.length, truncated, changes },
+        }
+      },
+    }
+  }
+
+  /**
+   * Reject statements that are not allowed, reporting why to the model.
+   * Returns the statement to run, with queries limited to one row past the cap.
+   */
+  private checkStatement(sql: string): string {
+    const tokens = tokenize(sql)
+    let end = sql.length
+    while (tokens.at(-1)?.value === ";") {
+      end = tokens.pop()!.offset
+    }
+
+    if (!tokens.length) {
+      throw new UserError("The SQL statement is empty")
+    }
+
+    if (tokens.some((token) => token.value === ";")) {
+      throw new UserError("Only one SQL statement can be run at a time")
+    }
+
+    // The table checks and the row limit wrapper both rely on parentheses pairing up
+    if (!hasBalancedParentheses(tokens)) {
+      throw new UserError("The SQL statement has unbalanced parentheses")
+    }
+
+    const keyword = tokens[0]!.kind === "word" ? tokens[0]!.value.toUpperCase() : ""
+    if (!this.statements.has(keyword)) {
+      throw new UserError(
+        `${keyword || "This"} statements are not allowed. Allowed: ${[...this.statements].join(", ")}`,
+      )
+    }
+
+    if (this.readOnly) {
+      const write = findKeyword(tokens, WRITE_KEYWORDS)
+      if (write) {
+        throw new UserError(`The database is read-only: ${write.value.toUpperCase()} is not allowed`)
+      }
+    }
+
+    if (this.allowedTables) {
+      const cteNames = findCteNames(tokens)
+      for (const table of findTableReferences(tokens)) {
+        if (!this.allowedTables.has(table) && !cteNames.has(table)) {
+          throw new UserError(`Table ${table} is not accessible. Tables: ${this.options.allowedTables!.join(", ")}`)
+        }
+      }
+    }
+
+    // Have the database stop reading instead of loading the whole result into the Worker.
+    // The line breaks keep a trailing comment from swallowing the limit.
+    if ((keyword === "SELECT" || keyword === "WITH") && !findKeyword(tokens, new Set(WRITE_STATEMENTS))) {
+      return `SELECT * FROM (\n${sql.slice(0, end)}\n) LIMIT ${this.maxRows + 1}`
+    }
+
+    return sql
+  }
+
+  /**
+   * User tables of the database, limited to the allowed tables
+   */
+  private async listTables(env: any): Promise<{ name: string; sql: string }[]> {
+    const { results } = await this.getDatabase(env)
+      .prepare(
+        "SELECT name, sql FROM sqlite_master WHERE type = 'table' " +
+          "AND name NOT LIKE 'sqlite\\_%' ESCAPE '\\' AND name NOT LIKE '\\_cf\\_%' ESCAPE '\\' ORDER BY name",
+      )
+      .all<{ name: string; sql: string }>()
+
+    return results.filter(({ name }) => !this.allowedTables || this.allowedTables.has(name.toLowerCase()))
+  }
+
+  private toUri(table: string): string {
+    return `${this.uriScheme}://${encodeURIComponent(table)}/schema`
+  }
+
+  private getDatabase(env: any): D1Database {
+    return resolveBinding(this.options.binding, env, "D1")
+  }
+}
+
+/**
+ * SQL token: a keyword or bare identifier, a quoted identifier, or punctuation.
+ * String literals, numbers and comments are dropped.
+ */
+interface SqlToken {
+  kind: "word" | "identifier" | "punctuation"
+  value: string
+
+  /**
+   * Position of the token in the SQL text
+   */
+  offset: number
+}
+
+/**
+ * Split SQL into the tokens the statement checks look at
+ */
+function tokenize(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = []
+  const pattern =
+    /(--[^\n]*|\/\*[\s\S]*?(?:\*\/|$))|('(?:[^']|'')*'?)|"((?:[^"]|"")*)"?|`((?:[^`]|``)*)`?|\[([^\]]*)\]?|([A-Za-z_][\w$]*)|(\d[\w.]*)|(\S)/g
+
+  for (const match of sql.matchAll(pattern)) {
+    const [, comment, literal, doubleQuoted, backQuoted, bracketed, word, number, punctuation] = match
+    if (comment !== undefined || literal !== undefined || number !== undefined) {
+      continue
+    }
+
+    if (word !== undefined) {
+      tokens.push({ kind: "word", value: word, offset: match.index })
+    } else if (punctuation !== undefined) {
+      tokens.push({ kind: "punctuation", value: punctuation, offset: match.index })
+    } else {
+      const quoted = doubleQuoted?.replace(/""/g, '"') ?? backQuoted?.replace(/``/g, "`") ?? bracketed ?? ""
+      tokens.push({ kind: "identifier", value: quoted, offset: match.index })
+    }
+  }
+
+  return tokens
+}
+
+/**
+ * First of the keywords in a statement, leaving out function calls such as replace(...)
+ */
+function findKeyword(tokens: SqlToken[], keywords: Set<string>): SqlToken | undefined {
+  return tokens.find(
+    (token, index) =>
+      token.kind === "word" && keywords.has(token.value.toUpperCase()) && tokens[index + 1]?.value !== "(",
+  )
+}
+
+/**
+ * Whether every parenthesis in a statement is closed, and closed after it was opened
+ */
+function hasBalancedParentheses(tokens: SqlToken[]): boolean {
+  let depth = 0
+  for (const token of tokens) {
+    if (token.kind !== "punctuation") {
+      continue
+    }
+
+    if (token.value === "(") {
+      depth++
+    } else if (token.value === ")" && --depth < 0) {
+      return false
+    }
+  }
+
+  return depth === 0
+}
+
+/**
+ * Whether a token names something, rather than being punctuation
+ */
+function isName(token: SqlToken | undefined): token is SqlToken {
+  return token !== undefined && token.kind !== "punctuation"
+}
+
+/**
+ * Lower-cased names of the tables a statement reads or writes, including table-valued functions
+ */
+function findTableReferences(tokens: SqlToken[]): string[] {
+  const tables: string[] = []
+
+  for (let index = 0; index < tokens.length; index++) {
+    const keyword = tokens[index]!.kind === "word" ? tokens[index]!.value.toUpperCase() : ""
+    if (!TABLE_KEYWORDS.has(keyword)) {
+      continue
+    }
+
+    if (keyword === "FROM") {
+      // IS [NOT] DISTINCT FROM compares values
+      if (tokens[index - 1]?.value.toUpperCase() !== "DISTINCT") {
+        tables.push(...findSourceTables(tokens, index + 1))
+      }
+      continue
+    }
+
+    let position = index + 1
+
+    // UPDATE OR REPLACE, DROP TABLE IF [NOT] EXISTS
+    if (tokens[position]?.value.toUpperCase() === "OR") {
+      position += 2
+    } else if (tokens[position]?.value.toUpperCase() === "IF") {
+      position += tokens[position + 1]?.value.toUpperCase() === "NOT" ? 3 : 2
+    }
+
+    // schema.table
+    if (tokens[position + 1]?.value === "." && isName(tokens[position + 2])) {
+      position += 2
+    }
+
+    const name = tokens[position]
+    if (isName(name)) {
+      tables.push(name.value.toLowerCase())
+    }
+  }
+
+  return tables
+}
+
+/**
+ * Tables of the FROM clause starting at a position: the sources of its comma-separated list and joins,
+ * looking into parenthesized joins. Subqueries are skipped, their own FROM clauses being read separately.
+ */
+function findSourceTables(tokens: SqlToken[], start: number): string[] {
+  const tables: string[] = []
+  let expectSource = true
+  let depth = 0
+
+  for (let position = start; position < tokens.length; position++) {
+    const token = tokens[position]!
+    const word = token.kind === "word" ? token.value.toUpperCase() : ""
+
+    if (token.value === "(" && token.kind === "punctuation") {
+      if (expectSource && !SUBQUERY_KEYWORDS.has(tokens[position + 1]?.value.toUpperCase() ?? "")) {
+        depth++
+      } else {
+        // A subquery, table-valued function arguments or part of a join constraint
+        position = findClosingParenthesis(tokens, position)
+        expectSource = false
+      }
+    } else if (token.value === ")" && token.kind === "punctuation") {
+      if (depth === 0) {
+        break
+      }
+      depth--
+      expectSource = false
+    } else if (token.value === "," && token.kind === "punctuation") {
+      expectSource = true
+    } else if (FROM_END_KEYWORDS.has(word)) {
+      break
+    } else if (word === "JOIN") {
+      expectSource = true
+    } else if (word === "ON" || word === "USING") {
+      expectSource = false
+    } else if (expectSource && isName(token)) {
+      // schema.table
+      let name = token
+      if (tokens[position + 1]?.value === "." && isName(tokens[position + 2])) {
+        position += 2
+        name = tokens[position]!
+      }
+
+      const table = name.value.toLowerCase()
+      if (tokens[position + 1]?.value !== "(" || !TABLE_FUNCTIONS.has(table)) {
+        tables.push(table)
+      }
+      expectSource = false
+    }
+  }
+
+  return tables
+}
+
+/**
+ * Position of the parenthesis closing the one at a position, or the last position when it is not closed
+ */
+function findClosingParenthesis(tokens: SqlToken[], open: number): number {
+  let depth = 0
+  for (let position = open; position < tokens.length; position++) {
+    const token = tokens[position]!
+    if (token.kind !== "punctuation") {
+      continue
+    }
+
+    if (token.value === "(") {
+      depth++
+    } else if (token.value === ")" && --depth === 0) {
+      return position
+    }
+  }
+
+  return tokens.length - 1
+}
+
+/**
+ * Lower-cased names of the common table expressions defined by the WITH clause a statement starts with
+ */
+function findCteNames(tokens: SqlToken[]): Set<string> {
+  const names = new Set<string>()
+
+  // EXPLAIN [QUERY PLAN] WITH ...
+  let position = 0
+  if (tokens[position]?.value.toUpperCase() === "EXPLAIN") {
+    position += tokens[position + 1]?.value.toUpperCase() === "QUERY" ? 3 : 1
+  }
+
+  if (tokens[position]?.value.toUpperCase() !== "WITH") {
+    return names
+  }
+  position++
+  if (tokens[position]?.value.toUpperCase() === "RECURSIVE") {
+    position++
+  }
+
+  // name [(columns)] AS [[NOT] MATERIALIZED] (...), ...
+  while (isName(tokens[position])) {
+    const name = tokens[position]!.value.toLowerCase()
+    position++
+
+    if (tokens[position]?.value === "(") {
+      position = findClosingParenthesis(tokens, position) + 1
+    }
+    if (tokens[position]?.value.toUpperCase() !== "AS") {
+      break
+    }
+    position++
+    if (tokens[position]?.value.toUpperCase() === "NOT") {
+      position++
+    }
+    if (tokens[position]?.value.toUpperCase() === "MATERIALIZED") {
+      position++
+    }
+    if (tokens[position]?.value !== "(") {
+      break
+    }
+
+    names.add(name)
+    position = findClosingParenthesis(tokens, position) + 1
+    if (tokens[position]?.value !== ",") {
+      break
+    }
+    position++
+  }
+
+  return names
+}
+
+/**
+ * Quote an SQL identifier
+ */
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`
+}
+
+/**
+ * Render rows as a Markdown table for the text content of a query result
+ */
+function formatTable(
+  columns: string[],
+  rows: Record<string, unknown>[],
+  { truncated, changes }: { truncated: boolean; changes: number },
+): string {
+  if (!rows.length) {
+    return changes ? `${changes} row${changes === 1 ? "" : "s"} changed` : "No rows"
+  }
+
+  const cell = (value: unknown) => {
+    if (value === null || value === undefined) {
+      return "NULL"
+    }
+
+    const text = value instanceof ArrayBuffer ? `<${value.byteLength} bytes>` : String(value)
+    return text.replace(/\|/g, "\\|").replace(/\r?\n/g, " ")
+  }
+
+  const lines = [
+    `| ${columns.map(cell).join(" | ")} |`,
+    `| ${columns.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${columns.map((column) => cell(row[column])).join(" | ")} |`),
+  ]
+
+  if (truncated) {
+    lines.push("", `Showing the first ${rows.length} rows.`)
+  }
+
+  return lines.join("\n")
+}
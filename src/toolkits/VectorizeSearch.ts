@@ -0,0 +1,414 @@
+/**
+ * Semantic search over a Vectorize index, with its documents readable as MCP resources
+ */
+
+import type {
+  VectorizeMatch,
+  VectorizeMatches,
+  VectorizeQueryOptions,
+  VectorizeVector,
+  VectorizeVectorMetadata,
+  VectorizeVectorMetadataFilter,
+} from "@cloudflare/workers-types"
+import { z } from "zod"
+import { resolveBinding } from "../resources/ResourceProvider.js"
+import type { ResourceProvider } from "../resources/ResourceProvider.js"
+import { JsonRpcError, JsonRpcErrorCode } from "../utils/response-helpers.js"
+import type { WorkersAIBinding } from "./WorkersAITool.js"
+
+/**
+ * The part of the Vectorize binding the search uses
+ */
+export interface VectorizeBinding {
+  query(vector: number[], options?: VectorizeQueryOptions): Promise<VectorizeMatches>
+  getByIds(ids: string[]): Promise<VectorizeVector[]>
+}
+
+/**
+ * Source document of a match, as linked or embedded in search results
+ */
+export interface VectorizeDocument {
+  uri: string
+  name: string
+  description?: string
+  mimeType?: string
+
+  /**
+   * Document text, required to embed the document in results
+   */
+  text?: string
+}
+
+/**
+ * Vectorize search configuration
+ */
+export interface VectorizeSearchOptions {
+  /**
+   * Name of the Vectorize binding in the Worker env, or a function resolving the index from it
+   */
+  index: string | ((env: any) => VectorizeBinding)
+
+  /**
+   * Embed the search query: a function, or the Workers AI embedding model to run
+   * (default: `@cf/baai/bge-base-en-v1.5` through the "AI" binding)
+   */
+  embed?:
+    | ((query: string, env: any) => Promise<number[]>)
+    | { model?: string; binding?: string | ((env: any) => WorkersAIBinding) }
+
+  /**
+   * Matches returned by default (default: 5), and the most a client may ask for (default: 20).
+   * Both are capped at 20, the most Vectorize returns with all metadata.
+   */
+  topK?: number
+  maxTopK?: number
+
+  /**
+   * Lowest score of a returned match
+   */
+  minScore?: number
+
+  /**
+   * Metadata filter applied to every search and document read, or a function building it from the
+   * tool or resource arguments and a context holding the session's auth (`session`) and `env`
+   */
+  filter?: VectorizeVectorMetadataFilter | ((args: any, context: any) => VectorizeVectorMetadataFilter | undefined)
+
+  /**
+   * Metadata fields clients may filter on through the tool's `filter` argument.
+   * They are combined with `filter`, which wins on conflicts.
+   */
+  filterFields?: string[]
+
+  /**
+   * Vectorize namespace to search
+   */
+  namespace?: string
+
+  /**
+   * Return matches as `resource_link` content (default) or as embedded `resource` content with the document text
+   */
+  results?: "link" | "embedded"
+
+  /**
+   * Map a match to its source document. By default the document URI is the `uri` metadata field,
+   * or the index's own resource URI, and its text is the `text` metadata field.
+   */
+  toDocument?: (match: VectorizeMatch) => VectorizeDocument
+
+  /**
+   * Name and description of the search tool (default: "search")
+   */
+  name?: string
+  description?: string
+
+  /**
+   * URI scheme of the resources serving document text from vector metadata (default: "vectorize"),
+   * giving URIs such as `vectorize://doc-42`
+   */
+  uriScheme?: string
+
+  /**
+   * Scopes a session must carry to search and read the documents
+   */
+  requiredScopes?: string[]
+
+  /**
+   * Access policy for the search tool and documents
+   */
+  canAccess?: (auth: any) => boolean
+}
+
+const DEFAULT_EMBEDDING_MODEL = "@cf/baai/bge-base-en-v1.5"
+
+// Vectorize caps topK at 20 when values or all metadata are returned
+const MAX_TOP_K_WITH_METADATA = 20
+
+/**
+ * Semantic search over a Vectorize index.
+ * It is the resource provider of the indexed documents and builds the search tool.
+ */
+export class VectorizeSearch implements ResourceProvider {
+  readonly name: string
+  readonly uriTemplate: string
+  readonly requiredScopes?: string[]
+  readonly canAccess?: (auth: any) => boolean
+
+  private uriScheme: string
+  private topK: number
+  private maxTopK: number
+
+  constructor(private options: VectorizeSearchOptions) {
+    this.uriScheme = options.uriScheme ?? "vectorize"
+    this.topK = Math.min(options.topK ?? 5, MAX_TOP_K_WITH_METADATA)
+    this.maxTopK = Math.min(Math.max(options.maxTopK ?? 20, this.topK), MAX_TOP_K_WITH_METADATA)
+    this.name = this.uriScheme
+    this.uriTemplate = `${this.uriScheme}://{id}`
+
+    if (options.requiredScopes) {
+      this.requiredScopes = options.requiredScopes
+    }
+
+    if (options.canAccess) {
+      this.canAccess = options.canAccess
+    }
+  }
+
+  createTemplate(env: any): any {
+    return {
+      name: this.name,
+      uriTemplate: this.uriTemplate,
+      description: "Documents of the search index",
+      ...(this.requiredScopes && { requiredScopes: this.requiredScopes }),
+      ...(this.canAccess && { canAccess: this.canAccess }),
+      arguments: [{ name: "id", description: "Vector ID of the document", required: true }],
+      load: async ({ id }: { id: string }, auth?: unknown) => {
+        // getByIds ignores filters and namespaces, so documents outside the search scope are checked here
+        const [vector] = await this.getIndex(env).getByIds([id])
+        const filter = this.getConfiguredFilter({ id }, { session: auth, env })
+        const inScope =
+          vector &&
+          (this.options.namespace === undefined || vector.namespace === this.options.namespace) &&
+          (!filter || matchesFilter(vector.metadata ?? {}, filter))
+        const document = inScope ? this.toDocument({ ...vector, score: 1 }) : undefined
+        if (document?.text === undefined) {
+          throw new JsonRpcError(JsonRpcErrorCode.ResourceNotFound, `Resource not found: ${this.toUri(id)}`)
+        }
+
+        return { uri: this.toUri(id), mimeType: document.mimeType ?? "text/plain", text: document.text }
+      },
+    }
+  }
+
+  /**
+   * Build the search tool, which reads the index from `context.env`
+   */
+  createSearchTool(): any {
+    const { filterFields } = this.options
+
+    return {
+      name: this.options.name ?? "search",
+      description:
+        this.options.description ??
+        "Search the document index by meaning and return links to the most relevant documents",
+      parameters: z.object({
+        query: z.string().describe("What to search for"),
+        topK: z
+          .number()
+          .int()
+          .min(1)
+          .max(this.maxTopK)
+          .optional()
+          .describe(`Number of results (default: ${this.topK})`),
+        ...(filterFields?.length
+          ? {
+              filter: z
+                .record(z.union([z.string(), z.number(), z.boolean()]))
+                .optional()
+                .describe(`Metadata values results must have. Fields: ${filterFields.join(", ")}`),
+            }
+          : {}),
+      }),
+      annotations: { readOnlyHint: true },
+      ...(this.requiredScopes && { requiredScopes: this.requiredScopes }),
+      ...(this.canAccess && { canAccess: this.canAccess }),
+      execute: async (args: { query: string; topK?: number; filter?: Record<string, unknown> }, context: any) => {
+        const vector = await this.embed(args.query, context.env)
+        const filter = this.buildFilter(args, context)
+        const { matches } = await this.getIndex(context.env).query(vector, {
+          topK: args.topK ?? this.topK,
+          returnMetadata: "all",
+          ...(filter && { filter }),
+          ...(this.options.namespace !== undefined && { namespace: this.options.namespace }),
+        })
+
+        const results = matches.filter((match) => match.score >= (this.options.minScore ?? -Infinity))
+        if (!results.length) {
+          return { content: [{ type: "text", text: "No results" }], structuredContent: { matches: [] } }
+        }
+
+        const documents = results.map((match) => this.toDocument(match))
+
+        return {
+          content: documents.map((document) => this.toContent(document)),
+          structuredContent: {
+            matches: results.map((match, index) => ({
+              id: match.id,
+              score: match.score,
+              uri: documents[index]!.uri,
+              ...(match.metadata && { metadata: match.metadata }),
+            })),
+          },
+        }
+      },
+    }
+  }
+
+  /**
+   * Metadata filter of a search: the client's filter on allowed fields, overridden by the configured filter
+   */
+  private buildFilter(
+    args: { filter?: Record<string, unknown> },
+    context: any,
+  ): VectorizeVectorMetadataFilter | undefined {
+    const allowed = new Set(this.options.filterFields ?? [])
+    const requested = Object.fromEntries(Object.entries(args.filter ?? {}).filter(([field]) => allowed.has(field)))
+    const filter = { ...requested, ...this.getConfiguredFilter(args, context) } as VectorizeVectorMetadataFilter
+    return Object.keys(filter).length ? filter : undefined
+  }
+
+  private getConfiguredFilter(args: any, context: any): VectorizeVectorMetadataFilter | undefined {
+    return typeof this.options.filter === "function" ? this.options.filter(args, context) : this.options.filter
+  }
+
+  private async embed(query: string, env: any): Promise<number[]> {
+    const { embed } = this.options
+    if (typeof embed === "function") {
+      return await embed(query, env)
+    }
+
+    const ai = resolveBinding<WorkersAIBinding>(embed?.binding ?? "AI", env, "Workers AI")
+    const output = (await ai.run(embed?.model ?? DEFAULT_EMBEDDING_MODEL, { text: [query] })) as { data: number[][] }
+    return output.data[0]!
+  }
+
+  private toDocument(match: VectorizeMatch): VectorizeDocument {
+    if (this.options.toDocument) {
+      return this.options.toDocument(match)
+    }
+
+    const metadata: Record<string, VectorizeVectorMetadata> = match.metadata ?? {}
+    const text = typeof metadata.text === "string" ? metadata.text : undefined
+
+    return {
+      uri: typeof metadata.uri === "string" ? metadata.uri : this.toUri(match.id),
+      name: typeof metadata.title === "string" ? metadata.title : match.id,
+      ...(typeof metadata.mimeType === "string" && { mimeType: metadata.mimeType }),
+      ...(text !== undefined && { text, description: text.length > 200 ? `${text.slice(0, 200)}…` : text }),
+    }
+  }
+
+  /**
+   * Tool content for a document, embedding its text when configured and known
+   */
+  private toContent(document: VectorizeDocument) {
+    if (this.options.results === "embedded" && document.text !== undefined) {
+      return {
+        type: "resource",
+        resource: { uri: document.uri, mimeType: document.mimeType ?? "text/plain", text: document.text },
+      }
+    }
+
+    return {
+      type: "resource_link",
+      uri: document.uri,
+      name: document.name,
+      ...(document.description !== undefined && { description: document.description }),
+      ...(document.mimeType !== undefined && { mimeType: document.mimeType }),
+    }
+  }
+
+  private toUri(id: string): string {
+    return `${this.uriScheme}://${encodeURIComponent(id)}`
+  }
+
+  private getIndex(env: any): VectorizeBinding {
+    return resolveBinding(this.options.index, env, "Vectorize")
+  }
+}
+
+/**
+ * Vectorize index stand-in keeping vectors in memory, for tests and local development.
+ * Scores are cosine similarities and metadata filters support the Vectorize operators.
+ */
+export class MemoryVectorizeIndex implements VectorizeBinding {
+  private vectors = new Map<string, VectorizeVector>()
+
+  async upsert(vectors: VectorizeVector[]): Promise<{ ids: string[]; count: number }> {
+    for (const vector of vectors) {
+      this.vectors.set(vector.id, { ...vector, values: Array.from(vector.values) })
+    }
+
+    return { ids: vectors.map((vector) => vector.id), count: vectors.length }
+  }
+
+  async insert(vectors: VectorizeVector[]): Promise<{ ids: string[]; count: number }> {
+    return await this.upsert(vectors.filter((vector) => !this.vectors.has(vector.id)))
+  }
+
+  async deleteByIds(ids: string[]): Promise<{ ids: string[]; count: number }> {
+    const deleted = ids.filter((id) => this.vectors.delete(id))
+    return { ids: deleted, count: deleted.length }
+  }
+
+  async getByIds(ids: string[]): Promise<VectorizeVector[]> {
+    return ids.flatMap((id) => this.vectors.get(id) ?? [])
+  }
+
+  async query(vector: number[], options: VectorizeQueryOptions = {}): Promise<VectorizeMatches> {
+    const returnMetadata = options.returnMetadata === true || options.returnMetadata === "all"
+    if ((options.returnValues || options.returnMetadata === "all") && (options.topK ?? 5) > MAX_TOP_K_WITH_METADATA) {
+      throw new Error(`topK must be at most ${MAX_TOP_K_WITH_METADATA} when returning values or all metadata`)
+    }
+
+    const matches = [...this.vectors.values()]
+      .filter((stored) => options.namespace === undefined || stored.namespace === options.namespace)
+      .filter((stored) => !options.filter || matchesFilter(stored.metadata ?? {}, options.filter))
+      .map((stored): VectorizeMatch => ({
+        id: stored.id,
+        score: cosineSimilarity(vector, Array.from(stored.values)),
+        ...(stored.namespace !== undefined && { namespace: stored.namespace }),
+        ...(returnMetadata && stored.metadata && { metadata: stored.metadata }),
+        ...(options.returnValues && { values: stored.values }),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.topK ?? 5)
+
+    return { matches, count: matches.length }
+  }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0
+  for (let index = 0; index < Math.min(a.length, b.length); index++) {
+    dot += a[index]! * b[index]!
+  }
+
+  const length = Math.hypot(...a) * Math.hypot(...b)
+  return length ? dot / length : 0
+}
+
+/**
+ * Whether metadata satisfies a Vectorize metadata filter
+ */
+function matchesFilter(metadata: Record<string, unknown>, filter: VectorizeVectorMetadataFilter): boolean {
+  return Object.entries(filter).every(([field, condition]) => {
+    const value = metadata[field] ?? null
+    if (condition === null || typeof condition !== "object") {
+      return value === condition
+    }
+
+    return Object.entries(condition).every(([operator, operand]: [string, any]) => {
+      switch (operator) {
+        case "$eq":
+          return value === operand
+        case "$ne":
+          return value !== operand
+        case "$in":
+          return (operand as unknown[]).includes(value)
+        case "$nin":
+          return !(operand as unknown[]).includes(value)
+        case "$lt":
+          return value !== null && (value as number) < operand
+        case "$lte":
+          return value !== null && (value as number) <= operand
+        case "$gt":
+          return value !== null && (value as number) > operand
+        case "$gte":
+          return value !== null && (value as number) >= operand
+        default:
+          return false
+      }
+    })
+  })
+}
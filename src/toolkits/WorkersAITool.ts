@@ -0,0 +1,297 @@
+/**
+ * MCP tools backed by Workers AI models
+ */
+
+import { z } from "zod"
+import { resolveBinding } from "../resources/ResourceProvider.js"
+import { imageContent } from "../utils/content-helpers.js"
+
+/**
+ * Model task types the helpers build parameters and content for
+ */
+export type WorkersAITask = "text-generation" | "text-embeddings" | "text-to-image" | "translation" | "summarization"
+
+/**
+ * The part of the `Ai` binding the tools use
+ */
+export interface WorkersAIBinding {
+  run(model: string, inputs: Record<string, unknown>, options?: Record<string, unknown>): Promise<unknown>
+}
+
+/**
+ * Workers AI tool configuration
+ */
+export interface WorkersAIToolOptions {
+  /**
+   * Tool name and description (default: a description of the model's task)
+   */
+  name: string
+  description?: string
+
+  /**
+   * Model to run, such as `@cf/meta/llama-3.1-8b-instruct`
+   */
+  model: string
+
+  /**
+   * Name of the AI binding in the Worker env, or a function resolving it (default: "AI")
+   */
+  binding?: string | ((env: any) => WorkersAIBinding)
+
+  /**
+   * Task type of the model, which sets the parameters and how output becomes content.
+   * Inferred from the model name when not given.
+   */
+  task?: WorkersAITask
+
+  /**
+   * Tool parameters replacing the ones built for the task, usually together with `inputMapping`
+   */
+  parameters?: z.ZodTypeAny
+
+  /**
+   * Build the model inputs from the tool arguments (default: the task's mapping)
+   */
+  inputMapping?: (args: any, context: any) => Record<string, unknown> | Promise<Record<string, unknown>>
+
+  /**
+   * Turn the model output into a tool result (default: the task's conversion)
+   */
+  outputMapping?: (output: any) => unknown
+
+  /**
+   * Options passed to `run`, such as `{ gateway: { id: "my-gateway" } }`
+   */
+  runOptions?: Record<string, unknown>
+
+  /**
+   * Scopes a session must carry to call the tool
+   */
+  requiredScopes?: string[]
+
+  /**
+   * Access policy for the tool
+   */
+  canAccess?: (auth: any) => boolean
+
+  /**
+   * Tool timeout in milliseconds
+   */
+  timeoutMs?: number
+}
+
+/**
+ * Parameters, model inputs and content of a task
+ */
+interface TaskDefinition {
+  description: string
+  parameters: z.ZodTypeAny
+  toInputs(args: any): Record<string, unknown>
+  toResult(output: any): unknown
+}
+
+const TASKS: Record<WorkersAITask, TaskDefinition> = {
+  "text-generation": {
+    description: "Generate text from a prompt",
+    parameters: z.object({
+      prompt: z.string().describe("Prompt for the model"),
+      system: z.string().optional().describe("System instructions"),
+      max_tokens: z.number().int().positive().optional().describe("Largest number of tokens to generate"),
+      temperature: z.number().min(0).max(5).optional().describe("Sampling temperature"),
+    }),
+    toInputs: ({ prompt, system, ...rest }) =>
+      system
+        ? {
+            messages: [
+              { role: "system", content: system },
+              { role: "user", content: prompt },
+            ],
+            ...rest,
+          }
+        : { prompt, ...rest },
+    toResult: (output) => {
+      const response = typeof output === "string" ? output : output?.response
+      return typeof response === "string" ? response : JSON.stringify(response ?? output)
+    },
+  },
+  "text-embeddings": {
+    description: "Compute embedding vectors of texts",
+    parameters: z.object({
+      text: z.union([z.string(), z.array(z.string())]).describe("Text or texts to embed"),
+    }),
+    toInputs: ({ text }) => ({ text: Array.isArray(text) ? text : [text] }),
+    toResult: (output) => ({
+      content: [{ type: "text", text: JSON.stringify(output) }],
+      structuredContent: { shape: output?.shape, data: output?.data },
+    }),
+  },
+  "text-to-image": {
+    description: "Generate an image from a prompt",
+    parameters: z.object({
+      prompt: z.string().describe("Description of the image"),
+      negative_prompt: z.string().optional().describe("What the image should not contain"),
+      width: z.number().int().positive().optional().describe("Width in pixels"),
+      height: z.number().int().positive().optional().describe("Height in pixels"),
+      num_steps: z.number().int().positive().optional().describe("Number of diffusion steps"),
+    }),
+    toInputs: (args) => args,
+    toResult: async (output) => imageContent({ buffer: await toImageBuffer(output) }),
+  },
+  translation: {
+    description: "Translate text",
+    parameters: z.object({
+      text: z.string().describe("Text to translate"),
+      target_lang: z.string().describe("Language to translate to, such as french"),
+      source_lang: z.string().optional().describe("Language of the text (default: english)"),
+    }),
+    toInputs: (args) => args,
+    toResult: (output) => String(output?.translated_text ?? ""),
+  },
+  summarization: {
+    description: "Summarize text",
+    parameters: z.object({
+      input_text: z.string().describe("Text to summarize"),
+      max_length: z.number().int().positive().optional().describe("Largest number of tokens in the summary"),
+    }),
+    toInputs: (args) => args,
+    toResult: (output) => String(output?.summary ?? ""),
+  },
+}
+
+/**
+ * Guess the task type of a Workers AI model from its name
+ */
+export function inferWorkersAITask(model: string): WorkersAITask {
+  const name = model.toLowerCase()
+
+  if (/stable-diffusion|flux|dreamshaper|lucid-origin|phoenix/.test(name)) {
+    return "text-to-image"
+  }
+
+  if (/bge-|embed/.test(name)) {
+    return "text-embeddings"
+  }
+
+  if (/m2m100|translat/.test(name)) {
+    return "translation"
+  }
+
+  if (/bart-large-cnn|summar/.test(name)) {
+    return "summarization"
+  }
+
+  return "text-generation"
+}
+
+/**
+ * Build a tool definition that runs a Workers AI model from the request's env
+ */
+export function createWorkersAITool(options: WorkersAIToolOptions): any {
+  const task = TASKS[options.task ?? inferWorkersAITask(options.model)]
+
+  return {
+    name: options.name,
+    description: options.description ?? `${task.description} with ${options.model}`,
+    parameters: options.parameters ?? task.parameters,
+    ...(options.requiredScopes && { requiredScopes: options.requiredScopes }),
+    ...(options.canAccess && { canAccess: options.canAccess }),
+    ...(options.timeoutMs !== undefined && { timeoutMs: options.timeoutMs }),
+    execute: async (args: any, context: any) => {
+      const ai = resolveBinding<WorkersAIBinding>(options.binding ?? "AI", context.env, "Workers AI")
+      const inputs = options.inputMapping ? await options.inputMapping(args, context) : task.toInputs(args)
+      const output = await ai.run(options.model, inputs, options.runOptions)
+
+      return options.outputMapping ? options.outputMapping(output) : task.toResult(output)
+    },
+  }
+}
+
+/**
+ * Image bytes from a text-to-image model, which returns a stream, bytes or `{ image: base64 }`
+ */
+async function toImageBuffer(output: any): Promise<ArrayBuffer> {
+  if (output instanceof ArrayBuffer) {
+    return output
+  }
+
+  if (output instanceof Uint8Array) {
+    return output.buffer.slice(output.byteOffset, output.byteOffset + output.byteLength) as ArrayBuffer
+  }
+
+  if (output instanceof ReadableStream) {
+    return await new Response(output).arrayBuffer()
+  }
+
+  if (typeof output?.image === "string") {
+    return Uint8Array.from(atob(output.image), (char) => char.charCodeAt(0)).buffer
+  }
+
+  throw new Error("Model did not return an image")
+}
+
+/**
+ * 1x1 transparent PNG returned by the stand-in for text-to-image models
+ */
+const PLACEHOLDER_PNG =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=="
+
+/**
+ * Stand-in for the AI binding, for tests and local development without Workers AI.
+ * Models without a handler get deterministic output for their task: echoed prompts, bag-of-words embeddings,
+ * a placeholder image, the untranslated text and the first sentence as summary.
+ */
+export class LocalWorkersAI implements WorkersAIBinding {
+  /**
+   * Every `run` call, in order
+   */
+  readonly calls: { model: string; inputs: Record<string, unknown> }[] = []
+
+  constructor(
+    private handlers: Record<string, (inputs: any) => unknown> = {},
+    private dimensions = 32,
+  ) {}
+
+  async run(model: string, inputs: Record<string, unknown>): Promise<unknown> {
+    this.calls.push({ model, inputs })
+
+    const handler = this.handlers[model]
+    if (handler) {
+      return await handler(inputs)
+    }
+
+    switch (inferWorkersAITask(model)) {
+      case "text-embeddings": {
+        const texts = Array.isArray(inputs.text) ? inputs.text : [inputs.text]
+        return { shape: [texts.length, this.dimensions], data: texts.map((text) => this.embed(String(text))) }
+      }
+      case "text-to-image":
+        return { image: PLACEHOLDER_PNG }
+      case "translation":
+        return { translated_text: inputs.text }
+      case "summarization":
+        return { summary: String(inputs.input_text).split(/(?<=[.!?])\s/)[0] }
+      default: {
+        const messages = inputs.messages as { content: string }[] | undefined
+        return { response: String(inputs.prompt ?? messages?.at(-1)?.content ?? "") }
+      }
+    }
+  }
+
+  /**
+   * Normalized vector counting hashed words, so texts sharing words are similar
+   */
+  private embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0)
+
+    for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+      let hash = 0
+      for (const char of word) {
+        hash = (hash * 31 + char.charCodeAt(0)) >>> 0
+      }
+      vector[hash % this.dimensions]! += 1
+    }
+
+    const length = Math.hypot(...vector) || 1
+    return vector.map((value) => value / length)
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Registry of in-flight requests and their abort controllers
+ * Lets transports cancel a running request on timeout, client disconnect or notifications/cancelled
+ */
+
+import type { JsonRpcId } from "./SessionBridge.js"
+
+/**
+ * In-flight requests of one transport, keyed by scope and request id. The scope is the session id, or the caller's
+ * identity for requests outside a session. Lives in isolate memory, so a cancellation only reaches requests running in the same isolate.
+ */
+export class InflightRequests {
+  private controllers = new Map<string, AbortController>()
+
+  /**
+   * Register a request and get the controller aborting it.
+   * Call the returned `done` once the request has settled.
+   */
+  start(scope: string, id: JsonRpcId): { controller: AbortController; done: () => void } {
+    const key = this.getKey(scope, id)
+    const controller = new AbortController()
+    this.controllers.set(key, controller)
+
+    return {
+      controller,
+      done: () => {
+        if (this.controllers.get(key) === controller) {
+          this.controllers.delete(key)
+        }
+      },
+    }
+  }
+
+  /**
+   * Abort a request of a scope. Returns false if it is not running here.
+   */
+  cancel(scope: string, id: JsonRpcId, reason?: unknown): boolean {
+    const controller = this.controllers.get(this.getKey(scope, id))
+    if (!controller) {
+      return false
+    }
+
+    controller.abort(reason)
+    return true
+  }
+
+  /**
+   * Abort every request of a session (e.g. when its connection closes)
+   */
+  cancelSession(sessionId: string, reason?: unknown): void {
+    const prefix = `${sessionId}:`
+    this.controllers.forEach((controller, key) => {
+      if (key.startsWith(prefix)) {
+        controller.abort(reason)
+      }
+    })
+  }
+
+  /**
+   * Abort every running request
+   */
+  cancelAll(reason?: unknown): void {
+    this.controllers.forEach((controller) => controller.abort(reason))
+    this.controllers.clear()
+  }
+
+  private getKey(scope: string, id: JsonRpcId): string {
+    return `${scope}:${typeof id}:${id}`
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * In-process transport that bridges a single Workers request to a FastMCP session
+ * Feeds JSON-RPC messages into the MCP server and collects the responses it sends back
+ */
+
+/**
+ * JSON-RPC request id
+ */
+export type JsonRpcId = string | number
+
+/**
+ * Check whether a value is a well-formed JSON-RPC 2.0 message
+ * (a request, a notification, or a response to a server-initiated request)
+ */
+export function isJsonRpcMessage(message: any): boolean {
+  if (typeof message !== "object" || message === null || Array.isArray(message) || message.jsonrpc !== "2.0") {
+    return false
+  }
+
+  if (
+    message.id !== undefined &&
+    message.id !== null &&
+    typeof message.id !== "string" &&
+    typeof message.id !== "number"
+  ) {
+    return false
+  }
+
+  return typeof message.method === "string" || isJsonRpcResponse(message)
+}
+
+/**
+ * Check whether a JSON-RPC message is a response (result or error)
+ */
+export function isJsonRpcResponse(message: any): boolean {
+  return (
+    typeof message === "object" &&
+    message !== null &&
+    message.id !== undefined &&
+    message.id !== null &&
+    ("result" in message || "error" in message)
+  )
+}
+
+/**
+ * Check whether a JSON-RPC message is a request (has a method and an id)
+ */
+export function isJsonRpcRequest(message: any): boolean {
+  return (
+    typeof message === "object" &&
+    message !== null &&
+    typeof message.method === "string" &&
+    message.id !== undefined &&
+    message.id !== null
+  )
+}
+
+/**
+ * Bridge transport connected to an MCP server for the lifetime of one request
+ */
+export class SessionBridge {
+  private pendingResponses = new Map<JsonRpcId, (response: any) => void>()
+  private outboundHandlers = new Set<(message: any) => void>()
+  private closed = false
+
+  /**
+   * Transport interface implementation (assigned by the MCP server on connect)
+   */
+  onmessage?: (message: any, extra?: any) => void
+  onclose?: () => void
+  onerror?: (error: Error) => void
+  sessionId?: string
+
+  constructor(sessionId?: string) {
+    if (sessionId) {
+      this.sessionId = sessionId
+    }
+  }
+
+  async start(): Promise<void> {
+    // Nothing to start - messages are pushed in through dispatch()
+    return Promise.resolve()
+  }
+
+  /**
+   * Called by the MCP server for every outgoing message
+   */
+  async send(message: any): Promise<void> {
+    if (isJsonRpcResponse(message)) {
+      const resolve = this.pendingResponses.get(message.id)
+      if (resolve) {
+        this.pendingResponses.delete(message.id)
+        resolve(message)
+        return
+      }
+    }
+
+    // Notifications and server-initiated requests
+    this.outboundHandlers.forEach((handler) => {
+      try {
+        handler(message)
+      } catch (error) {
+        this.onerror?.(error instanceof Error ? error : new Error(String(error)))
+      }
+    })
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return
+    }
+
+    this.closed = true
+    this.pendingResponses.clear()
+    this.outboundHandlers.clear()
+    this.onclose?.()
+  }
+
+  /**
+   * Register a handler for messages the server sends that are not responses
+   */
+  onOutbound(handler: (message: any) => void): () => void {
+    this.outboundHandlers.add(handler)
+    return () => this.outboundHandlers.delete(handler)
+  }
+
+  /**
+   * Deliver a message to the server.
+   * Resolves with the matching response for requests, or undefined for notifications.
+   */
+  dispatch(message: any): Promise<any> {
+    if (this.closed || !this.onmessage) {
+      return Promise.reject(new Error("Session bridge is not connected"))
+    }
+
+    if (!isJsonRpcRequest(message)) {
+      this.onmessage(message)
+      return Promise.resolve(undefined)
+    }
+
+    return new Promise((resolve) => {
+      this.pendingResponses.set(message.id, resolve)
+      this.onmessage!(message)
+    })
+  }
+}
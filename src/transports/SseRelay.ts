@@ -0,0 +1,197 @@
+/**
+ * SSE relays for the legacy HTTP+SSE transport (MCP 2024-11-05)
+ * A relay holds the open GET stream for a session and delivers messages produced
+ * while handling the separate POST requests for that session
+ */
+
+import type { DurableObjectNamespace, DurableObjectState } from "@cloudflare/workers-types"
+import { SSEStream } from "../utils/sse-helpers.js"
+
+/**
+ * Internal URL used to address the relay Durable Object
+ */
+const RELAY_URL = "https://mcp-sse-relay"
+
+/**
+ * Relay between POSTed messages and an open SSE stream
+ */
+export interface SseRelay {
+  /**
+   * Open the SSE stream for a session, announcing the endpoint to POST messages to.
+   * The stream is bound to the identity of the principal opening it.
+   */
+  open(sessionId: string, endpoint: string, headers: Record<string, string>, owner?: string): Promise<Response>
+
+  /**
+   * Check whether a stream for the session is open, and opened by the given identity if one is given
+   */
+  has(sessionId: string, owner?: string): Promise<boolean>
+
+  /**
+   * Deliver a message on the session's stream. Returns false if no stream is open.
+   */
+  send(sessionId: string, message: unknown): Promise<boolean>
+
+  /**
+   * Close the session's stream
+   */
+  close(sessionId: string): Promise<void>
+}
+
+/**
+ * Relay keeping streams in isolate memory.
+ * Only works when the POST lands on the same isolate as the stream.
+ */
+export class LocalSseRelay implements SseRelay {
+  private streams = new Map<string, SSEStream>()
+  private owners = new Map<string, string>()
+
+  async open(sessionId: string, endpoint: string, headers: Record<string, string>, owner = ""): Promise<Response> {
+    this.streams.get(sessionId)?.close()
+
+    const stream = new SSEStream()
+    this.streams.set(sessionId, stream)
+    this.owners.set(sessionId, owner)
+    stream.onClose(() => {
+      if (this.streams.get(sessionId) === stream) {
+        this.streams.delete(sessionId)
+        this.owners.delete(sessionId)
+      }
+    })
+
+    void stream.sendEvent({ event: "endpoint", data: endpoint })
+
+    return stream.toResponse(headers)
+  }
+
+  async has(sessionId: string, owner?: string): Promise<boolean> {
+    const stream = this.streams.get(sessionId)
+    return stream !== undefined && !stream.closed && (owner === undefined || this.owners.get(sessionId) === owner)
+  }
+
+  async send(sessionId: string, message: unknown): Promise<boolean> {
+    const stream = this.streams.get(sessionId)
+    if (!stream || stream.closed) {
+      return false
+    }
+
+    void stream.sendMessage(message)
+    return true
+  }
+
+  async close(sessionId: string): Promise<void> {
+    await this.streams.get(sessionId)?.close()
+    this.streams.delete(sessionId)
+    this.owners.delete(sessionId)
+  }
+
+  async closeAll(): Promise<void> {
+    await Promise.all([...this.streams.values()].map((stream) => stream.close()))
+    this.streams.clear()
+    this.owners.clear()
+  }
+}
+
+/**
+ * Relay holding each session's stream in its own Durable Object,
+ * so POSTs reach the stream from any isolate or colo
+ */
+export class DurableObjectSseRelay implements SseRelay {
+  constructor(private namespace: DurableObjectNamespace) {}
+
+  async open(sessionId: string, endpoint: string, headers: Record<string, string>, owner = ""): Promise<Response> {
+    const response = await this.getStub(sessionId).fetch(
+      `${RELAY_URL}/connect?endpoint=${encodeURIComponent(endpoint)}&owner=${encodeURIComponent(owner)}`,
+      { method: "GET" },
+    )
+
+    // Re-wrap so the caller's headers (CORS) apply to the streamed body
+    return new Response(response.body as unknown as BodyInit, {
+      status: response.status,
+      headers: { ...Object.fromEntries(response.headers as unknown as Iterable<[string, string]>), ...headers },
+    })
+  }
+
+  async has(sessionId: string, owner?: string): Promise<boolean> {
+    const query = owner === undefined ? "" : `?owner=${encodeURIComponent(owner)}`
+    const response = await this.getStub(sessionId).fetch(`${RELAY_URL}/status${query}`, { method: "GET" })
+    return response.ok
+  }
+
+  async send(sessionId: string, message: unknown): Promise<boolean> {
+    const response = await this.getStub(sessionId).fetch(`${RELAY_URL}/send`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(message),
+    })
+    return response.ok
+  }
+
+  async close(sessionId: string): Promise<void> {
+    await this.getStub(sessionId).fetch(`${RELAY_URL}/close`, { method: "POST" })
+  }
+
+  private getStub(sessionId: string) {
+    return this.namespace.get(this.namespace.idFromName(sessionId))
+  }
+}
+
+/**
+ * Durable Object class holding the SSE stream of a single legacy session
+ *
+ * Export it from your Worker and bind it in wrangler.toml:
+ *
+ *   [[durable_objects.bindings]]
+ *   name = "MCP_SSE_RELAY"
+ *   class_name = "McpSseRelayDurableObject"
+ */
+export class McpSseRelayDurableObject {
+  private stream?: SSEStream
+  private owner = ""
+
+  constructor(_state?: DurableObjectState, _env?: unknown) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url)
+
+    switch (url.pathname) {
+      case "/connect": {
+        await this.stream?.close()
+
+        const stream = new SSEStream()
+        this.stream = stream
+        this.owner = url.searchParams.get("owner") ?? ""
+        stream.onClose(() => {
+          if (this.stream === stream) {
+            delete this.stream
+          }
+        })
+
+        void stream.sendEvent({ event: "endpoint", data: url.searchParams.get("endpoint") ?? "" })
+        return stream.toResponse()
+      }
+
+      case "/status": {
+        const owner = url.searchParams.get("owner")
+        const open = this.stream && !this.stream.closed && (owner === null || owner === this.owner)
+        return new Response(null, { status: open ? 204 : 404 })
+      }
+
+      case "/send": {
+        if (!this.stream || this.stream.closed) {
+          return new Response("Stream not open", { status: 404 })
+        }
+
+        void this.stream.sendMessage(await request.json())
+        return new Response(null, { status: 202 })
+      }
+
+      case "/close":
+        await this.stream?.close()
+        return new Response(null, { status: 204 })
+
+      default:
+        return new Response("Not Found", { status: 404 })
+    }
+  }
+}
@@ -0,0 +1,394 @@
+/**
+ * WebSocket transport for FastMCP on Cloudflare Workers
+ * Upgrades requests with WebSocketPair and, when configured, hands the connection
+ * to a Durable Object that uses the WebSocket hibernation API
+ */
+
+import type {
+  DurableObjectNamespace,
+  DurableObjectState,
+  ExecutionContext,
+  WebSocket as WorkersWebSocket,
+} from "@cloudflare/workers-types"
+import { assertWorkersRuntime } from "../runtime/detection.js"
+import { InflightRequests } from "./InflightRequests.js"
+import { isJsonRpcMessage, isJsonRpcRequest } from "./SessionBridge.js"
+import { JsonRpcError, JsonRpcErrorCode, createJsonRpcError, toJsonRpcError } from "../utils/response-helpers.js"
+import { MCP_SESSION_ID_HEADER } from "./WorkersTransport.js"
+
+/**
+ * WebSocket transport configuration
+ */
+export interface WebSocketTransportOptions {
+  /**
+   * Path that accepts WebSocket upgrades (default: '/ws')
+   */
+  path?: string
+
+  /**
+   * Resolve the Durable Object namespace bound to the class from toWebSocketDurableObject().
+   * Without it, connections are accepted in the Worker and are not hibernatable.
+   */
+  durableObject?: (env: any) => DurableObjectNamespace | undefined
+
+  /**
+   * Request timeout in milliseconds for each message
+   */
+  timeout?: number
+}
+
+/**
+ * Connection metadata kept on the socket so it survives hibernation.
+ * Attachments are limited to 2 KiB, so request headers and credentials are not kept here.
+ */
+interface ConnectionAttachment {
+  sessionId: string
+  url: string
+}
+
+/**
+ * Internal path used to push server-initiated messages to a connection's Durable Object
+ */
+const NOTIFY_PATH = "/__mcp/notify"
+
+/**
+ * Header carrying the auth result resolved at upgrade from the Worker to the connection's Durable Object
+ */
+const AUTH_HEADER = "X-MCP-Connection-Auth"
+
+/**
+ * Durable Object storage key of the connection's auth result
+ */
+const AUTH_STORAGE_KEY = "auth"
+
+/**
+ * Default transport options
+ */
+const DEFAULT_OPTIONS: Required<Omit<WebSocketTransportOptions, "durableObject">> = {
+  path: "/ws",
+  timeout: 30000, // 30 seconds
+}
+
+/**
+ * WebSocket transport implementation
+ */
+export class WebSocketTransport {
+  private options: Required<Omit<WebSocketTransportOptions, "durableObject">> &
+    Pick<WebSocketTransportOptions, "durableObject">
+  private messageHandlers = new Set<(message: any) => void>()
+
+  // Connections accepted directly in the Worker (no Durable Object), keyed by session ID
+  private localSockets = new Map<string, WorkersWebSocket>()
+
+  // Running requests, aborted when their connection closes
+  private inflightRequests = new InflightRequests()
+
+  constructor(options: WebSocketTransportOptions = {}) {
+    assertWorkersRuntime()
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+  }
+
+  /**
+   * Check whether a request is a WebSocket upgrade for this transport
+   */
+  isUpgradeRequest(request: Request): boolean {
+    const url = new URL(request.url)
+    return url.pathname === this.options.path && request.headers.get("upgrade")?.toLowerCase() === "websocket"
+  }
+
+  /**
+   * Upgrade a request, in a Durable Object when one is configured.
+   * The auth result resolved for the upgrade request is used for every message of the connection.
+   */
+  async handleUpgrade(request: Request, env?: any, ctx?: ExecutionContext, auth?: unknown): Promise<Response> {
+    if (!this.isUpgradeRequest(request)) {
+      return new Response("Upgrade Required", {
+        status: 426,
+        headers: { Upgrade: "websocket" },
+      })
+    }
+
+    const sessionId = crypto.randomUUID()
+
+    const namespace = this.options.durableObject?.(env)
+    if (namespace) {
+      // One Durable Object per connection, addressable by its session ID
+      const forwarded = new Request(request)
+      forwarded.headers.set(MCP_SESSION_ID_HEADER, sessionId)
+      forwarded.headers.delete(AUTH_HEADER)
+      if (auth !== undefined) {
+        forwarded.headers.set(AUTH_HEADER, encodeURIComponent(JSON.stringify(auth)))
+      }
+      const stub = namespace.get(namespace.idFromName(sessionId))
+      return (await stub.fetch(forwarded as any)) as unknown as Response
+    }
+
+    const [client, server] = Object.values(new WebSocketPair()) as unknown as [WorkersWebSocket, WorkersWebSocket]
+    const attachment = this.createAttachment(request, sessionId)
+
+    server.accept()
+    this.localSockets.set(sessionId, server)
+    server.addEventListener("message", (event) => {
+      const pending = this.handleSocketMessage(server, event.data, attachment, env, auth)
+      ctx?.waitUntil(pending)
+    })
+    server.addEventListener("close", () => {
+      this.localSockets.delete(sessionId)
+      this.inflightRequests.cancelSession(sessionId, new Error("WebSocket closed"))
+    })
+
+    return new Response(null, { status: 101, webSocket: client } as unknown as ResponseInit)
+  }
+
+  /**
+   * Create a hibernatable Durable Object class bound to this transport
+   */
+  createDurableObjectClass() {
+    // The class only needs these transport methods, bound here so its own `this` stays the Durable Object
+    const createAttachment = (request: Request, sessionId: string) => this.createAttachment(request, sessionId)
+    const handleSocketMessage: WebSocketTransport["handleSocketMessage"] = (...args) =>
+      this.handleSocketMessage(...args)
+    const cancelSession = (sessionId: string) =>
+      this.inflightRequests.cancelSession(sessionId, new Error("WebSocket closed"))
+
+    return class McpWebSocketDurableObject {
+      constructor(
+        private state: DurableObjectState,
+        private env?: any,
+      ) {}
+
+      async fetch(request: Request): Promise<Response> {
+        const url = new URL(request.url)
+
+        // Push a server-initiated message to every socket held by this object
+        if (url.pathname === NOTIFY_PATH && request.method === "POST") {
+          const message = await request.text()
+          const sockets = this.state.getWebSockets()
+          sockets.forEach((socket) => socket.send(message))
+          return new Response(null, { status: sockets.length > 0 ? 202 : 404 })
+        }
+
+        if (request.headers.get("upgrade")?.toLowerCase() !== "websocket") {
+          return new Response("Upgrade Required", {
+            status: 426,
+            headers: { Upgrade: "websocket" },
+          })
+        }
+
+        // Keep the auth result in storage, which outlives hibernation without the attachment size limit
+        const auth = request.headers.get(AUTH_HEADER)
+        if (auth) {
+          await this.state.storage.put(AUTH_STORAGE_KEY, JSON.parse(decodeURIComponent(auth)))
+        }
+
+        const [client, server] = Object.values(new WebSocketPair()) as unknown as [WorkersWebSocket, WorkersWebSocket]
+        this.state.acceptWebSocket(server)
+        server.serializeAttachment(
+          createAttachment(request, request.headers.get(MCP_SESSION_ID_HEADER) ?? crypto.randomUUID()),
+        )
+
+        return new Response(null, { status: 101, webSocket: client } as unknown as ResponseInit)
+      }
+
+      async webSocketMessage(ws: WorkersWebSocket, message: string | ArrayBuffer): Promise<void> {
+        const attachment = ws.deserializeAttachment() as ConnectionAttachment
+        const auth = await this.state.storage.get(AUTH_STORAGE_KEY)
+        await handleSocketMessage(ws, message, attachment, this.env, auth)
+      }
+
+      async webSocketClose(ws: WorkersWebSocket, code: number, reason: string): Promise<void> {
+        const attachment = ws.deserializeAttachment() as ConnectionAttachment | null
+        if (attachment) {
+          cancelSession(attachment.sessionId)
+        }
+        await this.state.storage.delete(AUTH_STORAGE_KEY)
+        ws.close(code, reason)
+      }
+
+      async webSocketError(ws: WorkersWebSocket, error: unknown): Promise<void> {
+        console.error("MCP WebSocket error:", error)
+        ws.close(1011, "WebSocket error")
+      }
+    }
+  }
+
+  /**
+   * Send a server-initiated message to a WebSocket session.
+   * Returns false if the session has no open connection.
+   */
+  async notify(sessionId: string, message: any, env?: any): Promise<boolean> {
+    const namespace = this.options.durableObject?.(env)
+    if (namespace) {
+      const stub = namespace.get(namespace.idFromName(sessionId))
+      const response = await stub.fetch(`https://mcp-websocket${NOTIFY_PATH}`, {
+        method: "POST",
+        body: JSON.stringify(message),
+      })
+      return response.ok
+    }
+
+    const socket = this.localSockets.get(sessionId)
+    if (!socket) {
+      return false
+    }
+
+    socket.send(JSON.stringify(message))
+    return true
+  }
+
+  /**
+   * Dispatch a WebSocket frame and send back responses
+   */
+  async handleSocketMessage(
+    ws: WorkersWebSocket,
+    data: string | ArrayBuffer,
+    attachment: ConnectionAttachment,
+    env?: any,
+    auth?: unknown,
+  ): Promise<void> {
+    let payload: any
+
+    try {
+      payload = JSON.parse(typeof data === "string" ? data : new TextDecoder().decode(data))
+    } catch {
+      ws.send(JSON.stringify(createJsonRpcError(null, { code: JsonRpcErrorCode.ParseError, message: "Parse error" })))
+      return
+    }
+
+    const request = new Request(attachment.url)
+    const context = {
+      sessionId: attachment.sessionId,
+      auth,
+      onNotification: (notification: any) => ws.send(JSON.stringify(notification)),
+    }
+
+    if (Array.isArray(payload) && payload.length === 0) {
+      ws.send(
+        JSON.stringify(
+          createJsonRpcError(null, {
+            code: JsonRpcErrorCode.InvalidRequest,
+            message: "Invalid Request",
+            data: "Batch must not be empty",
+          }),
+        ),
+      )
+      return
+    }
+
+    const messages = Array.isArray(payload) ? payload : [payload]
+    const responses = await Promise.all(
+      messages.map(async (message) => {
+        // Malformed messages never reach the server
+        if (!isJsonRpcMessage(message)) {
+          const id = typeof message?.id === "string" || typeof message?.id === "number" ? message.id : null
+          return createJsonRpcError(id, { code: JsonRpcErrorCode.InvalidRequest, message: "Invalid Request" })
+        }
+
+        try {
+          const response = await this.processMessage(message, request, env, context)
+          return isJsonRpcRequest(message) ? response : undefined
+        } catch (error) {
+          if (!isJsonRpcRequest(message)) {
+            console.error("Error handling MCP notification:", error)
+            return undefined
+          }
+
+          return createJsonRpcError(message.id, toJsonRpcError(error))
+        }
+      }),
+    )
+
+    const replies = responses.filter((response) => response !== undefined)
+    if (replies.length > 0) {
+      ws.send(JSON.stringify(Array.isArray(payload) ? replies : replies[0]))
+    }
+  }
+
+  /**
+   * Capture what is needed to rebuild the request context for each message: the session ID and
+   * the URL without its query string, which may carry credentials
+   */
+  createAttachment(request: Request, sessionId: string): ConnectionAttachment {
+    const url = new URL(request.url)
+
+    return {
+      sessionId,
+      url: `${url.origin}${url.pathname}`,
+    }
+  }
+
+  /**
+   * Process MCP protocol message
+   */
+  private async processMessage(
+    message: any,
+    request: Request,
+    env: any,
+    context: { sessionId: string; auth?: unknown; onNotification?: (notification: any) => void },
+  ): Promise<any> {
+    // Cancellations only reach requests sent on the same connection
+    if (message.method === "notifications/cancelled" && message.params?.requestId !== undefined) {
+      this.inflightRequests.cancel(context.sessionId, message.params.requestId, message.params.reason)
+    }
+
+    const inflight = isJsonRpcRequest(message) ? this.inflightRequests.start(context.sessionId, message.id) : undefined
+
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timeout)
+        inflight?.done()
+      }
+
+      const timeout = setTimeout(() => {
+        const error = new JsonRpcError(JsonRpcErrorCode.RequestTimeout, "Request timeout")
+        cleanup()
+        inflight?.controller.abort(error)
+        reject(error)
+      }, this.options.timeout)
+
+      this.messageHandlers.forEach((handler) => {
+        try {
+          handler({
+            ...message,
+            _responseHandler: (response: any) => {
+              cleanup()
+              resolve(response)
+            },
+            _errorHandler: (error: unknown) => {
+              cleanup()
+              reject(error)
+            },
+            _env: env,
+            _workersRequest: request,
+            _sessionId: context.sessionId,
+            ...(context.auth !== undefined && { _auth: context.auth }),
+            _notificationHandler: context.onNotification,
+            _signal: inflight?.controller.signal,
+          })
+        } catch (error) {
+          cleanup()
+          reject(error)
+        }
+      })
+    })
+  }
+
+  addEventListener(event: string, handler: any): void {
+    if (event === "message") {
+      this.messageHandlers.add(handler)
+    }
+  }
+
+  removeEventListener(event: string, handler: any): void {
+    if (event === "message") {
+      this.messageHandlers.delete(handler)
+    }
+  }
+
+  async close(): Promise<void> {
+    this.localSockets.forEach((socket) => socket.close(1001, "Server shutting down"))
+    this.localSockets.clear()
+    this.inflightRequests.cancelAll(new Error("Transport closed"))
+    this.messageHandlers.clear()
+  }
+}
@@ -12,7 +12,27 @@ interface Transport {
   start(): Promise<void>
   close(): Promise<void>
 }
+import type { DurableObjectNamespace, ExecutionContext } from "@cloudflare/workers-types"
 import { assertWorkersRuntime } from "../runtime/detection.js"
+import { SSEStream } from "../utils/sse-helpers.js"
+import { readBodyWithLimit } from "../utils/body-helpers.js"
+import { isJsonRpcMessage, isJsonRpcRequest } from "./SessionBridge.js"
+import {
+  JsonRpcError,
+  JsonRpcErrorCode,
+  createErrorResponse,
+  createJsonRpcError,
+  toJsonRpcError,
+} from "../utils/response-helpers.js"
+import { AuthError, createAuthErrorResponse } from "../auth/errors.js"
+import { InflightRequests } from "./InflightRequests.js"
+import { DurableObjectSseRelay, LocalSseRelay } from "./SseRelay.js"
+import type { SseRelay } from "./SseRelay.js"
+
+/**
+ * Header carrying the Streamable HTTP session identifier
+ */
+export const MCP_SESSION_ID_HEADER = "Mcp-Session-Id"
 
 /**
  * Transport configuration for Cloudflare Workers
@@ -37,10 +57,73 @@ export interface WorkersTransportOptions {
    */
   maxBodySize?: number
 
+  /**
+   * Per-method body size limits in bytes, overriding maxBodySize (e.g. { "tools/call": 10 * 1024 * 1024 }).
+   * A batch may be as large as the highest limit among its messages.
+   */
+  methodBodyLimits?: Record<string, number>
+
   /**
    * Request timeout in milliseconds
    */
   timeout?: number
+
+  /**
+   * Streamable HTTP transport configuration (MCP 2025-03-26)
+   */
+  streamable?: {
+    /**
+     * Enable Streamable HTTP mode: session IDs, SSE responses, GET streams and DELETE
+     */
+    enabled?: boolean
+
+    /**
+     * Always answer POST requests with a JSON body, even when the client accepts SSE
+     */
+    enableJsonResponse?: boolean
+
+    /**
+     * Generate a new session ID on initialize (default: crypto.randomUUID)
+     */
+    sessionIdGenerator?: () => string
+  }
+
+  /**
+   * Legacy HTTP+SSE transport configuration (MCP 2024-11-05)
+   */
+  legacySse?: {
+    /**
+     * Serve the legacy GET stream and message endpoints alongside the MCP endpoint
+     */
+    enabled?: boolean
+
+    /**
+     * Path of the SSE stream endpoint (default: '/sse')
+     */
+    ssePath?: string
+
+    /**
+     * Path clients POST messages to (default: '/messages')
+     */
+    messagesPath?: string
+
+    /**
+     * Resolve the Durable Object namespace relaying messages to open streams.
+     * Without it, streams are kept in isolate memory.
+     */
+    relay?: (env: any) => DurableObjectNamespace | undefined
+  }
+
+  /**
+   * Resolve the protected resource metadata URL advertised in WWW-Authenticate challenges
+   */
+  resourceMetadata?: (request: Request) => string | undefined
+
+  /**
+   * Resolve the identity a request is authenticated as. Legacy SSE streams only accept messages
+   * from the identity that opened them, and outside sessions only the same identity can cancel a request.
+   */
+  identify?: (request: Request) => Promise<string>
 }
 
 /**
@@ -54,7 +137,20 @@ const DEFAULT_OPTIONS: Required<WorkersTransportOptions> = {
     credentials: false,
   },
   maxBodySize: 1024 * 1024, // 1MB
+  methodBodyLimits: {},
   timeout: 30000, // 30 seconds
+  streamable: {
+    enabled: false,
+    enableJsonResponse: false,
+    sessionIdGenerator: () => crypto.randomUUID(),
+  },
+  legacySse: {
+    enabled: false,
+    ssePath: "/sse",
+    messagesPath: "/messages",
+  },
+  resourceMetadata: () => undefined,
+  identify: async () => "public",
 }
 
 /**
@@ -66,15 +162,31 @@ export class WorkersTransport implements Transport {
   private closeHandlers = new Set<() => void>()
   private errorHandlers = new Set<(error: Error) => void>()
 
+  // Standalone GET streams for server-initiated messages, keyed by session ID.
+  // These live in isolate memory, so a stream is only reachable from requests
+  // handled by the same isolate.
+  private sessionStreams = new Map<string, SSEStream>()
+
+  // Fallback relay for legacy SSE sessions when no Durable Object namespace is configured
+  private localSseRelay = new LocalSseRelay()
+
+  // Running requests, so they can be aborted
+  private inflightRequests = new InflightRequests()
+
   constructor(options: WorkersTransportOptions = {}) {
     assertWorkersRuntime()
-    this.options = { ...DEFAULT_OPTIONS, ...options }
+    this.options = {
+      ...DEFAULT_OPTIONS,
+      ...options,
+      streamable: { ...DEFAULT_OPTIONS.streamable, ...options.streamable },
+      legacySse: { ...DEFAULT_OPTIONS.legacySse, ...options.legacySse },
+    }
   }
 
   /**
    * Handle incoming Workers request and create appropriate response
    */
-  async handleRequest(request: Request, env?: any): Promise<Response> {
+  async handleRequest(request: Request, env?: any, ctx?: ExecutionContext): Promise<Response> {
     const url = new URL(request.url)
 
     // Handle CORS preflight
@@ -82,46 +194,70 @@ export class WorkersTransport implements Transport {
       return this.handleCors(request)
     }
 
+    // Legacy HTTP+SSE endpoints live outside the MCP path prefix
+    if (this.options.legacySse.enabled) {
+      if (url.pathname === this.options.legacySse.ssePath) {
+        return this.handleLegacyStream(request, env)
+      }
+
+      if (url.pathname === this.options.legacySse.messagesPath) {
+        return this.handleLegacyMessage(request, env, ctx)
+      }
+    }
+
     // Check if request is for MCP endpoint
     if (!url.pathname.startsWith(this.options.pathPrefix)) {
       return new Response("Not Found", { status: 404 })
     }
 
+    if (this.options.streamable.enabled) {
+      if (request.method === "GET") {
+        return this.handleStreamRequest(request)
+      }
+
+      if (request.method === "DELETE") {
+        return this.handleSessionTermination(request)
+      }
+    }
+
+    let message: any
+
     try {
       // Validate request method
       if (request.method !== "POST") {
         return new Response("Method Not Allowed", {
           status: 405,
-          headers: { Allow: "POST, OPTIONS" },
+          headers: { Allow: this.getAllowedMethods() },
         })
       }
 
-      // Validate content type
-      const contentType = request.headers.get("content-type")
-      if (!contentType || !contentType.includes("application/json")) {
-        return new Response("Bad Request: Content-Type must be application/json", {
-          status: 400,
-        })
+      // Parse and validate request body
+      const parsed = await this.parseBody(request)
+      if (parsed instanceof Response) {
+        return parsed
       }
 
-      // Check content length
-      const contentLength = request.headers.get("content-length")
-      if (contentLength && parseInt(contentLength) > this.options.maxBodySize) {
-        return new Response("Payload Too Large", { status: 413 })
+      message = parsed.message
+
+      if (this.options.streamable.enabled) {
+        return await this.handleStreamablePost(message, request, env, ctx)
       }
 
-      // Parse request body
-      const body = await request.text()
-      let message
+      // Notifications are dispatched without waiting; only requests get a response
+      const isBatch = Array.isArray(message)
+      const requests = this.dispatchNotifications(isBatch ? message : [message], request, env, ctx)
 
-      try {
-        message = JSON.parse(body)
-      } catch {
-        return new Response("Bad Request: Invalid JSON", { status: 400 })
+      if (requests.length === 0) {
+        return new Response(null, {
+          status: 202,
+          headers: this.getCorsHeaders(request),
+        })
       }
 
-      // Process MCP message
-      const response = await this.processMessage(message, env)
+      // Process MCP message(s)
+      const response = isBatch
+        ? await this.processBatch(requests, request, env)
+        : await this.processMessage(requests[0], request, env)
 
       return new Response(JSON.stringify(response), {
         status: 200,
@@ -131,49 +267,494 @@ export class WorkersTransport implements Transport {
         },
       })
     } catch (error) {
-      console.error("Error handling MCP request:", error)
-
-      return new Response(
-        JSON.stringify({
-          error: {
-            code: -32603,
-            message: "Internal error",
-            data: error instanceof Error ? error.message : String(error),
-          },
-        }),
+      if (error instanceof AuthError) {
+        return createAuthErrorResponse(error, {
+          resourceMetadata: this.options.resourceMetadata(request),
+          headers: this.getCorsHeaders(request),
+        })
+      }
+
+      return createErrorResponse(toJsonRpcError(error), {
+        id: Array.isArray(message) ? null : this.getMessageId(message),
+        headers: this.getCorsHeaders(request),
+      })
+    }
+  }
+
+  /**
+   * Read and parse a JSON-RPC payload, or return the error response to send
+   */
+  private async parseBody(request: Request): Promise<{ message: any } | Response> {
+    // Validate content type
+    const contentType = request.headers.get("content-type")
+    if (!contentType || !contentType.includes("application/json")) {
+      return createErrorResponse(
         {
-          status: 500,
-          headers: {
-            "Content-Type": "application/json",
-            ...this.getCorsHeaders(request),
-          },
+          code: JsonRpcErrorCode.InvalidRequest,
+          message: "Invalid Request",
+          data: "Content-Type must be application/json",
+        },
+        { headers: this.getCorsHeaders(request) },
+      )
+    }
+
+    // Reject early when the declared size already exceeds every limit
+    const maxAllowed = Math.max(this.options.maxBodySize, ...Object.values(this.options.methodBodyLimits))
+    const contentLength = request.headers.get("content-length")
+    if (contentLength && parseInt(contentLength) > maxAllowed) {
+      return this.createPayloadTooLargeResponse(request, maxAllowed)
+    }
+
+    // Count the bytes actually streamed - Content-Length may be missing or wrong
+    const body = await readBodyWithLimit(request, maxAllowed)
+    if (!body) {
+      return this.createPayloadTooLargeResponse(request, maxAllowed)
+    }
+
+    let message
+
+    try {
+      message = JSON.parse(body.text)
+    } catch {
+      return createErrorResponse(
+        { code: JsonRpcErrorCode.ParseError, message: "Parse error" },
+        { headers: this.getCorsHeaders(request) },
+      )
+    }
+
+    // Apply the limit of the method(s) now that the payload is known
+    const bodyLimit = this.getBodyLimit(message)
+    if (body.size > bodyLimit) {
+      return this.createPayloadTooLargeResponse(request, bodyLimit)
+    }
+
+    // Batches must contain at least one message
+    if (Array.isArray(message) && message.length === 0) {
+      return createErrorResponse(
+        { code: JsonRpcErrorCode.InvalidRequest, message: "Invalid Request", data: "Batch must not be empty" },
+        { headers: this.getCorsHeaders(request) },
+      )
+    }
+
+    // Invalid entries of a batch are answered individually; a single invalid message fails the request
+    if (!Array.isArray(message) && !isJsonRpcMessage(message)) {
+      return createErrorResponse(
+        { code: JsonRpcErrorCode.InvalidRequest, message: "Invalid Request" },
+        { id: this.getMessageId(message), headers: this.getCorsHeaders(request) },
+      )
+    }
+
+    return { message }
+  }
+
+  /**
+   * Body size limit for a payload, based on the methods it calls
+   */
+  private getBodyLimit(message: any): number {
+    const messages = Array.isArray(message) ? message : [message]
+    const limits = messages.map(
+      (entry) =>
+        (typeof entry?.method === "string" && this.options.methodBodyLimits[entry.method]) || this.options.maxBodySize,
+    )
+
+    return limits.length > 0 ? Math.max(...limits) : this.options.maxBodySize
+  }
+
+  /**
+   * Create a 413 response carrying a JSON-RPC error
+   */
+  private createPayloadTooLargeResponse(request: Request, limit: number): Response {
+    return createErrorResponse(
+      {
+        code: JsonRpcErrorCode.InvalidRequest,
+        message: "Payload Too Large",
+        data: `Request body exceeds ${limit} bytes`,
+      },
+      {
+        status: 413,
+        headers: { Connection: "close", ...this.getCorsHeaders(request) },
+      },
+    )
+  }
+
+  /**
+   * Id of a message if it is a valid JSON-RPC id, for answering malformed messages
+   */
+  private getMessageId(message: any): string | number | null {
+    const id = message?.id
+    return typeof id === "string" || typeof id === "number" ? id : null
+  }
+
+  /**
+   * Send a server-initiated message on a session's standalone GET stream.
+   * Returns false if no stream for the session is open in this isolate.
+   */
+  async sendToSession(sessionId: string, message: any): Promise<boolean> {
+    const stream = this.sessionStreams.get(sessionId)
+    if (!stream || stream.closed) {
+      return false
+    }
+
+    await stream.sendMessage(message)
+    return true
+  }
+
+  /**
+   * Send a server-initiated message on a session's Streamable HTTP GET stream or legacy SSE stream.
+   * Returns false if the session has no open stream reachable from here.
+   */
+  async notify(sessionId: string, message: any, env?: any): Promise<boolean> {
+    if (await this.sendToSession(sessionId, message)) {
+      return true
+    }
+
+    if (!this.options.legacySse.enabled) {
+      return false
+    }
+
+    return await this.getSseRelay(env).send(sessionId, message)
+  }
+
+  /**
+   * Handle a POST in Streamable HTTP mode
+   */
+  private async handleStreamablePost(
+    message: any,
+    request: Request,
+    env?: any,
+    ctx?: ExecutionContext,
+  ): Promise<Response> {
+    const isBatch = Array.isArray(message)
+    const isInitialize = !isBatch && message?.method === "initialize"
+    let sessionId = request.headers.get(MCP_SESSION_ID_HEADER) ?? undefined
+
+    if (isInitialize) {
+      sessionId = this.options.streamable.sessionIdGenerator!()
+    } else if (!sessionId) {
+      return createErrorResponse(
+        { code: JsonRpcErrorCode.ServerError, message: "Bad Request: Mcp-Session-Id header is required" },
+        { id: isBatch ? null : this.getMessageId(message), status: 400, headers: this.getCorsHeaders(request) },
+      )
+    }
+
+    const sessionHeaders: Record<string, string> = sessionId ? { [MCP_SESSION_ID_HEADER]: sessionId } : {}
+
+    // Notifications and responses are acknowledged without a body
+    const requests = this.dispatchNotifications(isBatch ? message : [message], request, env, ctx, { sessionId })
+    if (requests.length === 0) {
+      return new Response(null, {
+        status: 202,
+        headers: { ...sessionHeaders, ...this.getCorsHeaders(request) },
+      })
+    }
+
+    const accept = request.headers.get("accept") ?? ""
+    if (this.options.streamable.enableJsonResponse || !accept.includes("text/event-stream")) {
+      const response = isBatch
+        ? await this.processBatch(requests, request, env, { sessionId })
+        : await this.processMessage(requests[0], request, env, { sessionId })
+
+      return new Response(JSON.stringify(response), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/json",
+          ...sessionHeaders,
+          ...this.getCorsHeaders(request),
         },
+      })
+    }
+
+    // Answer with an SSE stream carrying related notifications followed by each response
+    const stream = new SSEStream()
+    const context = {
+      sessionId,
+      onNotification: (notification: any) => stream.sendMessage(notification),
+    }
+
+    Promise.all(
+      requests.map((rpcRequest) =>
+        this.processMessage(rpcRequest, request, env, context).then(
+          (response) => stream.sendMessage(response),
+          (error) => stream.sendMessage(this.createErrorMessage(rpcRequest.id, error)),
+        ),
+      ),
+    ).finally(() => stream.close())
+
+    return stream.toResponse({ ...sessionHeaders, ...this.getCorsHeaders(request) })
+  }
+
+  /**
+   * Open a legacy SSE stream and announce the message endpoint
+   */
+  private async handleLegacyStream(request: Request, env?: any): Promise<Response> {
+    if (request.method !== "GET") {
+      return new Response("Method Not Allowed", {
+        status: 405,
+        headers: { Allow: "GET, OPTIONS" },
+      })
+    }
+
+    const sessionId = this.options.streamable.sessionIdGenerator!()
+    const endpoint = `${this.options.legacySse.messagesPath}?sessionId=${encodeURIComponent(sessionId)}`
+
+    const owner = await this.options.identify(request)
+    return this.getSseRelay(env).open(sessionId, endpoint, this.getCorsHeaders(request), owner)
+  }
+
+  /**
+   * Accept a message for a legacy SSE session; responses are delivered on its stream
+   */
+  private async handleLegacyMessage(request: Request, env?: any, ctx?: ExecutionContext): Promise<Response> {
+    if (request.method !== "POST") {
+      return new Response("Method Not Allowed", {
+        status: 405,
+        headers: { Allow: "POST, OPTIONS" },
+      })
+    }
+
+    const sessionId = new URL(request.url).searchParams.get("sessionId")
+    if (!sessionId) {
+      return createErrorResponse(
+        { code: JsonRpcErrorCode.ServerError, message: "Bad Request: sessionId query parameter is required" },
+        { status: 400, headers: this.getCorsHeaders(request) },
+      )
+    }
+
+    // Sessions are only reachable by the identity that opened their stream
+    const relay = this.getSseRelay(env)
+    if (!(await relay.has(sessionId, await this.options.identify(request)))) {
+      return createErrorResponse(
+        { code: JsonRpcErrorCode.ServerError, message: "Session not found" },
+        { status: 404, headers: this.getCorsHeaders(request) },
       )
     }
+
+    const parsed = await this.parseBody(request)
+    if (parsed instanceof Response) {
+      return parsed
+    }
+
+    const messages = Array.isArray(parsed.message) ? parsed.message : [parsed.message]
+    const requests = this.dispatchNotifications(messages, request, env, ctx, { sessionId })
+    const context = {
+      sessionId,
+      onNotification: (notification: any) => void relay.send(sessionId, notification),
+    }
+
+    const pending = Promise.all(
+      requests.map((rpcRequest) =>
+        this.processMessage(rpcRequest, request, env, context)
+          .catch((error) => this.createErrorMessage(rpcRequest.id, error))
+          .then((response) => relay.send(sessionId, response)),
+      ),
+    ).catch((error) => {
+      console.error("Error relaying legacy SSE response:", error)
+    })
+    ctx?.waitUntil(pending)
+
+    return new Response("Accepted", {
+      status: 202,
+      headers: this.getCorsHeaders(request),
+    })
+  }
+
+  /**
+   * Resolve the relay for legacy SSE sessions
+   */
+  private getSseRelay(env?: any): SseRelay {
+    const namespace = this.options.legacySse.relay?.(env)
+    return namespace ? new DurableObjectSseRelay(namespace) : this.localSseRelay
+  }
+
+  /**
+   * Dispatch notifications and client responses without waiting for a reply.
+   * Returns the requests that expect a response.
+   */
+  private dispatchNotifications(
+    messages: any[],
+    request: Request,
+    env?: any,
+    ctx?: ExecutionContext,
+    context: { sessionId?: string | undefined } = {},
+  ): any[] {
+    const requests: any[] = []
+
+    for (const message of messages) {
+      // Invalid messages are answered with an error, so they are handled like requests
+      if (isJsonRpcRequest(message) || !isJsonRpcMessage(message)) {
+        requests.push(message)
+        continue
+      }
+
+      const pending = this.processMessage(message, request, env, context).catch((error) => {
+        console.error("Error handling MCP notification:", error)
+      })
+      ctx?.waitUntil(pending)
+    }
+
+    return requests
+  }
+
+  /**
+   * Process a batch of requests, answering failed entries with JSON-RPC errors
+   */
+  private async processBatch(
+    requests: any[],
+    request: Request,
+    env?: any,
+    context: { sessionId?: string | undefined } = {},
+  ): Promise<any[]> {
+    return Promise.all(
+      requests.map((rpcRequest) =>
+        this.processMessage(rpcRequest, request, env, context).catch((error) =>
+          this.createErrorMessage(rpcRequest.id, error),
+        ),
+      ),
+    )
+  }
+
+  /**
+   * Open a standalone SSE stream for server-initiated messages
+   */
+  private handleStreamRequest(request: Request): Response {
+    const accept = request.headers.get("accept") ?? ""
+    if (!accept.includes("text/event-stream")) {
+      return new Response("Not Acceptable: Accept must include text/event-stream", {
+        status: 406,
+        headers: this.getCorsHeaders(request),
+      })
+    }
+
+    const sessionId = request.headers.get(MCP_SESSION_ID_HEADER)
+    if (!sessionId) {
+      return new Response("Bad Request: Mcp-Session-Id header is required", {
+        status: 400,
+        headers: this.getCorsHeaders(request),
+      })
+    }
+
+    // Only one standalone stream per session
+    this.sessionStreams.get(sessionId)?.close()
+
+    const stream = new SSEStream()
+    this.sessionStreams.set(sessionId, stream)
+    stream.onClose(() => {
+      if (this.sessionStreams.get(sessionId) === stream) {
+        this.sessionStreams.delete(sessionId)
+      }
+    })
+
+    return stream.toResponse({ [MCP_SESSION_ID_HEADER]: sessionId, ...this.getCorsHeaders(request) })
+  }
+
+  /**
+   * Terminate a session on client request
+   */
+  private async handleSessionTermination(request: Request): Promise<Response> {
+    const sessionId = request.headers.get(MCP_SESSION_ID_HEADER)
+    if (!sessionId) {
+      return new Response("Bad Request: Mcp-Session-Id header is required", {
+        status: 400,
+        headers: this.getCorsHeaders(request),
+      })
+    }
+
+    await this.sessionStreams.get(sessionId)?.close()
+    this.sessionStreams.delete(sessionId)
+    this.inflightRequests.cancelSession(sessionId, new Error("Session terminated"))
+
+    return new Response(null, {
+      status: 204,
+      headers: this.getCorsHeaders(request),
+    })
+  }
+
+  /**
+   * Scope in which request ids identify an in-flight request: the session, or the caller outside sessions
+   */
+  private async getInflightScope(request: Request, sessionId: string | undefined): Promise<string> {
+    return sessionId ?? `identity:${await this.options.identify(request)}`
+  }
+
+  /**
+   * Create a JSON-RPC error message for a request that failed in the transport
+   */
+  private createErrorMessage(id: any, error: unknown): any {
+    return createJsonRpcError(id, toJsonRpcError(error))
   }
 
   /**
    * Process MCP protocol message
    */
-  private async processMessage(message: any, env?: any): Promise<any> {
+  private async processMessage(
+    message: any,
+    request: Request,
+    env?: any,
+    context: { sessionId?: string | undefined; onNotification?: (notification: any) => void } = {},
+  ): Promise<any> {
+    // Malformed batch entries never reach the server
+    if (!isJsonRpcMessage(message)) {
+      return createJsonRpcError(this.getMessageId(message), {
+        code: JsonRpcErrorCode.InvalidRequest,
+        message: "Invalid Request",
+      })
+    }
+
+    // Cancellations only reach requests of the same session, or of the same caller outside sessions
+    if (message.method === "notifications/cancelled" && message.params?.requestId !== undefined) {
+      const scope = await this.getInflightScope(request, context.sessionId)
+      this.inflightRequests.cancel(scope, message.params.requestId, message.params.reason)
+    }
+
+    // Requests carry a signal aborted on timeout, client disconnect or cancellation
+    const inflight = isJsonRpcRequest(message)
+      ? this.inflightRequests.start(await this.getInflightScope(request, context.sessionId), message.id)
+      : undefined
+    const abortOnDisconnect = () => inflight?.controller.abort(request.signal.reason)
+    request.signal?.addEventListener("abort", abortOnDisconnect)
+
     // Emit message to handlers (this will be connected to FastMCP server)
     return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timeout)
+        request.signal?.removeEventListener("abort", abortOnDisconnect)
+        inflight?.done()
+      }
+
       const timeout = setTimeout(() => {
-        reject(new Error("Request timeout"))
+        const error = new JsonRpcError(JsonRpcErrorCode.RequestTimeout, "Request timeout")
+        cleanup()
+        inflight?.controller.abort(error)
+        reject(error)
       }, this.options.timeout)
 
       // Create response handler
       const responseHandler = (response: any) => {
-        clearTimeout(timeout)
+        cleanup()
         resolve(response)
       }
 
+      // Create error handler for handlers that fail asynchronously
+      const errorHandler = (error: unknown) => {
+        cleanup()
+        reject(error)
+      }
+
       // Emit to message handlers with response callback
       this.messageHandlers.forEach((handler) => {
         try {
-          handler({ ...message, _responseHandler: responseHandler, _env: env })
+          handler({
+            ...message,
+            _responseHandler: responseHandler,
+            _errorHandler: errorHandler,
+            _env: env,
+            _workersRequest: request,
+            _sessionId: context.sessionId,
+            _notificationHandler: context.onNotification,
+            _signal: inflight?.controller.signal,
+          })
         } catch (error) {
-          clearTimeout(timeout)
+          cleanup()
           reject(error)
         }
       })
@@ -194,6 +775,13 @@ export class WorkersTransport implements Transport {
     })
   }
 
+  /**
+   * Get HTTP methods accepted on the MCP endpoint
+   */
+  private getAllowedMethods(): string {
+    return this.options.streamable.enabled ? "GET, POST, DELETE, OPTIONS" : "POST, OPTIONS"
+  }
+
   /**
    * Get CORS headers for response
    */
@@ -203,10 +791,15 @@ export class WorkersTransport implements Transport {
     }
 
     const headers: Record<string, string> = {
-      "Access-Control-Allow-Methods": "POST, OPTIONS",
+      "Access-Control-Allow-Methods": this.getAllowedMethods(),
       "Access-Control-Allow-Headers": "Content-Type, Authorization",
     }
 
+    if (this.options.streamable.enabled) {
+      headers["Access-Control-Allow-Headers"] += `, ${MCP_SESSION_ID_HEADER}, Mcp-Protocol-Version, Last-Event-ID`
+      headers["Access-Control-Expose-Headers"] = MCP_SESSION_ID_HEADER
+    }
+
     const origin = request.headers.get("origin")
     const { origins, credentials } = this.options.cors
 
@@ -244,6 +837,10 @@ export class WorkersTransport implements Transport {
   }
 
   async close(): Promise<void> {
+    await Promise.all([...this.sessionStreams.values()].map((stream) => stream.close()))
+    this.sessionStreams.clear()
+    await this.localSseRelay.closeAll()
+    this.inflightRequests.cancelAll(new Error("Transport closed"))
     this.closeHandlers.forEach((handler) => handler())
     this.messageHandlers.clear()
     this.closeHandlers.clear()
@@ -283,6 +880,8 @@ export class WorkersTransport implements Transport {
 /**
  * Create a Workers request handler from transport
  */
-export function createWorkerHandler(transport: WorkersTransport): (request: Request, env?: any) => Promise<Response> {
-  return (request: Request, env?: any) => transport.handleRequest(request, env)
+export function createWorkerHandler(
+  transport: WorkersTransport,
+): (request: Request, env?: any, ctx?: ExecutionContext) => Promise<Response> {
+  return (request: Request, env?: any, ctx?: ExecutionContext) => transport.handleRequest(request, env, ctx)
 }
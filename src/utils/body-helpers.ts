@@ -0,0 +1,40 @@
+/**
+ * Request body utilities for Cloudflare Workers
+ */
+
+/**
+ * Read a request body as text, counting bytes as they arrive.
+ * Stops reading and returns undefined as soon as the body exceeds `limit` bytes,
+ * so chunked uploads without a Content-Length cannot grow unbounded in memory.
+ */
+export async function readBodyWithLimit(
+  request: Request,
+  limit: number,
+): Promise<{ text: string; size: number } | undefined> {
+  if (!request.body) {
+    return { text: "", size: 0 }
+  }
+
+  const reader = request.body.getReader()
+  const decoder = new TextDecoder()
+  let text = ""
+  let size = 0
+
+  for (;;) {
+    const { value, done } = await reader.read()
+    if (done) {
+      break
+    }
+
+    size += value.byteLength
+    if (size > limit) {
+      await reader.cancel("Payload Too Large").catch(() => {})
+      return undefined
+    }
+
+    text += decoder.decode(value, { stream: true })
+  }
+
+  text += decoder.decode()
+  return { text, size }
+}
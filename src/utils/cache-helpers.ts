@@ -0,0 +1,21 @@
+/**
+ * Cache API utilities for Cloudflare Workers
+ */
+
+/**
+ * Open a named cache, or undefined where the Cache API is unavailable
+ */
+export async function openCache(name: string): Promise<Cache | undefined> {
+  try {
+    return typeof caches?.open === "function" ? await caches.open(name) : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * The Worker's default cache (`caches.default`), or undefined where the Cache API is unavailable
+ */
+export function defaultCache(): Cache | undefined {
+  return typeof caches === "undefined" ? undefined : (caches as unknown as { default?: Cache }).default
+}
@@ -193,6 +193,49 @@ export async function audioContent(input: { buffer: Buffer | ArrayBuffer } | { u
   }
 }
 
+/**
+ * Resource contents as returned from a resource `load`
+ */
+export type StoredResourceContent = { text: string; mimeType: string } | { blob: string; mimeType: string }
+
+/**
+ * Whether content of a MIME type is textual and can be returned as resource `text`
+ */
+export function isTextMimeType(mimeType: string): boolean {
+  const type = mimeType.split(";")[0]!.trim().toLowerCase()
+
+  return (
+    type.startsWith("text/") ||
+    type.endsWith("+json") ||
+    type.endsWith("+xml") ||
+    [
+      "application/json",
+      "application/ld+json",
+      "application/xml",
+      "application/javascript",
+      "application/ecmascript",
+      "application/x-yaml",
+      "application/yaml",
+      "application/toml",
+      "application/sql",
+      "application/graphql",
+      "application/x-www-form-urlencoded",
+    ].includes(type)
+  )
+}
+
+/**
+ * Resource contents for bytes read from a storage binding (KV, R2, ...):
+ * `text` for textual MIME types, base64 `blob` otherwise
+ */
+export function storedResourceContent(data: ArrayBuffer, mimeType: string): StoredResourceContent {
+  if (isTextMimeType(mimeType)) {
+    return { text: new TextDecoder().decode(data), mimeType }
+  }
+
+  return { blob: toBase64(data), mimeType }
+}
+
 /**
  * Simple MIME type detection from file headers (magic bytes)
  * This is a basic implementation - for production use, consider a more robust solution
@@ -0,0 +1,18 @@
+/**
+ * JSON helpers for building keys from values
+ */
+
+/**
+ * JSON with object keys sorted, so equal arguments give equal keys whatever their key order
+ */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item) =>
+    item && typeof item === "object" && !Array.isArray(item)
+      ? Object.fromEntries(
+          Object.keys(item as object)
+            .sort()
+            .map((key) => [key, (item as any)[key]]),
+        )
+      : item,
+  )
+}
@@ -2,6 +2,8 @@
  * Response utility functions for Cloudflare Workers
  */
 
+import { UserError } from "fastmcp"
+
 /**
  * Create a JSON response with proper headers
  */
@@ -24,37 +26,117 @@ export function createJsonResponse(
 }
 
 /**
- * Create an error response in MCP format
+ * JSON-RPC 2.0 error codes, plus the server error codes used by this package
+ */
+export const JsonRpcErrorCode = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InvalidParams: -32602,
+  InternalError: -32603,
+  ServerError: -32000,
+  RequestTimeout: -32001,
+  ResourceNotFound: -32002,
+} as const
+
+/**
+ * JSON-RPC error object
+ */
+export interface JsonRpcErrorObject {
+  code: number
+  message: string
+  data?: unknown
+}
+
+/**
+ * Error carrying a JSON-RPC error code, mapped as-is into error responses
+ */
+export class JsonRpcError extends Error {
+  constructor(
+    public readonly code: number,
+    message: string,
+    public readonly data?: unknown,
+  ) {
+    super(message)
+    this.name = "JsonRpcError"
+  }
+}
+
+/**
+ * Convert any thrown value to a JSON-RPC error object.
+ * Errors with a numeric code (JsonRpcError, McpError) keep it and UserError keeps its message.
+ * Anything else is logged and answered with a generic internal error, so its details stay on the server.
+ */
+export function toJsonRpcError(error: unknown): JsonRpcErrorObject {
+  if (error instanceof Error && typeof (error as { code?: unknown }).code === "number") {
+    const { code, data } = error as Error & { code: number; data?: unknown }
+    return { code, message: error.message, ...(data !== undefined && { data }) }
+  }
+
+  if (error instanceof UserError) {
+    return { code: JsonRpcErrorCode.InternalError, message: error.message }
+  }
+
+  console.error("Unexpected error handling MCP request:", error)
+  return { code: JsonRpcErrorCode.InternalError, message: "Internal error" }
+}
+
+/**
+ * Create a JSON-RPC error message answering the request with the given id
+ * (null when the id could not be determined)
+ */
+export function createJsonRpcError(id: string | number | null | undefined, error: JsonRpcErrorObject) {
+  return {
+    jsonrpc: "2.0" as const,
+    id: id ?? null,
+    error: {
+      code: error.code,
+      message: error.message,
+      ...(error.data !== undefined && { data: error.data }),
+    },
+  }
+}
+
+/**
+ * HTTP status for a response whose whole body is a single JSON-RPC error.
+ *
+ * Policy:
+ * - Errors the MCP server returns for a dispatched request (e.g. unknown tool) are ordinary
+ *   JSON-RPC responses and are sent with 200, as are batches.
+ * - Errors produced before or instead of dispatching use the status below.
+ * - Tool failures (including UserError) are not JSON-RPC errors at all: they are results
+ *   with `isError: true`.
+ */
+export function getHttpStatusForError(code: number): number {
+  switch (code) {
+    case JsonRpcErrorCode.ParseError:
+    case JsonRpcErrorCode.InvalidRequest:
+    case JsonRpcErrorCode.InvalidParams:
+      return 400
+    case JsonRpcErrorCode.MethodNotFound:
+    case JsonRpcErrorCode.ResourceNotFound:
+      return 404
+    case JsonRpcErrorCode.RequestTimeout:
+      return 504
+    default:
+      return 500
+  }
+}
+
+/**
+ * Create an error response in JSON-RPC format
  */
 export function createErrorResponse(
-  error: {
-    code: number
-    message: string
-    data?: any
-  },
+  error: JsonRpcErrorObject,
   options: {
+    id?: string | number | null
     status?: number
     headers?: Record<string, string>
   } = {},
 ): Response {
-  const { status = 500, headers = {} } = options
-
-  return new Response(
-    JSON.stringify({
-      error: {
-        code: error.code,
-        message: error.message,
-        ...(error.data && { data: error.data }),
-      },
-    }),
-    {
-      status,
-      headers: {
-        "Content-Type": "application/json",
-        ...headers,
-      },
-    },
-  )
+  const { id = null, status = getHttpStatusForError(error.code), headers = {} } = options
+
+  return createJsonResponse(createJsonRpcError(id, error), { status, headers })
 }
 
 /**
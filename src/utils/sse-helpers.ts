@@ -0,0 +1,131 @@
+/**
+ * Server-Sent Events utilities for Cloudflare Workers
+ */
+
+/**
+ * Format a single SSE event
+ */
+export function formatSSEEvent(event: { data: string; event?: string; id?: string }): string {
+  const lines: string[] = []
+
+  if (event.id) {
+    lines.push(`id: ${event.id}`)
+  }
+
+  if (event.event) {
+    lines.push(`event: ${event.event}`)
+  }
+
+  for (const line of event.data.split("\n")) {
+    lines.push(`data: ${line}`)
+  }
+
+  return lines.join("\n") + "\n\n"
+}
+
+/**
+ * Writable SSE stream backed by a TransformStream
+ */
+export class SSEStream {
+  readonly readable: ReadableStream<Uint8Array>
+  private writer: WritableStreamDefaultWriter<Uint8Array>
+  private encoder = new TextEncoder()
+  private closeHandlers = new Set<() => void>()
+  private _closed = false
+
+  constructor() {
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>()
+    this.readable = readable
+    this.writer = writable.getWriter()
+
+    // Reader went away (client disconnected)
+    this.writer.closed.catch(() => this.markClosed())
+  }
+
+  get closed(): boolean {
+    return this._closed
+  }
+
+  /**
+   * Write a JSON-RPC message as an SSE "message" event
+   */
+  async sendMessage(message: unknown, id?: string): Promise<void> {
+    await this.sendEvent({ event: "message", data: JSON.stringify(message), ...(id !== undefined && { id }) })
+  }
+
+  /**
+   * Write a raw SSE event
+   */
+  async sendEvent(event: { data: string; event?: string; id?: string }): Promise<void> {
+    if (this._closed) {
+      return
+    }
+
+    try {
+      await this.writer.write(this.encoder.encode(formatSSEEvent(event)))
+    } catch {
+      this.markClosed()
+    }
+  }
+
+  /**
+   * Write an SSE comment (useful as a keep-alive)
+   */
+  async sendComment(comment: string): Promise<void> {
+    if (this._closed) {
+      return
+    }
+
+    try {
+      await this.writer.write(this.encoder.encode(`: ${comment}\n\n`))
+    } catch {
+      this.markClosed()
+    }
+  }
+
+  /**
+   * Register a handler called once the stream is closed from either side
+   */
+  onClose(handler: () => void): void {
+    this.closeHandlers.add(handler)
+  }
+
+  async close(): Promise<void> {
+    if (this._closed) {
+      return
+    }
+
+    this.markClosed()
+
+    try {
+      await this.writer.close()
+    } catch {
+      // Stream already errored or closed by the reader
+    }
+  }
+
+  /**
+   * Create a streaming SSE Response for this stream
+   */
+  toResponse(headers: Record<string, string> = {}): Response {
+    return new Response(this.readable as unknown as BodyInit, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+        ...headers,
+      },
+    })
+  }
+
+  private markClosed(): void {
+    if (this._closed) {
+      return
+    }
+
+    this._closed = true
+    this.closeHandlers.forEach((handler) => handler())
+    this.closeHandlers.clear()
+  }
+}
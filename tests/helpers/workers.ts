@@ -0,0 +1,137 @@
+/**
+ * Shared fixtures for tests running against a simulated Cloudflare Workers runtime
+ */
+
+import { beforeAll, afterAll } from 'vitest';
+
+export type WorkerHandler = (request: Request, env?: unknown) => Promise<Response>;
+
+export interface RpcResponse {
+  jsonrpc: '2.0';
+  id: number | string | null;
+  // Results are asserted on field by field, so their shape is left to each test
+  result?: any;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+/**
+ * Install the runtime globals used by runtime detection, optionally with a working Cache API
+ */
+export function setWorkersGlobals(caches: { default?: Cache } = {}) {
+  Object.assign(globalThis, { caches, cf: {} });
+}
+
+export function clearWorkersGlobals() {
+  Reflect.deleteProperty(globalThis, 'caches');
+  Reflect.deleteProperty(globalThis, 'cf');
+}
+
+/**
+ * Simulate the Workers runtime for every test of the calling file
+ */
+export function useWorkersRuntime() {
+  beforeAll(() => setWorkersGlobals());
+  afterAll(() => clearWorkersGlobals());
+}
+
+/**
+ * Cache API stand-in keyed by URL
+ */
+export function createMemoryCache() {
+  const entries = new Map<string, string>();
+  const keyOf = (key: RequestInfo | URL) => (key instanceof Request ? key.url : String(key));
+
+  const cache: Partial<Cache> = {
+    match: async (key) => {
+      const body = entries.get(keyOf(key));
+      return body === undefined ? undefined : new Response(body);
+    },
+    put: async (key, response) => void entries.set(keyOf(key), await response.text()),
+    delete: async (key) => entries.delete(keyOf(key)),
+  };
+
+  return { entries, cache: cache as Cache };
+}
+
+/**
+ * KV stand-in keeping values and their expiration TTL in memory
+ */
+export function createMemoryKv() {
+  const entries = new Map<string, { value: string; expirationTtl?: number }>();
+
+  const kv: Partial<KVNamespace> = {
+    get: (async (key: string, type?: string) => {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      return type === 'json' ? JSON.parse(entry.value) : entry.value;
+    }) as KVNamespace['get'],
+    put: async (key, value, options) => {
+      const expirationTtl = options?.expirationTtl;
+      entries.set(key, { value: String(value), ...(expirationTtl && { expirationTtl }) });
+    },
+    delete: async (key) => void entries.delete(key),
+    list: (async ({ prefix }: KVNamespaceListOptions = {}) => ({
+      keys: [...entries.keys()].filter((name) => name.startsWith(prefix ?? '')).map((name) => ({ name })),
+      list_complete: true,
+      cacheStatus: null,
+    })) as KVNamespace['list'],
+  };
+
+  return { entries, kv: kv as KVNamespace };
+}
+
+/**
+ * Execution context whose waitUntil promises are left to run on their own
+ */
+export function createExecutionContext() {
+  const ctx: Partial<ExecutionContext> = { waitUntil: () => {}, passThroughOnException: () => {}, props: {} };
+  return ctx as ExecutionContext;
+}
+
+/**
+ * Queue batch delivering the given bodies, recording how each message was settled
+ */
+export function createMessageBatch(bodies: unknown[], queue = 'tasks') {
+  const outcomes: string[] = [];
+  const messages = bodies.map(
+    (body, index): Message<unknown> => ({
+      id: String(index),
+      timestamp: new Date(),
+      attempts: 1,
+      body,
+      ack: () => void outcomes.push('ack'),
+      retry: () => void outcomes.push('retry'),
+    }),
+  );
+  const batch: MessageBatch<unknown> = {
+    queue,
+    messages,
+    metadata: { metrics: { backlogCount: 0, backlogBytes: 0 } },
+    ackAll: () => messages.forEach((message) => message.ack()),
+    retryAll: () => messages.forEach((message) => message.retry()),
+  };
+
+  return { batch, outcomes };
+}
+
+/**
+ * Build a JSON-RPC request to the MCP endpoint
+ */
+export function rpcRequest(
+  method: string,
+  params?: Record<string, unknown>,
+  options: { id?: number; headers?: Record<string, string> } = {},
+) {
+  return new Request('https://mcp.example.com/mcp', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...options.headers },
+    body: JSON.stringify({ jsonrpc: '2.0', id: options.id ?? 1, method, ...(params && { params }) }),
+  });
+}
+
+/**
+ * Send a JSON-RPC request through a worker handler and parse the response
+ */
+export async function rpcCall(handler: WorkerHandler, env: unknown, request: Request): Promise<RpcResponse> {
+  return (await handler(request, env)).json();
+}
@@ -0,0 +1,145 @@
+/**
+ * Tests for Cloudflare Access JWT authentication
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { useWorkersRuntime } from '../helpers/workers.js';
+
+useWorkersRuntime();
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const TEAM = 'https://myteam.cloudflareaccess.com';
+const AUD = 'aud-tag-123';
+
+function base64Url(data: Uint8Array | string) {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+async function createKey() {
+  const pair = (await crypto.subtle.generateKey(
+    { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+    true,
+    ['sign', 'verify'],
+  )) as CryptoKeyPair;
+  const jwk = { ...(await crypto.subtle.exportKey('jwk', pair.publicKey)), kid: 'access-key', alg: 'RS256' };
+
+  const sign = async (overrides: Record<string, unknown> = {}) => {
+    const now = Math.floor(Date.now() / 1000);
+    const claims = { iss: TEAM, aud: [AUD], sub: 'user-1', email: 'ada@example.com', iat: now, exp: now + 300 };
+    const header = base64Url(JSON.stringify({ alg: 'RS256', kid: 'access-key', typ: 'JWT' }));
+    const payload = base64Url(JSON.stringify({ ...claims, ...overrides }));
+    const signature = await crypto.subtle.sign(
+      { name: 'RSASSA-PKCS1-v1_5' },
+      pair.privateKey,
+      new TextEncoder().encode(`${header}.${payload}`),
+    );
+    return `${header}.${payload}.${base64Url(new Uint8Array(signature))}`;
+  };
+
+  return { jwk, sign };
+}
+
+function mockAccess(jwk: unknown, identity: unknown = {}) {
+  return vi.spyOn(globalThis, 'fetch').mockImplementation(async (input: any) => {
+    const url = String(input instanceof Request ? input.url : input);
+    const body = url.endsWith('/cdn-cgi/access/certs') ? { keys: [jwk] } : identity;
+    return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' } });
+  });
+}
+
+async function createAuthenticator(options: Record<string, unknown> = {}) {
+  const { accessAuthenticator } = await import('../../src/index.js');
+  return accessAuthenticator({ teamDomain: 'myteam', audience: AUD, ...options });
+}
+
+function withHeaders(headers: Record<string, string>) {
+  return new Request('https://mcp.example.com/mcp', { headers });
+}
+
+describe('accessAuthenticator', () => {
+  it('verifies the Cf-Access-Jwt-Assertion header against the team certs', async () => {
+    const key = await createKey();
+    const fetchSpy = mockAccess(key.jwk);
+    const authenticate = await createAuthenticator();
+
+    const identity = await authenticate(withHeaders({ 'Cf-Access-Jwt-Assertion': await key.sign() }));
+
+    expect(identity).toMatchObject({ sub: 'user-1', email: 'ada@example.com' });
+    expect(String(fetchSpy.mock.calls[0]![0])).toBe(`${TEAM}/cdn-cgi/access/certs`);
+  });
+
+  it('falls back to the CF_Authorization cookie', async () => {
+    const key = await createKey();
+    mockAccess(key.jwk);
+    const authenticate = await createAuthenticator();
+
+    const identity = await authenticate(withHeaders({ Cookie: `theme=dark; CF_Authorization=${await key.sign()}` }));
+
+    expect(identity.email).toBe('ada@example.com');
+  });
+
+  it('identifies service tokens by their client id', async () => {
+    const key = await createKey();
+    mockAccess(key.jwk);
+    const authenticate = await createAuthenticator();
+
+    const identity = await authenticate(
+      withHeaders({
+        'Cf-Access-Jwt-Assertion': await key.sign({ sub: '', email: undefined, common_name: 'abc.access' }),
+      }),
+    );
+
+    expect(identity).toMatchObject({ sub: 'abc.access', client_id: 'abc.access' });
+  });
+
+  it('reads groups from the token or the identity endpoint', async () => {
+    const key = await createKey();
+    mockAccess(key.jwk, { groups: [{ id: '1', name: 'engineering' }] });
+
+    const fromToken = await (
+      await createAuthenticator()
+    )(withHeaders({ 'Cf-Access-Jwt-Assertion': await key.sign({ groups: ['admins'] }) }));
+    expect(fromToken.groups).toEqual(['admins']);
+
+    const fetched = await (
+      await createAuthenticator({ fetchGroups: true })
+    )(withHeaders({ 'Cf-Access-Jwt-Assertion': await key.sign() }));
+    expect(fetched.groups).toEqual(['engineering']);
+  });
+
+  it('reports an unreachable or unreadable identity endpoint as unavailable', async () => {
+    const { AuthUnavailableError } = await import('../../src/index.js');
+    const key = await createKey();
+    const authenticate = await createAuthenticator({ fetchGroups: true });
+    const request = withHeaders({ 'Cf-Access-Jwt-Assertion': await key.sign() });
+
+    mockAccess(key.jwk, null);
+    await expect(authenticate(request)).rejects.toBeInstanceOf(AuthUnavailableError);
+
+    vi.spyOn(globalThis, 'fetch').mockRejectedValueOnce(new TypeError('Network connection lost'));
+    await expect(authenticate(request)).rejects.toBeInstanceOf(AuthUnavailableError);
+  });
+
+  it('rejects missing tokens and tokens for other applications or teams', async () => {
+    const key = await createKey();
+    mockAccess(key.jwk);
+    const authenticate = await createAuthenticator();
+
+    await expect(authenticate(withHeaders({}))).rejects.toThrow('Missing Cloudflare Access token');
+    await expect(
+      authenticate(withHeaders({ 'Cf-Access-Jwt-Assertion': await key.sign({ aud: ['other-app'] }) })),
+    ).rejects.toThrow('Token not issued for this audience');
+    await expect(
+      authenticate(
+        withHeaders({ 'Cf-Access-Jwt-Assertion': await key.sign({ iss: 'https://other.cloudflareaccess.com' }) }),
+      ),
+    ).rejects.toThrow('Unexpected token issuer');
+  });
+});
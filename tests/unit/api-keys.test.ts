@@ -0,0 +1,124 @@
+/**
+ * Tests for KV-backed API key authentication
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import type { ApiKeyPrincipal } from '../../src/index.js';
+import { createMemoryKv, rpcRequest, useWorkersRuntime } from '../helpers/workers.js';
+
+useWorkersRuntime();
+
+function withKey(headers: Record<string, string>) {
+  return new Request('https://mcp.example.com/mcp', { headers });
+}
+
+async function createStore() {
+  const { ApiKeyStore, apiKeyAuthenticator } = await import('../../src/index.js');
+  const { entries, kv } = createMemoryKv();
+  return {
+    entries,
+    store: new ApiKeyStore(kv),
+    authenticate: apiKeyAuthenticator({ kv: () => kv }),
+  };
+}
+
+describe('ApiKeyStore', () => {
+  it('issues keys and stores only their hash', async () => {
+    const { entries, store } = await createStore();
+
+    const { key, record } = await store.issue({ principal: 'svc-billing', scopes: ['billing:read'], name: 'CI' });
+
+    expect(key).toMatch(/^mcp_/);
+    expect([...entries.keys(), ...[...entries.values()].map((entry) => entry.value)].join('')).not.toContain(key);
+    expect(await store.verify(key)).toEqual(record);
+    expect(await store.get(record.id)).toEqual(record);
+  });
+
+  it('expires keys', async () => {
+    const { entries, store } = await createStore();
+
+    const { key } = await store.issue({ principal: 'svc', expiresInSeconds: 3600 });
+    expect([...entries.values()].every((entry) => entry.expirationTtl === 3600)).toBe(true);
+
+    const { key: expired } = await store.issue({ principal: 'svc', expiresInSeconds: -1 });
+    expect(await store.verify(key)).toBeDefined();
+    expect(await store.verify(expired)).toBeUndefined();
+  });
+
+  it('rotates keys with an optional grace period', async () => {
+    const { store } = await createStore();
+    const { key, record } = await store.issue({ principal: 'svc', scopes: ['a', 'b'] });
+
+    const rotated = await store.rotate(record.id, { graceSeconds: 300 });
+    expect(rotated.key).not.toBe(key);
+    expect(rotated.record).toMatchObject({ principal: 'svc', scopes: ['a', 'b'] });
+    expect(await store.verify(key)).toBeDefined();
+
+    const again = await store.rotate(rotated.record.id);
+    expect(await store.verify(rotated.key)).toBeUndefined();
+    expect(await store.verify(again.key)).toBeDefined();
+
+    await expect(store.rotate('missing')).rejects.toThrow('API key missing not found');
+  });
+
+  it('revokes keys by id', async () => {
+    const { store } = await createStore();
+    const { key, record } = await store.issue({ principal: 'svc' });
+
+    expect(await store.revoke(record.id)).toBe(true);
+    expect(await store.verify(key)).toBeUndefined();
+    expect(await store.revoke(record.id)).toBe(false);
+  });
+});
+
+describe('apiKeyAuthenticator', () => {
+  it('accepts keys as bearer tokens or in X-API-Key', async () => {
+    const { store, authenticate } = await createStore();
+    const { key, record } = await store.issue({ principal: 'svc', scopes: ['tools:read', 'tools:write'] });
+
+    const principal = { sub: 'svc', key_id: record.id, scope: 'tools:read tools:write' };
+    expect(await authenticate(withKey({ Authorization: `Bearer ${key}` }))).toEqual(principal);
+    expect(await authenticate(withKey({ 'X-API-Key': key }))).toEqual(principal);
+  });
+
+  it('rejects missing, unknown and revoked keys', async () => {
+    const { store, authenticate } = await createStore();
+    const { key, record } = await store.issue({ principal: 'svc' });
+    await store.revoke(record.id);
+
+    await expect(authenticate(withKey({}))).rejects.toThrow('Missing API key');
+    await expect(authenticate(withKey({ 'X-API-Key': 'mcp_unknown' }))).rejects.toThrow('Invalid or expired API key');
+    await expect(authenticate(withKey({ 'X-API-Key': key }))).rejects.toThrow('Invalid or expired API key');
+  });
+
+  it('authenticates MCP requests', async () => {
+    const { WorkersFastMCP } = await import('../../src/index.js');
+    const { store, authenticate } = await createStore();
+    const { key } = await store.issue({ principal: 'svc-billing', props: { team: 'billing' } });
+
+    const server = new WorkersFastMCP({
+      name: 'API Key Test Server',
+      version: '1.0.0',
+      skipCompatibilityCheck: true,
+      authenticate,
+    });
+    server.addTool({
+      name: 'whoami',
+      description: 'Return the key principal',
+      parameters: z.object({}),
+      execute: async (_args: unknown, context: { session: ApiKeyPrincipal }) =>
+        `${context.session.sub}:${context.session.props?.team}`,
+    });
+    const handler = server.toWorkerHandler();
+
+    const call = (headers: Record<string, string>) =>
+      handler(rpcRequest('tools/call', { name: 'whoami', arguments: {} }, { headers }));
+
+    const response = await call({ 'X-API-Key': key });
+    expect((await response.json()).result.content[0].text).toBe('svc-billing:billing');
+
+    const rejected = await call({ 'X-API-Key': 'mcp_wrong' });
+    expect(rejected.status).toBe(401);
+  });
+});
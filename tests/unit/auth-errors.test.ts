@@ -0,0 +1,125 @@
+/**
+ * Tests for typed auth errors and their WWW-Authenticate challenges
+ */
+
+import { describe, it, expect } from 'vitest';
+import { useWorkersRuntime } from '../helpers/workers.js';
+
+useWorkersRuntime();
+
+const RESOURCE_METADATA = 'https://mcp.example.com/.well-known/oauth-protected-resource';
+
+function mcpRequest() {
+  return new Request('https://mcp.example.com/mcp', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+  });
+}
+
+async function createHandler(error: unknown, oauth?: Record<string, unknown>) {
+  const { WorkersFastMCP } = await import('../../src/index.js');
+
+  const server = new WorkersFastMCP({
+    name: 'Auth Error Test Server',
+    version: '1.0.0',
+    skipCompatibilityCheck: true,
+    authenticate: async () => {
+      throw error;
+    },
+    ...(oauth && { oauth: oauth as any }),
+  });
+
+  return server.toWorkerHandler();
+}
+
+describe('createBearerChallenge', () => {
+  it('includes resource metadata, error and scope parameters', async () => {
+    const { createBearerChallenge, UnauthorizedError, InsufficientScopeError } = await import('../../src/index.js');
+
+    expect(createBearerChallenge(new UnauthorizedError())).toBe('Bearer');
+    expect(createBearerChallenge(new UnauthorizedError(), RESOURCE_METADATA)).toBe(
+      `Bearer resource_metadata="${RESOURCE_METADATA}"`,
+    );
+    expect(createBearerChallenge(new InsufficientScopeError(['billing:read', 'billing:write']))).toBe(
+      'Bearer error="insufficient_scope", error_description="Requires scope billing:read billing:write", scope="billing:read billing:write"',
+    );
+  });
+});
+
+describe('Auth error responses', () => {
+  it('answers UnauthorizedError with 401 and a resource_metadata challenge', async () => {
+    const { UnauthorizedError } = await import('../../src/index.js');
+    const handler = await createHandler(new UnauthorizedError('Token expired', 'invalid_token'), {
+      enabled: true,
+      protectedResource: {
+        resource: 'https://mcp.example.com/mcp',
+        authorizationServers: ['https://auth.example.com'],
+      },
+    });
+
+    const response = await handler(mcpRequest());
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('WWW-Authenticate')).toBe(
+      `Bearer resource_metadata="${RESOURCE_METADATA}", error="invalid_token", error_description="Token expired"`,
+    );
+    expect(await response.json()).toMatchObject({
+      jsonrpc: '2.0',
+      id: null,
+      error: { code: -32000, message: 'Unauthorized', data: 'Token expired' },
+    });
+  });
+
+  it('answers ForbiddenError and InsufficientScopeError with 403', async () => {
+    const { ForbiddenError, InsufficientScopeError } = await import('../../src/index.js');
+
+    const forbidden = await (await createHandler(new ForbiddenError('Account suspended')))(mcpRequest());
+    expect(forbidden.status).toBe(403);
+    expect(forbidden.headers.get('WWW-Authenticate')).toBe('Bearer');
+    expect((await forbidden.json()).error).toMatchObject({ message: 'Forbidden', data: 'Account suspended' });
+
+    const scope = await (await createHandler(new InsufficientScopeError(['admin'])))(mcpRequest());
+    expect(scope.status).toBe(403);
+    expect(scope.headers.get('WWW-Authenticate')).toContain('error="insufficient_scope"');
+    expect(scope.headers.get('WWW-Authenticate')).toContain('scope="admin"');
+  });
+
+  it('answers unexpected authenticator errors with 500 without details', async () => {
+    const handler = await createHandler(new Error('KV unavailable'));
+
+    const response = await handler(mcpRequest());
+
+    expect(response.status).toBe(500);
+    expect(response.headers.get('WWW-Authenticate')).toBeNull();
+    expect((await response.json()).error).toEqual({ code: -32603, message: 'Internal error' });
+  });
+
+  it('answers AuthUnavailableError with 503', async () => {
+    const { AuthUnavailableError } = await import('../../src/index.js');
+    const handler = await createHandler(new AuthUnavailableError('JWKS endpoint down'));
+
+    const response = await handler(mcpRequest());
+
+    expect(response.status).toBe(503);
+    expect(response.headers.get('WWW-Authenticate')).toBeNull();
+    expect((await response.json()).error).toEqual({ code: -32603, message: 'Service Unavailable' });
+  });
+
+  it('lets discovery and preflight requests through without credentials', async () => {
+    const { UnauthorizedError } = await import('../../src/index.js');
+    const handler = await createHandler(new UnauthorizedError(), {
+      enabled: true,
+      protectedResource: {
+        resource: 'https://mcp.example.com/mcp',
+        authorizationServers: ['https://auth.example.com'],
+      },
+    });
+
+    const metadata = await handler(new Request(RESOURCE_METADATA));
+    expect(metadata.status).toBe(200);
+
+    const preflight = await handler(new Request('https://mcp.example.com/mcp', { method: 'OPTIONS' }));
+    expect(preflight.status).not.toBe(401);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Tests for request body size enforcement in WorkersTransport
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { useWorkersRuntime } from '../helpers/workers.js';
+
+useWorkersRuntime();
+
+async function createServer() {
+  const { WorkersFastMCP } = await import('../../src/index.js');
+
+  const server = new WorkersFastMCP({
+    name: 'Body Limit Test Server',
+    version: '1.0.0',
+    skipCompatibilityCheck: true,
+    transport: {
+      maxBodySize: 1024,
+      methodBodyLimits: { 'tools/call': 8 * 1024 },
+    },
+  });
+
+  server.addTool({
+    name: 'length',
+    description: 'Measure a string',
+    parameters: z.object({ text: z.string() }),
+    execute: async (args: { text: string }) => String(args.text.length),
+  });
+
+  return server.toWorkerHandler();
+}
+
+/**
+ * Build a chunked request without a Content-Length header
+ */
+function streamedRequest(body: string, chunkSize = 256) {
+  const encoder = new TextEncoder();
+  let offset = 0;
+
+  const stream = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (offset >= body.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(encoder.encode(body.slice(offset, offset + chunkSize)));
+      offset += chunkSize;
+    },
+  });
+
+  return new Request('https://example.com/mcp', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: stream,
+    duplex: 'half',
+  } as RequestInit);
+}
+
+function callLength(text: string, id = 1) {
+  return JSON.stringify({ jsonrpc: '2.0', id, method: 'tools/call', params: { name: 'length', arguments: { text } } });
+}
+
+describe('Body size limits', () => {
+  it('rejects streamed bodies over the limit without a Content-Length', async () => {
+    const handler = await createServer();
+    const request = streamedRequest(callLength('x'.repeat(20 * 1024)));
+
+    expect(request.headers.get('content-length')).toBeNull();
+
+    const response = await handler(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(413);
+    expect(body).toMatchObject({ jsonrpc: '2.0', id: null, error: { code: -32600, message: 'Payload Too Large' } });
+  });
+
+  it('rejects declared Content-Length over every limit before reading', async () => {
+    const handler = await createServer();
+
+    const response = await handler(
+      new Request('https://example.com/mcp', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Content-Length': String(1024 * 1024) },
+        body: '{}',
+      }),
+    );
+
+    expect(response.status).toBe(413);
+  });
+
+  it('allows larger bodies for methods with their own limit', async () => {
+    const handler = await createServer();
+
+    const response = await handler(streamedRequest(callLength('x'.repeat(4 * 1024))));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.result.content[0].text).toBe(String(4 * 1024));
+  });
+
+  it('applies the default limit to other methods', async () => {
+    const handler = await createServer();
+    const payload = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: { padding: 'x'.repeat(2048) } });
+
+    const response = await handler(streamedRequest(payload));
+
+    expect(response.status).toBe(413);
+    expect((await response.json()).error.data).toBe('Request body exceeds 1024 bytes');
+  });
+});
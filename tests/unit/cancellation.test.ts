@@ -0,0 +1,163 @@
+/**
+ * Tests for aborting tool execution through the request's AbortSignal
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { useWorkersRuntime } from '../helpers/workers.js';
+
+useWorkersRuntime();
+
+async function createServer(transport: Record<string, unknown> = {}) {
+  const { WorkersFastMCP } = await import('../../src/index.js');
+  const signals: AbortSignal[] = [];
+
+  const server = new WorkersFastMCP({
+    name: 'Cancellation Test Server',
+    version: '1.0.0',
+    skipCompatibilityCheck: true,
+    transport,
+  });
+
+  server.addTool({
+    name: 'wait',
+    description: 'Wait until aborted',
+    parameters: z.object({}),
+    execute: async (_args: unknown, context: any) => {
+      const signal: AbortSignal = context.signal;
+      signals.push(signal);
+
+      await new Promise((resolve) => signal.addEventListener('abort', resolve, { once: true }));
+      return `aborted: ${signal.reason instanceof Error ? signal.reason.message : String(signal.reason)}`;
+    },
+  });
+
+  return { handler: server.toWorkerHandler(), signals };
+}
+
+function post(body: unknown, init: { headers?: Record<string, string>; signal?: AbortSignal } = {}) {
+  return new Request('https://example.com/mcp', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...init.headers },
+    body: JSON.stringify(body),
+    ...(init.signal && { signal: init.signal }),
+  });
+}
+
+const callWait = (id: number) => ({ jsonrpc: '2.0', id, method: 'tools/call', params: { name: 'wait', arguments: {} } });
+
+/**
+ * Wait until the tool has started running
+ */
+async function untilStarted(signals: AbortSignal[], count = 1) {
+  while (signals.length < count) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+describe('Cancellation', () => {
+  it('aborts the tool when the transport timeout expires', async () => {
+    const { handler, signals } = await createServer({ timeout: 100 });
+
+    const response = await handler(post(callWait(1)));
+
+    expect(response.status).toBe(504);
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[0].reason.message).toBe('Request timeout');
+  });
+
+  it('aborts the tool when the client disconnects', async () => {
+    const { handler, signals } = await createServer();
+    const client = new AbortController();
+
+    const pending = handler(post(callWait(2), { signal: client.signal }));
+    await untilStarted(signals);
+    client.abort(new Error('Client went away'));
+
+    const body = await (await pending).json();
+    expect(body.result.content[0].text).toBe('aborted: Client went away');
+  });
+
+  it('aborts the tool on notifications/cancelled for the same session', async () => {
+    const { handler, signals } = await createServer({
+      streamable: { enabled: true, enableJsonResponse: true, sessionIdGenerator: () => 'session-1' },
+    });
+    const headers = { 'Mcp-Session-Id': 'session-1' };
+
+    const pending = handler(post(callWait(3), { headers }));
+    await untilStarted(signals);
+
+    const cancel = await handler(
+      post(
+        { jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 3, reason: 'User cancelled' } },
+        { headers },
+      ),
+    );
+    expect(cancel.status).toBe(202);
+
+    const body = await (await pending).json();
+    expect(body.result.content[0].text).toBe('aborted: User cancelled');
+  });
+
+  it('aborts the tool on notifications/cancelled outside a session', async () => {
+    const { handler, signals } = await createServer();
+
+    const pending = handler(post(callWait(5)));
+    await untilStarted(signals);
+
+    const cancel = await handler(
+      post({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 5, reason: 'User cancelled' } }),
+    );
+    expect(cancel.status).toBe(202);
+
+    const body = await (await pending).json();
+    expect(body.result.content[0].text).toBe('aborted: User cancelled');
+  });
+
+  it('ignores cancellations from other callers outside a session', async () => {
+    const { WorkersTransport } = await import('../../src/index.js');
+    const transport = new WorkersTransport({
+      timeout: 200,
+      identify: async (request) => request.headers.get('X-Caller') ?? 'public',
+    });
+    const signals: AbortSignal[] = [];
+    transport.addEventListener('message', (message: { method: string; _signal: AbortSignal }) => {
+      if (message.method === 'tools/call') {
+        signals.push(message._signal);
+      }
+    });
+
+    const pending = transport.handleRequest(post(callWait(6), { headers: { 'X-Caller': 'alice' } }));
+    await untilStarted(signals);
+
+    await transport.handleRequest(
+      post(
+        { jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 6 } },
+        { headers: { 'X-Caller': 'mallory' } },
+      ),
+    );
+
+    expect(signals[0].aborted).toBe(false);
+    expect((await pending).status).toBe(504);
+  });
+
+  it('ignores cancellations from other sessions', async () => {
+    const { handler, signals } = await createServer({
+      timeout: 200,
+      streamable: { enabled: true, enableJsonResponse: true },
+    });
+
+    const pending = handler(post(callWait(4), { headers: { 'Mcp-Session-Id': 'session-a' } }));
+    await untilStarted(signals);
+
+    await handler(
+      post(
+        { jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 4 } },
+        { headers: { 'Mcp-Session-Id': 'session-b' } },
+      ),
+    );
+
+    expect(signals[0].aborted).toBe(false);
+    expect((await pending).status).toBe(504);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Tests for the D1 toolkit: schema resources and the guarded query tool
+ */
+
+import { describe, it, expect } from 'vitest';
+import { rpcCall, rpcRequest, useWorkersRuntime } from '../helpers/workers.js';
+
+useWorkersRuntime();
+
+const TABLES = [
+  { name: 'orders', sql: 'CREATE TABLE orders (id INTEGER PRIMARY KEY, user_id INTEGER, total REAL)' },
+  { name: 'secrets', sql: 'CREATE TABLE secrets (id INTEGER PRIMARY KEY, value TEXT)' },
+  { name: 'users', sql: 'CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL)' },
+];
+
+const USERS = [
+  { id: 1, name: 'Ada' },
+  { id: 2, name: 'Grace | Hopper' },
+  { id: 3, name: null },
+];
+
+/**
+ * D1 stand-in answering the toolkit's schema queries and returning USERS for anything else
+ */
+function createDatabase() {
+  const executed: { sql: string; params: unknown[] }[] = [];
+
+  const database: Partial<D1Database> = {
+    prepare: (sql: string) => {
+      let params: unknown[] = [];
+      const statement: Partial<D1PreparedStatement> = {
+        bind: (...values: unknown[]) => {
+          params = values;
+          return statement as D1PreparedStatement;
+        },
+        all: (async () => {
+          executed.push({ sql, params });
+          if (sql.includes('sqlite_master')) {
+            return { results: TABLES, success: true, meta: { changes: 0 } };
+          }
+          if (sql.startsWith('PRAGMA table_info')) {
+            return {
+              results: [
+                { cid: 0, name: 'id', type: 'INTEGER', notnull: 0, dflt_value: null, pk: 1 },
+                { cid: 1, name: 'name', type: 'TEXT', notnull: 1, dflt_value: null, pk: 0 },
+              ],
+              success: true,
+              meta: { changes: 0 },
+            };
+          }
+          if (/^\s*(UPDATE|INSERT|DELETE)/i.test(sql)) {
+            return { results: [], success: true, meta: { changes: 2 } };
+          }
+          return { results: USERS, success: true, meta: { changes: 0 } };
+        }) as D1PreparedStatement['all'],
+      };
+      return statement as D1PreparedStatement;
+    },
+  };
+
+  return { database: database as D1Database, executed };
+}
+
+async function createHandler(options: Record<string, unknown> = {}) {
+  const { WorkersFastMCP } = await import('../../src/index.js');
+  const { database, executed } = createDatabase();
+
+  const server = new WorkersFastMCP({
+    name: 'D1 Toolkit Test Server',
+    version: '1.0.0',
+    skipCompatibilityCheck: true,
+  });
+
+  server.addD1Toolkit({ binding: 'DB', allowedTables: ['users', 'orders'], ...options });
+
+  const handler = server.toWorkerHandler();
+  const call = (method: string, params?: Record<string, unknown>) =>
+    rpcCall(handler, { DB: database }, rpcRequest(method, params));
+  const query = async (sql: string, params?: unknown[]) =>
+    (await call('tools/call', { name: 'query', arguments: { sql, ...(params && { params }) } })).result;
+
+  return { call, query, executed };
+}
+
+describe('addD1Toolkit', () => {
+  it('lists and reads the schemas of the allowed tables', async () => {
+    const { call } = await createHandler();
+
+    const list = (await call('resources/list')).result;
+    expect(list.resources.map((resource: { uri: string }) => resource.uri)).toEqual(['d1://orders/schema', 'd1://users/schema']);
+
+    const schema = (await call('resources/read', { uri: 'd1://users/schema' })).result;
+    expect(schema.contents[0].mimeType).toBe('application/json');
+    expect(JSON.parse(schema.contents[0].text)).toEqual({
+      table: 'users',
+      columns: [
+        { name: 'id', type: 'INTEGER', notNull: false, defaultValue: null, primaryKey: true },
+        { name: 'name', type: 'TEXT', notNull: true, defaultValue: null, primaryKey: false },
+      ],
+      sql: TABLES[2]!.sql,
+    });
+
+    expect((await call('resources/read', { uri: 'd1://secrets/schema' })).error).toMatchObject({ code: -32002 });
+  });
+
+  it('returns rows as a text table and structured content', async () => {
+    const { query, executed } = await createHandler();
+
+    const result = await query('SELECT id, name FROM users WHERE id > ?', [0]);
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0].text).toBe(
+      ['| id | name |', '| --- | --- |', '| 1 | Ada |', '| 2 | Grace \\| Hopper |', '| 3 | NULL |'].join('\n'),
+    );
+    expect(result.structuredContent).toEqual({
+      columns: ['id', 'name'],
+      rows: USERS,
+      rowCount: 3,
+      truncated: false,
+      changes: 0,
+    });
+    expect(executed.at(-1)).toEqual({
+      sql: 'SELECT * FROM (\nSELECT id, name FROM users WHERE id > ?\n) LIMIT 101',
+      params: [0],
+    });
+  });
+
+  it('caps the rows returned', async () => {
+    const { query, executed } = await createHandler({ maxRows: 2 });
+
+    const result = await query('SELECT * FROM users -- all of them ;');
+    expect(executed.at(-1)!.sql).toBe('SELECT * FROM (\nSELECT * FROM users -- all of them ;\n) LIMIT 3');
+
+    expect(result.structuredContent).toMatchObject({ rowCount: 2, truncated: true });
+    expect(result.content[0].text).toContain('Showing the first 2 rows.');
+  });
+
+  it('rejects writes, multiple statements and other tables in read-only mode', async () => {
+    const { query, executed } = await createHandler();
+
+    for (const sql of [
+      'DELETE FROM users',
+      "INSERT OR REPLACE INTO users (name) VALUES ('x')",
+      'WITH old AS (SELECT id FROM users) DELETE FROM users WHERE id IN old',
+      'SELECT * FROM users; DROP TABLE users',
+      'SELECT * FROM secrets',
+      'SELECT * FROM users u JOIN "secrets" s ON s.id = u.id',
+      'SELECT * FROM users, main.secrets',
+      "SELECT * FROM pragma_table_info('secrets')",
+      'SELECT * FROM (secrets)',
+      'SELECT * FROM (users JOIN orders ON orders.user_id = users.id), secrets',
+      'SELECT * FROM users WHERE id IN (SELECT id FROM secrets)',
+      'SELECT * FROM users, secrets WINDOW w1 AS (ORDER BY 1), secrets AS (ORDER BY 1)',
+      'WITH recent AS (SELECT * FROM orders) SELECT * FROM recent, secrets',
+      // Unbalanced parentheses would escape the row limit subquery
+      'SELECT 1 FROM users) JOIN secrets ON (1',
+      'SELECT * FROM (users',
+    ]) {
+      const result = await query(sql);
+      expect(result.isError, sql).toBe(true);
+    }
+
+    expect(executed).toEqual([]);
+  });
+
+  it('accepts common table expressions, comments and keywords inside strings', async () => {
+    const { query } = await createHandler();
+
+    for (const sql of [
+      'WITH recent AS (SELECT * FROM orders) SELECT * FROM recent JOIN users ON users.id = recent.user_id;',
+      "SELECT name FROM users WHERE name = 'DELETE FROM secrets' -- FROM secrets",
+      "SELECT replace(name, 'a', 'b') FROM users",
+      'SELECT * FROM users AS u, orders o WHERE u.id = o.user_id',
+      'SELECT * FROM (users u JOIN orders o ON o.user_id = u.id) LEFT JOIN (SELECT * FROM orders) recent',
+      'WITH RECURSIVE ids(n) AS (SELECT 1 UNION ALL SELECT n + 1 FROM ids) SELECT * FROM users, ids',
+      "SELECT users.name, value FROM users, json_each('[1, 2]') JOIN orders ON orders.id = value",
+      'SELECT * FROM users WHERE name IS NOT DISTINCT FROM id',
+    ]) {
+      const result = await query(sql);
+      expect(result.isError, sql).toBeUndefined();
+    }
+  });
+
+  it('allows data changes when not read-only', async () => {
+    const { call, query } = await createHandler({ readOnly: false });
+
+    const result = await query("UPDATE users SET name = ? WHERE name = 'x'", ['y']);
+    expect(result.content[0].text).toBe('2 rows changed');
+    expect(result.structuredContent).toMatchObject({ changes: 2 });
+
+    expect((await query('DROP TABLE users')).isError).toBe(true);
+    expect((await query('INSERT INTO secrets (value) VALUES (?)', ['x'])).isError).toBe(true);
+
+    const tools = (await call('tools/list')).result.tools;
+    expect(tools[0].annotations).toMatchObject({ destructiveHint: true });
+  });
+});
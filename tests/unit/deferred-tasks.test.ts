@@ -0,0 +1,202 @@
+/**
+ * Tests for deferred tool calls run from a Queue consumer
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import type { TaskData, TaskStore } from '../../src/index.js';
+import {
+  createMemoryCache,
+  createMessageBatch,
+  rpcCall,
+  rpcRequest,
+  setWorkersGlobals,
+  useWorkersRuntime,
+} from '../helpers/workers.js';
+
+useWorkersRuntime();
+
+interface ReportContext {
+  session: { sub: string };
+  env: { REGION: string };
+  reportProgress: (progress: { progress: number; total: number }) => Promise<void>;
+}
+
+async function createHandler(options: { store?: TaskStore; writeIntervalMs?: number; cache?: boolean } = {}) {
+  const { WorkersFastMCP, MemoryTaskStore } = await import('../../src/index.js');
+  const sent: unknown[] = [];
+  const store = options.store ?? new MemoryTaskStore();
+
+  const server = new WorkersFastMCP({
+    name: 'Deferred Task Test Server',
+    version: '1.0.0',
+    skipCompatibilityCheck: true,
+    authenticate: async (request: Request) => ({ sub: request.headers.get('X-User') ?? 'anonymous' }),
+    tasks: { queue: 'TASKS', store, writeIntervalMs: options.writeIntervalMs ?? 10 },
+    ...(options.cache && { cache: { ttlSeconds: 60 } }),
+  });
+
+  server.addTool({
+    name: 'report',
+    description: 'Slow report',
+    parameters: z.object({ topic: z.string() }),
+    deferred: true,
+    execute: async ({ topic }: { topic: string }, context: ReportContext) => {
+      await context.reportProgress({ progress: 1, total: 2 });
+      if (topic === 'broken') {
+        throw new Error('Report source unavailable');
+      }
+      if (topic === 'chatty') {
+        for (let step = 2; step <= 10; step++) {
+          await context.reportProgress({ progress: step, total: 10 });
+        }
+      }
+      return {
+        content: [{ type: 'text', text: `Report on ${topic} for ${context.session.sub} (${context.env.REGION})` }],
+        structuredContent: { topic, pages: 3 },
+      };
+    },
+  });
+
+  const env = { TASKS: { send: async (body: unknown) => void sent.push(body) }, REGION: 'weur' };
+  const handler = server.toWorkerHandler();
+  const call = (method: string, params: Record<string, unknown>, user = 'alice') =>
+    rpcCall(handler, env, rpcRequest(method, params, { headers: { 'X-User': user } }));
+  const callTool = (name: string, args: Record<string, unknown>, user?: string) =>
+    call('tools/call', { name, arguments: args }, user);
+
+  // Deliver the sent messages to the consumer as one batch
+  const consume = async () => {
+    const { batch, outcomes } = createMessageBatch(sent.splice(0));
+    await server.handleTaskQueue(batch, env);
+    return outcomes;
+  };
+
+  return { server, store, sent, call, callTool, consume };
+}
+
+describe('Deferred tools', () => {
+  it('enqueues the call and answers with a task ID', async () => {
+    const { sent, store, callTool } = await createHandler();
+
+    const response = await callTool('report', { topic: 'sales' });
+    const { taskId, status, uri } = response.result.structuredContent;
+
+    expect(status).toBe('queued');
+    expect(uri).toBe(`task://${taskId}`);
+    expect(response.result.content[0].text).toContain('task_status');
+    expect(sent).toEqual([{ type: 'fastmcp-cloudflare/task', taskId }]);
+    expect(await store.get(taskId)).toMatchObject({ tool: 'report', owner: 'sub:alice', status: 'queued' });
+  });
+
+  it('runs queued calls with the caller auth and env and serves the result', async () => {
+    const { callTool, consume } = await createHandler();
+
+    const { taskId } = (await callTool('report', { topic: 'sales' })).result.structuredContent;
+    expect((await callTool('task_status', { taskId })).result.content[0].text).toBe(`Task ${taskId} is queued`);
+
+    expect(await consume()).toEqual(['ack']);
+
+    const status = await callTool('task_status', { taskId });
+    expect(status.result.content[0].text).toBe('Report on sales for alice (weur)');
+    expect(status.result.structuredContent).toEqual({
+      taskId,
+      status: 'completed',
+      progress: { progress: 1, total: 2 },
+      result: { topic: 'sales', pages: 3 },
+    });
+  });
+
+  it('records failed calls', async () => {
+    const { callTool, consume } = await createHandler();
+
+    const { taskId } = (await callTool('report', { topic: 'broken' })).result.structuredContent;
+    expect(await consume()).toEqual(['ack']);
+
+    const status = await callTool('task_status', { taskId });
+    expect(status.result.isError).toBe(true);
+    expect(status.result.structuredContent.status).toBe('failed');
+  });
+
+  it('serves tasks as resources to their owner only', async () => {
+    const { call, callTool, consume } = await createHandler();
+
+    const { taskId } = (await callTool('report', { topic: 'sales' })).result.structuredContent;
+    await consume();
+
+    const read = await call('resources/read', { uri: `task://${taskId}` });
+    const task = JSON.parse(read.result.contents[0].text);
+    expect(task).toMatchObject({ id: taskId, tool: 'report', status: 'completed' });
+    expect(task.auth).toBeUndefined();
+    expect(task.owner).toBeUndefined();
+
+    expect((await call('resources/read', { uri: `task://${taskId}` }, 'bob')).error).toBeDefined();
+    expect((await callTool('task_status', { taskId }, 'bob')).result.content[0].text).toContain('not found');
+  });
+
+  it('keeps task resources out of the result cache', async () => {
+    const { entries, cache } = createMemoryCache();
+    setWorkersGlobals({ default: cache });
+    const { call, callTool, consume } = await createHandler({ cache: true });
+
+    const { taskId } = (await callTool('report', { topic: 'sales' })).result.structuredContent;
+    const queued = await call('resources/read', { uri: `task://${taskId}` });
+    expect(JSON.parse(queued.result.contents[0].text).status).toBe('queued');
+
+    await consume();
+
+    const completed = await call('resources/read', { uri: `task://${taskId}` });
+    expect(JSON.parse(completed.result.contents[0].text).status).toBe('completed');
+    expect(completed.result._meta).toBeUndefined();
+    expect(entries.size).toBe(0);
+    setWorkersGlobals();
+  });
+
+  it('leaves other queue messages alone and skips finished tasks', async () => {
+    const { sent, callTool, consume } = await createHandler();
+
+    await callTool('report', { topic: 'sales' });
+    const [message] = sent;
+    await consume();
+
+    sent.push({ other: true }, message);
+    expect(await consume()).toEqual(['ack']);
+  });
+
+  it('coalesces progress writes and survives failed ones', async () => {
+    const { MemoryTaskStore } = await import('../../src/index.js');
+    const memory = new MemoryTaskStore();
+    const writes: { status: string; progress: number | undefined; at: number }[] = [];
+    const store: TaskStore = {
+      get: (taskId) => memory.get(taskId),
+      delete: (taskId) => memory.delete(taskId),
+      set: async (task: TaskData) => {
+        writes.push({ status: task.status, progress: task.progress?.progress, at: Date.now() });
+        if (task.status === 'running' && task.progress) {
+          throw new Error('Too many requests');
+        }
+        await memory.set(task);
+      },
+    };
+    const { callTool, consume } = await createHandler({ store, writeIntervalMs: 100 });
+
+    const { taskId } = (await callTool('report', { topic: 'chatty' })).result.structuredContent;
+    expect(await consume()).toEqual(['ack']);
+
+    const task = await memory.get(taskId);
+    expect(task).toMatchObject({ status: 'completed', progress: { progress: 10, total: 10 } });
+
+    const running = writes.filter((write) => write.status !== 'queued');
+    expect(running.length).toBeLessThanOrEqual(3);
+    running.slice(1).forEach((write, index) => expect(write.at - running[index]!.at).toBeGreaterThanOrEqual(99));
+  });
+
+  it('rejects deferred tools without the tasks option', async () => {
+    const { WorkersFastMCP } = await import('../../src/index.js');
+    const server = new WorkersFastMCP({ name: 'No Tasks', version: '1.0.0', skipCompatibilityCheck: true });
+
+    expect(() =>
+      server.addTool({ name: 'report', description: 'Slow', deferred: true, execute: async () => 'done' }),
+    ).toThrow('no tasks queue is configured');
+  });
+});
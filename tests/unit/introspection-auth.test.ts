@@ -0,0 +1,134 @@
+/**
+ * Tests for OAuth token introspection (RFC 7662) authentication
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { useWorkersRuntime } from '../helpers/workers.js';
+
+useWorkersRuntime();
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  (globalThis as any).caches = {};
+});
+
+const ENDPOINT = 'https://auth.example.com/oauth/introspect';
+
+function mockIntrospection(result: Record<string, unknown>) {
+  return vi.spyOn(globalThis, 'fetch').mockImplementation(async () => {
+    return new Response(JSON.stringify(result), { headers: { 'Content-Type': 'application/json' } });
+  });
+}
+
+function mockCache() {
+  const store = new Map<string, Response>();
+  (globalThis as any).caches = {
+    open: async () => ({
+      match: async (request: Request) => store.get(request.url)?.clone(),
+      put: async (request: Request, response: Response) => void store.set(request.url, response),
+    }),
+  };
+  return store;
+}
+
+function bearer(token: string) {
+  return new Request('https://mcp.example.com/mcp', { headers: { Authorization: `Bearer ${token}` } });
+}
+
+async function createAuthenticator(options: Record<string, unknown> = {}) {
+  const { introspectionAuthenticator } = await import('../../src/index.js');
+  return introspectionAuthenticator({
+    introspectionEndpoint: ENDPOINT,
+    clientId: 'mcp-server',
+    clientSecret: (env: any) => env.INTROSPECTION_SECRET,
+    ...options,
+  });
+}
+
+const ENV = { INTROSPECTION_SECRET: 's3cret' };
+
+describe('introspectionAuthenticator', () => {
+  it('introspects tokens with client credentials and returns their claims', async () => {
+    const exp = Math.floor(Date.now() / 1000) + 600;
+    const fetchSpy = mockIntrospection({ active: true, sub: 'user-1', scope: 'tools:read', client_id: 'app', exp });
+    const authenticate = await createAuthenticator();
+
+    const claims = await authenticate(bearer('opaque-token'), ENV);
+
+    expect(claims).toEqual({ sub: 'user-1', scope: 'tools:read', client_id: 'app', exp });
+    const [url, init] = fetchSpy.mock.calls[0]! as [string, RequestInit];
+    expect(url).toBe(ENDPOINT);
+    expect((init.headers as Record<string, string>).Authorization).toBe(`Basic ${btoa('mcp-server:s3cret')}`);
+    expect(String(init.body)).toContain('token=opaque-token');
+  });
+
+  it('sends credentials in the body with client_secret_post', async () => {
+    const fetchSpy = mockIntrospection({ active: true, sub: 'user-1' });
+    const authenticate = await createAuthenticator({ authMethod: 'client_secret_post' });
+
+    await authenticate(bearer('opaque-token'), ENV);
+
+    const body = new URLSearchParams(String((fetchSpy.mock.calls[0]![1] as RequestInit).body));
+    expect(body.get('client_id')).toBe('mcp-server');
+    expect(body.get('client_secret')).toBe('s3cret');
+  });
+
+  it('rejects inactive tokens', async () => {
+    mockIntrospection({ active: false });
+    const authenticate = await createAuthenticator();
+
+    await expect(authenticate(bearer('revoked'), ENV)).rejects.toThrow('Token is not active');
+  });
+
+  it('reports failed or unreadable introspection responses as unavailable', async () => {
+    const { AuthUnavailableError } = await import('../../src/index.js');
+    const authenticate = await createAuthenticator();
+
+    for (const response of [
+      new Response('Bad gateway', { status: 502 }),
+      new Response('<html>maintenance</html>', { status: 200 }),
+      new Response('null', { status: 200 }),
+    ]) {
+      vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(response);
+      await expect(authenticate(bearer('token'), ENV)).rejects.toBeInstanceOf(AuthUnavailableError);
+    }
+  });
+
+  it('caches active results until the token expires', async () => {
+    const store = mockCache();
+    const exp = Math.floor(Date.now() / 1000) + 60;
+    const fetchSpy = mockIntrospection({ active: true, sub: 'user-1', exp });
+    const authenticate = await createAuthenticator();
+
+    await authenticate(bearer('opaque-token'), ENV);
+    await authenticate(bearer('opaque-token'), ENV);
+
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    const [key, cached] = [...store.entries()][0]!;
+    expect(key).not.toContain('opaque-token');
+    expect(Number(cached.headers.get('Cache-Control')!.replace('max-age=', ''))).toBeLessThanOrEqual(60);
+  });
+
+  it('does not cache inactive results', async () => {
+    const store = mockCache();
+    mockIntrospection({ active: false });
+    const authenticate = await createAuthenticator();
+
+    await expect(authenticate(bearer('revoked'), ENV)).rejects.toThrow();
+
+    expect(store.size).toBe(0);
+  });
+
+  it('checks audience and required scopes', async () => {
+    mockIntrospection({ active: true, sub: 'user-1', aud: 'https://other.example.com', scope: 'tools:read' });
+
+    await expect(
+      (await createAuthenticator({ audience: 'https://mcp.example.com' }))(bearer('token'), ENV),
+    ).rejects.toThrow('Token not issued for this audience');
+
+    const { InsufficientScopeError } = await import('../../src/index.js');
+    await expect(
+      (await createAuthenticator({ requiredScopes: ['tools:write'] }))(bearer('token'), ENV),
+    ).rejects.toBeInstanceOf(InsufficientScopeError);
+  });
+});
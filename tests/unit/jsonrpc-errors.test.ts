@@ -0,0 +1,152 @@
+/**
+ * Tests for JSON-RPC error envelopes and their HTTP status mapping
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import { useWorkersRuntime } from '../helpers/workers.js';
+
+useWorkersRuntime();
+
+async function createServer() {
+  const { WorkersFastMCP, UserError } = await import('../../src/index.js');
+
+  const server = new WorkersFastMCP({
+    name: 'Error Test Server',
+    version: '1.0.0',
+    skipCompatibilityCheck: true,
+    transport: { timeout: 100 },
+  });
+
+  server.addTool({
+    name: 'reject',
+    description: 'Fail with a user-facing error',
+    parameters: z.object({}),
+    execute: async () => {
+      throw new UserError('Nothing to do');
+    },
+  });
+
+  server.addTool({
+    name: 'slow',
+    description: 'Take longer than the transport timeout',
+    parameters: z.object({}),
+    execute: async () => {
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      return 'done';
+    },
+  });
+
+  return server.toWorkerHandler();
+}
+
+function post(body: string) {
+  return new Request('https://example.com/mcp', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body,
+  });
+}
+
+describe('JSON-RPC errors', () => {
+  it('answers malformed JSON with a -32700 parse error', async () => {
+    const handler = await createServer();
+
+    const response = await handler(post('{"jsonrpc": "2.0",'));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+  });
+
+  it('answers an invalid message with -32600 and its id', async () => {
+    const handler = await createServer();
+
+    const response = await handler(post(JSON.stringify({ id: 7, method: 'tools/list' })));
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body).toMatchObject({ jsonrpc: '2.0', id: 7, error: { code: -32600 } });
+  });
+
+  it('answers invalid batch entries individually', async () => {
+    const handler = await createServer();
+
+    const response = await handler(
+      post(JSON.stringify([{ jsonrpc: '2.0', id: 1, method: 'ping' }, { jsonrpc: '2.0', id: 2 }, 42])),
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toEqual([
+      { jsonrpc: '2.0', id: 1, result: {} },
+      { jsonrpc: '2.0', id: 2, error: { code: -32600, message: 'Invalid Request' } },
+      { jsonrpc: '2.0', id: null, error: { code: -32600, message: 'Invalid Request' } },
+    ]);
+  });
+
+  it('reports UserError from tools as an isError result', async () => {
+    const handler = await createServer();
+
+    const response = await handler(
+      post(JSON.stringify({ jsonrpc: '2.0', id: 3, method: 'tools/call', params: { name: 'reject', arguments: {} } })),
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.result).toEqual({ content: [{ type: 'text', text: 'Nothing to do' }], isError: true });
+  });
+
+  it('answers timeouts with -32001, the request id and a 504', async () => {
+    const handler = await createServer();
+
+    const response = await handler(
+      post(JSON.stringify({ jsonrpc: '2.0', id: 'slow-1', method: 'tools/call', params: { name: 'slow', arguments: {} } })),
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(504);
+    expect(body).toEqual({ jsonrpc: '2.0', id: 'slow-1', error: { code: -32001, message: 'Request timeout' } });
+  });
+});
+
+describe('Error response helpers', () => {
+  it('maps error codes to HTTP statuses', async () => {
+    const { getHttpStatusForError, JsonRpcErrorCode } = await import('../../src/index.js');
+
+    expect(getHttpStatusForError(JsonRpcErrorCode.ParseError)).toBe(400);
+    expect(getHttpStatusForError(JsonRpcErrorCode.InvalidRequest)).toBe(400);
+    expect(getHttpStatusForError(JsonRpcErrorCode.MethodNotFound)).toBe(404);
+    expect(getHttpStatusForError(JsonRpcErrorCode.InvalidParams)).toBe(400);
+    expect(getHttpStatusForError(JsonRpcErrorCode.InternalError)).toBe(500);
+    expect(getHttpStatusForError(JsonRpcErrorCode.RequestTimeout)).toBe(504);
+    expect(getHttpStatusForError(-32050)).toBe(500);
+  });
+
+  it('builds full envelopes from thrown errors', async () => {
+    const { createErrorResponse, toJsonRpcError, JsonRpcError } = await import('../../src/index.js');
+
+    const response = createErrorResponse(toJsonRpcError(new JsonRpcError(-32602, 'Invalid params', { field: 'a' })), {
+      id: 9,
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      jsonrpc: '2.0',
+      id: 9,
+      error: { code: -32602, message: 'Invalid params', data: { field: 'a' } },
+    });
+  });
+
+  it('keeps the details of unexpected errors on the server', async () => {
+    const { toJsonRpcError, UserError } = await import('../../src/index.js');
+    const log = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const error = new Error('D1_ERROR: no such column: secret');
+    expect(toJsonRpcError(error)).toEqual({ code: -32603, message: 'Internal error' });
+    expect(toJsonRpcError('boom')).toEqual({ code: -32603, message: 'Internal error' });
+    expect(log).toHaveBeenCalledWith(expect.any(String), error);
+
+    expect(toJsonRpcError(new UserError('Quota exceeded'))).toEqual({ code: -32603, message: 'Quota exceeded' });
+    log.mockRestore();
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Tests for JWT bearer authentication with JWKS caching
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { z } from 'zod';
+import { useWorkersRuntime } from '../helpers/workers.js';
+
+useWorkersRuntime();
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  (globalThis as any).caches = {};
+});
+
+const JWKS_URI = 'https://issuer.example.com/.well-known/jwks.json';
+const ISSUER = 'https://issuer.example.com';
+const AUDIENCE = 'https://mcp.example.com';
+
+const ALGORITHMS = {
+  RS256: {
+    generate: {
+      name: 'RSASSA-PKCS1-v1_5',
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: 'SHA-256',
+    },
+    sign: { name: 'RSASSA-PKCS1-v1_5' },
+  },
+  ES256: {
+    generate: { name: 'ECDSA', namedCurve: 'P-256' },
+    sign: { name: 'ECDSA', hash: 'SHA-256' },
+  },
+  EdDSA: {
+    generate: { name: 'Ed25519' },
+    sign: { name: 'Ed25519' },
+  },
+} as const;
+
+type Alg = keyof typeof ALGORITHMS;
+
+function base64Url(data: Uint8Array | string) {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+async function createKey(alg: Alg, kid: string) {
+  const pair = (await crypto.subtle.generateKey(ALGORITHMS[alg].generate as any, true, [
+    'sign',
+    'verify',
+  ])) as CryptoKeyPair;
+  const jwk = { ...(await crypto.subtle.exportKey('jwk', pair.publicKey)), kid, alg };
+
+  const sign = async (claims: Record<string, unknown>) => {
+    const header = base64Url(JSON.stringify({ alg, kid, typ: 'JWT' }));
+    const payload = base64Url(JSON.stringify(claims));
+    const signature = await crypto.subtle.sign(
+      ALGORITHMS[alg].sign as any,
+      pair.privateKey,
+      new TextEncoder().encode(`${header}.${payload}`),
+    );
+    return `${header}.${payload}.${base64Url(new Uint8Array(signature))}`;
+  };
+
+  return { jwk, sign };
+}
+
+function validClaims(overrides: Record<string, unknown> = {}) {
+  const now = Math.floor(Date.now() / 1000);
+  return { iss: ISSUER, aud: AUDIENCE, sub: 'user-1', iat: now, exp: now + 300, scope: 'tools:read', ...overrides };
+}
+
+function mockJwks(...keySets: unknown[][]) {
+  let call = 0;
+  return vi.spyOn(globalThis, 'fetch').mockImplementation(async () => {
+    const keys = keySets[Math.min(call++, keySets.length - 1)];
+    return new Response(JSON.stringify({ keys }), { headers: { 'Content-Type': 'application/json' } });
+  });
+}
+
+function bearer(token: string) {
+  return new Request('https://mcp.example.com/mcp', { headers: { Authorization: `Bearer ${token}` } });
+}
+
+async function createAuthenticator(options: Record<string, unknown> = {}) {
+  const { jwtAuthenticator } = await import('../../src/index.js');
+  return jwtAuthenticator({ issuer: ISSUER, audience: AUDIENCE, jwksUri: JWKS_URI, ...options });
+}
+
+describe('jwtAuthenticator', () => {
+  it.each(['RS256', 'ES256', 'EdDSA'] as Alg[])('verifies %s tokens and returns their claims', async (alg) => {
+    const key = await createKey(alg, `${alg}-key`);
+    mockJwks([key.jwk]);
+    const authenticate = await createAuthenticator();
+
+    const claims = await authenticate(bearer(await key.sign(validClaims())));
+
+    expect(claims).toMatchObject({ sub: 'user-1', scope: 'tools:read' });
+  });
+
+  it('rejects missing, malformed and badly signed tokens', async () => {
+    const key = await createKey('ES256', 'key-1');
+    const other = await createKey('ES256', 'key-1');
+    mockJwks([key.jwk]);
+    const authenticate = await createAuthenticator();
+
+    await expect(authenticate(new Request('https://mcp.example.com/mcp'))).rejects.toThrow('Missing bearer token');
+    await expect(authenticate(bearer('not-a-jwt'))).rejects.toThrow('Malformed token');
+    await expect(authenticate(bearer(await other.sign(validClaims())))).rejects.toThrow('Invalid token signature');
+  });
+
+  it('rejects tokens whose header or claims are not JSON objects or whose signature is not base64url', async () => {
+    const key = await createKey('ES256', 'key-1');
+    mockJwks([key.jwk]);
+    const authenticate = await createAuthenticator();
+    const [header, payload, signature] = (await key.sign(validClaims())).split('.');
+
+    for (const token of [
+      `${base64Url('null')}.${payload}.${signature}`,
+      `${base64Url('[]')}.${payload}.${signature}`,
+      `${header}.${base64Url('null')}.${signature}`,
+      `${header}.${base64Url('"user-1"')}.${signature}`,
+      `${header}.${payload}.not*base64`,
+    ]) {
+      await expect(authenticate(bearer(token))).rejects.toMatchObject({ status: 401, errorCode: 'invalid_token' });
+    }
+  });
+
+  it('reports an unreachable key set as unavailable rather than an invalid token', async () => {
+    const { AuthUnavailableError } = await import('../../src/index.js');
+    const key = await createKey('ES256', 'key-1');
+    const token = await key.sign(validClaims());
+
+    vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(new Response('Bad gateway', { status: 502 }));
+    await expect((await createAuthenticator())(bearer(token))).rejects.toBeInstanceOf(AuthUnavailableError);
+
+    vi.spyOn(globalThis, 'fetch').mockRejectedValueOnce(new TypeError('Network connection lost'));
+    await expect((await createAuthenticator())(bearer(token))).rejects.toBeInstanceOf(AuthUnavailableError);
+  });
+
+  it('validates expiry, issuer and audience', async () => {
+    const key = await createKey('ES256', 'key-1');
+    mockJwks([key.jwk]);
+    const authenticate = await createAuthenticator();
+    const past = Math.floor(Date.now() / 1000) - 3600;
+
+    await expect(authenticate(bearer(await key.sign(validClaims({ exp: past }))))).rejects.toThrow('Token expired');
+    await expect(
+      authenticate(bearer(await key.sign(validClaims({ iss: 'https://evil.example.com' })))),
+    ).rejects.toThrow('Unexpected token issuer');
+    await expect(authenticate(bearer(await key.sign(validClaims({ aud: 'other' }))))).rejects.toThrow(
+      'Token not issued for this audience',
+    );
+  });
+
+  it('rejects algorithms that are not allowed', async () => {
+    const key = await createKey('RS256', 'key-1');
+    mockJwks([key.jwk]);
+    const authenticate = await createAuthenticator({ algorithms: ['ES256'] });
+
+    await expect(authenticate(bearer(await key.sign(validClaims())))).rejects.toThrow(
+      'Unsupported token algorithm RS256',
+    );
+  });
+
+  it('refetches the key set when a token uses a rotated key', async () => {
+    const oldKey = await createKey('ES256', 'old');
+    const newKey = await createKey('ES256', 'new');
+    const fetchSpy = mockJwks([oldKey.jwk], [oldKey.jwk, newKey.jwk]);
+    const authenticate = await createAuthenticator({ jwksRefreshIntervalSeconds: 0 });
+
+    await authenticate(bearer(await oldKey.sign(validClaims())));
+    const claims = await authenticate(bearer(await newKey.sign(validClaims({ sub: 'user-2' }))));
+
+    expect(claims.sub).toBe('user-2');
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares the key set through the Cache API', async () => {
+    const key = await createKey('ES256', 'key-1');
+    const fetchSpy = mockJwks([key.jwk]);
+    const store = new Map<string, Response>();
+    (globalThis as any).caches = {
+      open: async () => ({
+        match: async (request: Request) => store.get(request.url)?.clone(),
+        put: async (request: Request, response: Response) => void store.set(request.url, response),
+      }),
+    };
+
+    const token = await key.sign(validClaims());
+    const first = await createAuthenticator();
+    const second = await createAuthenticator();
+    await first(bearer(token));
+    await second(bearer(token));
+
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(store.get(JWKS_URI)?.headers.get('Cache-Control')).toBe('max-age=600');
+  });
+});
+
+describe('Authenticated server', () => {
+  async function createServer() {
+    const { WorkersFastMCP } = await import('../../src/index.js');
+
+    const server = new WorkersFastMCP({
+      name: 'JWT Test Server',
+      version: '1.0.0',
+      skipCompatibilityCheck: true,
+      authenticate: await createAuthenticator(),
+    });
+
+    server.addTool({
+      name: 'whoami',
+      description: 'Return the token subject',
+      parameters: z.object({}),
+      execute: async (_args: unknown, context: any) => String(context.session.sub),
+    });
+
+    return server.toWorkerHandler();
+  }
+
+  function callWhoami(headers: Record<string, string> = {}) {
+    return new Request('https://mcp.example.com/mcp', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'whoami', arguments: {} } }),
+    });
+  }
+
+  it('answers unauthenticated requests with 401 and a Bearer challenge', async () => {
+    const key = await createKey('ES256', 'key-1');
+    mockJwks([key.jwk]);
+    const handler = await createServer();
+
+    const missing = await handler(callWhoami());
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('WWW-Authenticate')).toBe('Bearer');
+
+    const expired = await handler(callWhoami({ Authorization: `Bearer ${await key.sign(validClaims({ exp: 1 }))}` }));
+    expect(expired.status).toBe(401);
+    expect(expired.headers.get('WWW-Authenticate')).toBe(
+      'Bearer error="invalid_token", error_description="Token expired"',
+    );
+    expect(await expired.json()).toMatchObject({ jsonrpc: '2.0', id: null, error: { message: 'Unauthorized' } });
+  });
+
+  it('passes verified claims to tools as the session', async () => {
+    const key = await createKey('ES256', 'key-1');
+    mockJwks([key.jwk]);
+    const handler = await createServer();
+
+    const response = await handler(callWhoami({ Authorization: `Bearer ${await key.sign(validClaims())}` }));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.result.content[0].text).toBe('user-1');
+  });
+});
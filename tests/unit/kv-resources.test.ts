@@ -0,0 +1,143 @@
+/**
+ * Tests for exposing KV namespaces as MCP resources
+ */
+
+import { describe, it, expect } from 'vitest';
+import { useWorkersRuntime } from '../helpers/workers.js';
+
+useWorkersRuntime();
+
+function createKV(entries: Record<string, { value: string | Uint8Array; metadata?: Record<string, unknown> }>) {
+  const names = Object.keys(entries).sort();
+
+  return {
+    list: async ({ prefix = '', limit = 1000, cursor }: { prefix?: string; limit?: number; cursor?: string }) => {
+      const matching = names.filter((name) => name.startsWith(prefix));
+      const start = cursor ? Number(cursor) : 0;
+      const keys = matching.slice(start, start + limit).map((name) => ({ name, metadata: entries[name]!.metadata }));
+      const complete = start + limit >= matching.length;
+      return { keys, list_complete: complete, ...(!complete && { cursor: String(start + limit) }) };
+    },
+    getWithMetadata: async (key: string) => {
+      const entry = entries[key];
+      if (!entry) {
+        return { value: null, metadata: null };
+      }
+      const bytes = typeof entry.value === 'string' ? new TextEncoder().encode(entry.value) : entry.value;
+      return {
+        value: bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength),
+        metadata: entry.metadata,
+      };
+    },
+  };
+}
+
+const ENV = {
+  CONFIG: createKV({
+    'public/readme.txt': { value: 'Hello' },
+    'public/flags.json': { value: '{"beta":true}', metadata: { mimeType: 'application/json' } },
+    'public/logo.png': { value: new Uint8Array([0x89, 0x50, 0x4e, 0x47]), metadata: { contentType: 'image/png' } },
+    'public/docs/guide v1.md': { value: '# Guide', metadata: { mimeType: 'text/markdown' } },
+    'private/secret': { value: 'hidden' },
+  }),
+};
+
+async function createHandler(options: Record<string, unknown> = {}) {
+  const { WorkersFastMCP } = await import('../../src/index.js');
+
+  const server = new WorkersFastMCP({
+    name: 'KV Resources Test Server',
+    version: '1.0.0',
+    skipCompatibilityCheck: true,
+  });
+
+  server.addResource({
+    uri: 'file:///status.txt',
+    name: 'status',
+    mimeType: 'text/plain',
+    load: async () => ({ text: 'ok' }),
+  });
+  server.addKVResources({ binding: 'CONFIG', prefix: 'public/', uriScheme: 'config', pageSize: 2, ...options });
+
+  const handler = server.toWorkerHandler();
+  return async (method: string, params?: Record<string, unknown>) => {
+    const request = new Request('https://mcp.example.com/mcp', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, ...(params && { params }) }),
+    });
+    return await (await handler(request, ENV)).json();
+  };
+}
+
+describe('addKVResources', () => {
+  it('lists keys under the prefix page by page after the static resources', async () => {
+    const call = await createHandler();
+
+    const first = (await call('resources/list')).result;
+    expect(first.resources.map((resource: any) => resource.uri)).toEqual([
+      'file:///status.txt',
+      'config://docs/guide%20v1.md',
+      'config://flags.json',
+    ]);
+    expect(first.resources[2]).toMatchObject({ name: 'flags.json', mimeType: 'application/json' });
+
+    const second = (await call('resources/list', { cursor: first.nextCursor })).result;
+    expect(second.resources.map((resource: any) => resource.name)).toEqual(['logo.png', 'readme.txt']);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('rejects unknown cursors', async () => {
+    const call = await createHandler();
+
+    expect((await call('resources/list', { cursor: 'not-a-cursor' })).error).toMatchObject({
+      code: -32602,
+      message: 'Invalid cursor',
+    });
+  });
+
+  it('reads values as text or blob depending on their metadata', async () => {
+    const call = await createHandler();
+
+    const text = (await call('resources/read', { uri: 'config://docs/guide%20v1.md' })).result;
+    expect(text.contents[0]).toMatchObject({
+      uri: 'config://docs/guide%20v1.md',
+      text: '# Guide',
+      mimeType: 'text/markdown',
+    });
+
+    const fallback = (await call('resources/read', { uri: 'config://readme.txt' })).result;
+    expect(fallback.contents[0]).toMatchObject({ text: 'Hello', mimeType: 'text/plain' });
+
+    const blob = (await call('resources/read', { uri: 'config://logo.png' })).result;
+    expect(blob.contents[0]).toMatchObject({ blob: btoa('\x89PNG'), mimeType: 'image/png' });
+  });
+
+  it('answers missing keys with a resource not found error', async () => {
+    const call = await createHandler();
+
+    expect((await call('resources/read', { uri: 'config://missing.txt' })).error).toMatchObject({ code: -32002 });
+  });
+
+  it('completes keys by prefix', async () => {
+    const call = await createHandler();
+
+    const templates = (await call('resources/templates/list')).result;
+    expect(templates.resourceTemplates[0]).toMatchObject({ name: 'config', uriTemplate: 'config://{key}' });
+
+    const completion = (
+      await call('completion/complete', {
+        ref: { type: 'ref/resource', uri: 'config://{key}' },
+        argument: { name: 'key', value: 'f' },
+      })
+    ).result;
+    expect(completion.completion.values).toEqual(['flags.json']);
+  });
+
+  it('keeps provider resources from sessions without the required scopes', async () => {
+    const call = await createHandler({ requiredScopes: ['config:read'] });
+
+    const listed = (await call('resources/list')).result;
+    expect(listed.resources.map((resource: any) => resource.name)).toEqual(['status']);
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Tests for the legacy HTTP+SSE transport endpoints
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { useWorkersRuntime } from '../helpers/workers.js';
+
+useWorkersRuntime();
+
+async function createServer(relay?: (env: any) => any, options: Record<string, unknown> = {}) {
+  const { WorkersFastMCP } = await import('../../src/index.js');
+
+  const server = new WorkersFastMCP({
+    ...options,
+    name: 'Legacy Test Server',
+    version: '1.0.0',
+    skipCompatibilityCheck: true,
+    transport: {
+      legacySse: { enabled: true, ...(relay && { relay }) },
+    },
+  });
+
+  server.addTool({
+    name: 'echo',
+    description: 'Echo a message',
+    parameters: z.object({ message: z.string() }),
+    execute: async (args: { message: string }) => args.message,
+  });
+
+  return server.toWorkerHandler();
+}
+
+/**
+ * Minimal in-memory stand-in for a Durable Object namespace
+ */
+async function createRelayNamespace() {
+  const { McpSseRelayDurableObject } = await import('../../src/index.js');
+  const objects = new Map<string, any>();
+
+  return {
+    idFromName: (name: string) => name,
+    get: (id: string) => {
+      if (!objects.has(id)) {
+        objects.set(id, new McpSseRelayDurableObject());
+      }
+      const object = objects.get(id);
+      return { fetch: (url: string, init: RequestInit) => object.fetch(new Request(url, init)) };
+    },
+  };
+}
+
+/**
+ * Read a number of SSE events from a stream
+ */
+async function readEvents(reader: ReadableStreamDefaultReader<Uint8Array>, count: number) {
+  const decoder = new TextDecoder();
+  const events: { event?: string; data: string }[] = [];
+  let buffer = '';
+
+  while (events.length < count) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let index;
+    while ((index = buffer.indexOf('\n\n')) !== -1) {
+      const chunk = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+      const event = chunk.match(/^event: (.*)$/m)?.[1];
+      const data = chunk
+        .split('\n')
+        .filter((line) => line.startsWith('data: '))
+        .map((line) => line.slice(6))
+        .join('\n');
+      events.push({ ...(event && { event }), data });
+    }
+  }
+
+  return events;
+}
+
+async function runLegacyFlow(handler: (request: Request, env?: any, ctx?: any) => Promise<Response>, env?: any) {
+  const stream = await handler(new Request('https://example.com/sse', { method: 'GET' }), env);
+  expect(stream.status).toBe(200);
+  expect(stream.headers.get('Content-Type')).toBe('text/event-stream');
+
+  const reader = stream.body!.getReader();
+  const [endpoint] = await readEvents(reader, 1);
+  expect(endpoint!.event).toBe('endpoint');
+  expect(endpoint!.data).toMatch(/^\/messages\?sessionId=/);
+
+  const waits: Promise<unknown>[] = [];
+  const accepted = await handler(
+    new Request(`https://example.com${endpoint!.data}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 7,
+        method: 'tools/call',
+        params: { name: 'echo', arguments: { message: 'hi' } },
+      }),
+    }),
+    env,
+    { waitUntil: (promise: Promise<unknown>) => waits.push(promise) },
+  );
+  expect(accepted.status).toBe(202);
+
+  const [message] = await readEvents(reader, 1);
+  expect(message!.event).toBe('message');
+  const response = JSON.parse(message!.data);
+  expect(response.id).toBe(7);
+  expect(response.result.content[0].text).toBe('hi');
+
+  await Promise.all(waits);
+  await reader.cancel();
+}
+
+describe('Legacy HTTP+SSE Transport', () => {
+  it('should announce the endpoint and deliver responses on the stream', async () => {
+    await runLegacyFlow(await createServer());
+  });
+
+  it('should relay responses through a Durable Object', async () => {
+    const env = { MCP_SSE_RELAY: await createRelayNamespace() };
+    await runLegacyFlow(await createServer((workerEnv) => workerEnv.MCP_SSE_RELAY), env);
+  });
+
+  it('should reject messages for unknown sessions', async () => {
+    const handler = await createServer();
+    const response = await handler(
+      new Request('https://example.com/messages?sessionId=missing', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+      }),
+    );
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should only accept messages from the identity that opened the stream', async () => {
+    const { MemorySessionStore } = await import('../../src/index.js');
+    const sessionStore = new MemorySessionStore();
+    const handler = await createServer(undefined, {
+      sessionStore,
+      authenticate: async (request: Request) => ({ sub: request.headers.get('X-User') }),
+    });
+
+    const stream = await handler(
+      new Request('https://example.com/sse', { method: 'GET', headers: { 'X-User': 'alice' } }),
+    );
+    const reader = stream.body!.getReader();
+    const [endpoint] = await readEvents(reader, 1);
+    const sessionId = new URL(`https://example.com${endpoint!.data}`).searchParams.get('sessionId')!;
+
+    const waits: Promise<unknown>[] = [];
+    const initialize = (user: string) =>
+      handler(
+        new Request(`https://example.com${endpoint!.data}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'X-User': user },
+          body: JSON.stringify({
+            jsonrpc: '2.0',
+            id: 1,
+            method: 'initialize',
+            params: { protocolVersion: '2024-11-05', capabilities: {}, clientInfo: { name: user, version: '1.0.0' } },
+          }),
+        }),
+        undefined,
+        { waitUntil: (promise: Promise<unknown>) => waits.push(promise) },
+      );
+
+    expect((await initialize('bob')).status).toBe(404);
+    expect((await initialize('alice')).status).toBe(202);
+    await Promise.all(waits);
+    expect((await initialize('bob')).status).toBe(404);
+
+    const session = await sessionStore.get(sessionId);
+    expect(session?.auth).toEqual({ sub: 'alice' });
+    expect(session?.clientInfo?.name).toBe('alice');
+    await reader.cancel();
+  });
+
+  it('should require a sessionId query parameter', async () => {
+    const handler = await createServer();
+    const response = await handler(
+      new Request('https://example.com/messages', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: '{}',
+      }),
+    );
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Tests for dispatching JSON-RPC messages from WorkersTransport into FastMCP
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { useWorkersRuntime } from '../helpers/workers.js';
+
+useWorkersRuntime();
+
+async function createServer() {
+  const { WorkersFastMCP } = await import('../../src/index.js');
+
+  const server = new WorkersFastMCP({
+    name: 'Dispatch Test Server',
+    version: '1.0.0',
+    skipCompatibilityCheck: true,
+  });
+
+  server.addTool({
+    name: 'add',
+    description: 'Add two numbers',
+    parameters: z.object({ a: z.number(), b: z.number() }),
+    execute: async (args: { a: number; b: number }) => String(args.a + args.b),
+  });
+
+  server.addResource({
+    uri: 'test://greeting',
+    name: 'Greeting',
+    mimeType: 'text/plain',
+    load: async () => ({ text: 'hello' }),
+  });
+
+  server.addPrompt({
+    name: 'summarize',
+    description: 'Summarize text',
+    arguments: [{ name: 'text', required: true }],
+    load: async (args: { text: string }) => `Summarize: ${args.text}`,
+  });
+
+  return server.toWorkerHandler();
+}
+
+function rpc(method: string, params: Record<string, unknown> = {}, id: number = 1) {
+  return new Request('https://example.com/mcp', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id, method, params }),
+  });
+}
+
+describe('Message Dispatch', () => {
+  it('should answer initialize with server info', async () => {
+    const handler = await createServer();
+    const response = await handler(
+      rpc('initialize', {
+        protocolVersion: '2025-03-26',
+        capabilities: {},
+        clientInfo: { name: 'test-client', version: '1.0.0' },
+      }),
+    );
+
+    expect(response.status).toBe(200);
+    const body: any = await response.json();
+    expect(body.id).toBe(1);
+    expect(body.result.serverInfo).toEqual({ name: 'Dispatch Test Server', version: '1.0.0' });
+    expect(body.result.capabilities.tools).toBeDefined();
+  });
+
+  it('should list and call tools', async () => {
+    const handler = await createServer();
+
+    const list: any = await (await handler(rpc('tools/list'))).json();
+    expect(list.result.tools.map((tool: any) => tool.name)).toEqual(['add']);
+
+    const call: any = await (await handler(rpc('tools/call', { name: 'add', arguments: { a: 2, b: 3 } }, 2))).json();
+    expect(call.id).toBe(2);
+    expect(call.result.content).toEqual([{ type: 'text', text: '5' }]);
+  });
+
+  it('should read resources and get prompts', async () => {
+    const handler = await createServer();
+
+    const read: any = await (await handler(rpc('resources/read', { uri: 'test://greeting' }))).json();
+    expect(read.result.contents[0].text).toBe('hello');
+
+    const prompt: any = await (await handler(rpc('prompts/get', { name: 'summarize', arguments: { text: 'abc' } }))).json();
+    expect(prompt.result.messages[0].content.text).toBe('Summarize: abc');
+  });
+
+  it('should return a JSON-RPC error for unknown tools', async () => {
+    const handler = await createServer();
+    const body: any = await (await handler(rpc('tools/call', { name: 'missing', arguments: {} }))).json();
+
+    expect(body.id).toBe(1);
+    expect(body.error.code).toBe(-32601);
+  });
+
+  it('should answer batches with an array of responses', async () => {
+    const handler = await createServer();
+    const response = await handler(
+      new Request('https://example.com/mcp', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify([
+          { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'add', arguments: { a: 1, b: 1 } } },
+          { jsonrpc: '2.0', method: 'notifications/initialized' },
+          { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'add', arguments: { a: 2, b: 2 } } },
+        ]),
+      }),
+    );
+
+    expect(response.status).toBe(200);
+    const body: any = await response.json();
+    expect(body.map((entry: any) => entry.id)).toEqual([1, 2]);
+    expect(body.map((entry: any) => entry.result.content[0].text)).toEqual(['2', '4']);
+  });
+
+  it('should accept notification-only payloads with 202', async () => {
+    const handler = await createServer();
+    const response = await handler(
+      new Request('https://example.com/mcp', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify([{ jsonrpc: '2.0', method: 'notifications/initialized' }]),
+      }),
+    );
+
+    expect(response.status).toBe(202);
+    expect(await response.text()).toBe('');
+  });
+
+  it('should reject empty batches', async () => {
+    const handler = await createServer();
+    const response = await handler(
+      new Request('https://example.com/mcp', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: '[]',
+      }),
+    );
+
+    expect(response.status).toBe(400);
+    const body: any = await response.json();
+    expect(body.error.code).toBe(-32600);
+  });
+});
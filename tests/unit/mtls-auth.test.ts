@@ -0,0 +1,113 @@
+/**
+ * Tests for mTLS client certificate authentication
+ */
+
+import { describe, it, expect } from 'vitest';
+import { useWorkersRuntime } from '../helpers/workers.js';
+
+useWorkersRuntime();
+
+const FINGERPRINT = 'ab12cd34ef56ab12cd34ef56ab12cd34ef56ab12cd34ef56ab12cd34ef56ab12';
+
+function certificate(overrides: Record<string, unknown> = {}) {
+  return {
+    certPresented: '1',
+    certVerified: 'SUCCESS',
+    certRevoked: '0',
+    certSubjectDNRFC2253: 'CN=billing-service,O=Example',
+    certIssuerDNRFC2253: 'CN=Example CA,O=Example',
+    certSerial: '0A1B2C',
+    certFingerprintSHA256: FINGERPRINT.toUpperCase(),
+    certNotBefore: 'Jan  1 00:00:00 2024 GMT',
+    certNotAfter: 'Dec 31 23:59:59 2099 GMT',
+    ...overrides,
+  };
+}
+
+function withCertificate(tlsClientAuth?: Record<string, unknown>) {
+  const request = new Request('https://mcp.example.com/mcp', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+  });
+  Object.defineProperty(request, 'cf', { value: tlsClientAuth ? { tlsClientAuth } : {} });
+  return request;
+}
+
+async function createAuthenticator(options: Record<string, unknown> = {}) {
+  const { mtlsAuthenticator } = await import('../../src/index.js');
+  return mtlsAuthenticator({
+    principals: { [FINGERPRINT]: { principal: 'billing-service', scopes: ['billing:read'] } },
+    ...options,
+  });
+}
+
+describe('mtlsAuthenticator', () => {
+  it('maps a verified certificate fingerprint to its principal', async () => {
+    const authenticate = await createAuthenticator();
+
+    const principal = await authenticate(withCertificate(certificate()));
+
+    expect(principal).toMatchObject({
+      sub: 'billing-service',
+      scope: 'billing:read',
+      fingerprint: FINGERPRINT,
+      subject_dn: 'CN=billing-service,O=Example',
+      exp: Math.floor(Date.parse('Dec 31 23:59:59 2099 GMT') / 1000),
+    });
+  });
+
+  it('looks up principals by subject DN in KV', async () => {
+    const kv = {
+      get: async (key: string) =>
+        key === 'mtls:CN=billing-service,O=Example' ? { principal: 'from-kv', props: { team: 'billing' } } : null,
+    };
+    const authenticate = await createAuthenticator({ principals: undefined, kv: () => kv, identifyBy: 'subject' });
+
+    const principal = await authenticate(withCertificate(certificate()));
+
+    expect(principal).toMatchObject({ sub: 'from-kv', scope: '', props: { team: 'billing' } });
+  });
+
+  it('rejects missing, unverified, revoked and expired certificates', async () => {
+    const authenticate = await createAuthenticator();
+
+    await expect(authenticate(withCertificate())).rejects.toThrow('Client certificate required');
+    await expect(authenticate(withCertificate({ certPresented: '0' }))).rejects.toThrow('Client certificate required');
+    await expect(
+      authenticate(withCertificate(certificate({ certVerified: 'FAILED:self signed certificate' }))),
+    ).rejects.toThrow('Client certificate verification failed: FAILED:self signed certificate');
+    await expect(authenticate(withCertificate(certificate({ certRevoked: '1' })))).rejects.toThrow(
+      'Client certificate revoked',
+    );
+    await expect(
+      authenticate(withCertificate(certificate({ certNotAfter: 'Jan  1 00:00:00 2020 GMT' }))),
+    ).rejects.toThrow('Client certificate expired');
+  });
+
+  it('answers unknown certificates with 403 and invalid ones with 401', async () => {
+    const { WorkersFastMCP } = await import('../../src/index.js');
+    const server = new WorkersFastMCP({
+      name: 'mTLS Test Server',
+      version: '1.0.0',
+      skipCompatibilityCheck: true,
+      authenticate: await createAuthenticator(),
+    });
+    const handler = server.toWorkerHandler();
+
+    const unknown = await handler(withCertificate(certificate({ certFingerprintSHA256: 'ff'.repeat(32) })));
+    expect(unknown.status).toBe(403);
+
+    const unverified = await handler(withCertificate(certificate({ certVerified: 'FAILED' })));
+    expect(unverified.status).toBe(401);
+
+    const allowed = await handler(withCertificate(certificate()));
+    expect(allowed.status).toBe(200);
+  });
+
+  it('requires a principal source', async () => {
+    const { mtlsAuthenticator } = await import('../../src/index.js');
+
+    expect(() => mtlsAuthenticator({})).toThrow('mtlsAuthenticator requires principals or kv');
+  });
+});
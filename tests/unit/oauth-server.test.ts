@@ -0,0 +1,364 @@
+/**
+ * Tests for the built-in OAuth 2.1 authorization server
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import type { OAuthServerOptions, OAuthTokenClaims } from '../../src/index.js';
+import { createMemoryKv, useWorkersRuntime } from '../helpers/workers.js';
+
+useWorkersRuntime();
+
+const ORIGIN = 'https://mcp.example.com';
+const REDIRECT_URI = 'https://client.example.com/callback';
+
+function base64Url(bytes: Uint8Array) {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+async function createPkce() {
+  const verifier = base64Url(crypto.getRandomValues(new Uint8Array(32)));
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return { verifier, challenge: base64Url(new Uint8Array(digest)) };
+}
+
+async function createServer(login?: OAuthServerOptions['login']) {
+  const { WorkersFastMCP } = await import('../../src/index.js');
+  const { entries, kv } = createMemoryKv();
+
+  const server = new WorkersFastMCP({
+    name: 'OAuth Test Server',
+    version: '1.0.0',
+    skipCompatibilityCheck: true,
+    oauth: {
+      enabled: true,
+      server: {
+        kv: () => kv,
+        login: login ?? (async () => ({ userId: 'user-1', props: { plan: 'pro' } })),
+      },
+    },
+  });
+
+  server.addTool({
+    name: 'whoami',
+    description: 'Return the token subject',
+    parameters: z.object({}),
+    execute: async (_args: unknown, context: { session: OAuthTokenClaims }) =>
+      `${context.session.sub}:${context.session.props?.plan}`,
+  });
+
+  return { handler: server.toWorkerHandler(), entries };
+}
+
+type Handler = Awaited<ReturnType<typeof createServer>>['handler'];
+
+interface RegisteredClient {
+  client_id: string;
+  client_secret?: string;
+  error?: string;
+}
+
+async function register(handler: Handler, metadata: Record<string, unknown> = {}) {
+  const response = await handler(
+    new Request(`${ORIGIN}/register`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ redirect_uris: [REDIRECT_URI], token_endpoint_auth_method: 'none', ...metadata }),
+    }),
+  );
+  return { response, body: (await response.json()) as RegisteredClient };
+}
+
+function authorizeUrl(clientId: string, challenge: string, extra: Record<string, string> = {}) {
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: clientId,
+    redirect_uri: REDIRECT_URI,
+    code_challenge: challenge,
+    code_challenge_method: 'S256',
+    state: 'xyz',
+    scope: 'tools:read',
+    ...extra,
+  });
+  return `${ORIGIN}/authorize?${params}`;
+}
+
+function token(handler: Handler, params: Record<string, string>, headers: Record<string, string> = {}) {
+  return handler(
+    new Request(`${ORIGIN}/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', ...headers },
+      body: new URLSearchParams(params),
+    }),
+  );
+}
+
+function callWhoami(accessToken: string) {
+  return new Request(`${ORIGIN}/mcp`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'whoami', arguments: {} } }),
+  });
+}
+
+async function authorize(handler: Handler, clientId: string, extra: Record<string, string> = {}) {
+  const pkce = await createPkce();
+  const response = await handler(new Request(authorizeUrl(clientId, pkce.challenge, extra)));
+  const location = new URL(response.headers.get('Location')!);
+  return { response, location, code: location.searchParams.get('code')!, pkce };
+}
+
+describe('OAuth authorization server', () => {
+  it('publishes authorization server and protected resource metadata', async () => {
+    const { handler } = await createServer();
+
+    const server = await (await handler(new Request(`${ORIGIN}/.well-known/oauth-authorization-server`))).json();
+    expect(server).toMatchObject({
+      issuer: ORIGIN,
+      authorization_endpoint: `${ORIGIN}/authorize`,
+      token_endpoint: `${ORIGIN}/token`,
+      registration_endpoint: `${ORIGIN}/register`,
+      revocation_endpoint: `${ORIGIN}/revoke`,
+      code_challenge_methods_supported: ['S256'],
+    });
+
+    const resource = await (await handler(new Request(`${ORIGIN}/.well-known/oauth-protected-resource`))).json();
+    expect(resource).toMatchObject({ resource: `${ORIGIN}/mcp`, authorization_servers: [ORIGIN] });
+  });
+
+  it('registers clients and stores only a hash of their secret', async () => {
+    const { handler, entries } = await createServer();
+
+    const { response, body } = await register(handler, { token_endpoint_auth_method: 'client_secret_post' });
+    expect(response.status).toBe(201);
+    expect(body.client_secret).toEqual(expect.any(String));
+
+    const stored = [...entries.values()].map((entry) => entry.value).join('');
+    expect(stored).not.toContain(body.client_secret);
+
+    const rejected = await register(handler, { redirect_uris: ['http://client.example.com/callback'] });
+    expect(rejected.response.status).toBe(400);
+    expect(rejected.body.error).toBe('invalid_redirect_uri');
+  });
+
+  it('runs the authorization code flow with PKCE and authenticates MCP requests', async () => {
+    const { handler } = await createServer();
+    const { body: client } = await register(handler);
+
+    const { response, location, code, pkce } = await authorize(handler, client.client_id);
+    expect(response.status).toBe(302);
+    expect(location.origin + location.pathname).toBe(REDIRECT_URI);
+    expect(location.searchParams.get('state')).toBe('xyz');
+
+    const tokenResponse = await token(handler, {
+      grant_type: 'authorization_code',
+      code,
+      code_verifier: pkce.verifier,
+      client_id: client.client_id,
+      redirect_uri: REDIRECT_URI,
+    });
+    const tokens = await tokenResponse.json();
+    expect(tokenResponse.status).toBe(200);
+    expect(tokenResponse.headers.get('Cache-Control')).toBe('no-store');
+    expect(tokens).toMatchObject({ token_type: 'Bearer', expires_in: 3600, scope: 'tools:read' });
+
+    const mcpResponse = await handler(callWhoami(tokens.access_token));
+    expect((await mcpResponse.json()).result.content[0].text).toBe('user-1:pro');
+
+    // Codes are single use
+    const replay = await token(handler, {
+      grant_type: 'authorization_code',
+      code,
+      code_verifier: pkce.verifier,
+      client_id: client.client_id,
+    });
+    expect(replay.status).toBe(400);
+    expect((await replay.json()).error).toBe('invalid_grant');
+  });
+
+  it('rejects a wrong code verifier and requests without PKCE', async () => {
+    const { handler } = await createServer();
+    const { body: client } = await register(handler);
+    const { code } = await authorize(handler, client.client_id);
+
+    const response = await token(handler, {
+      grant_type: 'authorization_code',
+      code,
+      code_verifier: 'wrong-verifier',
+      client_id: client.client_id,
+    });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      error: 'invalid_grant',
+      error_description: 'PKCE verification failed',
+    });
+
+    const plain = await handler(new Request(authorizeUrl(client.client_id, 'abc', { code_challenge_method: 'plain' })));
+    expect(new URL(plain.headers.get('Location')!).searchParams.get('error')).toBe('invalid_request');
+
+    const unknownRedirect = await handler(
+      new Request(authorizeUrl(client.client_id, 'abc', { redirect_uri: 'https://evil.example.com/' })),
+    );
+    expect(unknownRedirect.status).toBe(400);
+    expect(unknownRedirect.headers.get('Location')).toBeNull();
+  });
+
+  it('rotates refresh tokens and revokes access tokens', async () => {
+    const { handler } = await createServer();
+    const { body: client } = await register(handler);
+    const { code, pkce } = await authorize(handler, client.client_id);
+    const first = await (
+      await token(handler, {
+        grant_type: 'authorization_code',
+        code,
+        code_verifier: pkce.verifier,
+        client_id: client.client_id,
+      })
+    ).json();
+
+    const broader = await token(handler, {
+      grant_type: 'refresh_token',
+      refresh_token: first.refresh_token,
+      client_id: client.client_id,
+      scope: 'tools:read tools:write',
+    });
+    expect(broader.status).toBe(400);
+    expect((await broader.json()).error).toBe('invalid_scope');
+
+    const refreshed = await (
+      await token(handler, {
+        grant_type: 'refresh_token',
+        refresh_token: first.refresh_token,
+        client_id: client.client_id,
+      })
+    ).json();
+    expect(refreshed.access_token).toEqual(expect.any(String));
+    expect(refreshed.access_token).not.toBe(first.access_token);
+    expect(refreshed.refresh_token).not.toBe(first.refresh_token);
+
+    const reused = await token(handler, {
+      grant_type: 'refresh_token',
+      refresh_token: first.refresh_token,
+      client_id: client.client_id,
+    });
+    expect(reused.status).toBe(400);
+
+    const revoke = await handler(
+      new Request(`${ORIGIN}/revoke`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({ token: refreshed.access_token, client_id: client.client_id }),
+      }),
+    );
+    expect(revoke.status).toBe(200);
+
+    const rejected = await handler(callWhoami(refreshed.access_token));
+    expect(rejected.status).toBe(401);
+    expect(rejected.headers.get('WWW-Authenticate')).toContain('invalid_token');
+  });
+
+  it('binds tokens to the requested resource', async () => {
+    const { handler } = await createServer();
+    const { body: client } = await register(handler);
+    const grant = (code: string, verifier: string, resource?: string) =>
+      token(handler, {
+        grant_type: 'authorization_code',
+        code,
+        code_verifier: verifier,
+        client_id: client.client_id,
+        ...(resource && { resource }),
+      });
+
+    const mismatch = await authorize(handler, client.client_id, { resource: `${ORIGIN}/mcp` });
+    const rejected = await grant(mismatch.code, mismatch.pkce.verifier, 'https://other.example.com/mcp');
+    expect(rejected.status).toBe(400);
+    expect((await rejected.json()).error).toBe('invalid_target');
+
+    const { code, pkce } = await authorize(handler, client.client_id, { resource: `${ORIGIN}/mcp` });
+    const tokens = await (await grant(code, pkce.verifier, `${ORIGIN}/mcp`)).json();
+    expect((await handler(callWhoami(tokens.access_token))).status).toBe(200);
+
+    const other = await authorize(handler, client.client_id, { resource: 'https://other.example.com/mcp' });
+    const otherTokens = await (await grant(other.code, other.pkce.verifier)).json();
+    const wrongAudience = await handler(callWhoami(otherTokens.access_token));
+    expect(wrongAudience.status).toBe(401);
+    expect(wrongAudience.headers.get('WWW-Authenticate')).toContain('invalid_token');
+
+    const invalid = await handler(new Request(authorizeUrl(client.client_id, 'abc', { resource: '/mcp#x' })));
+    expect(new URL(invalid.headers.get('Location')!).searchParams.get('error')).toBe('invalid_target');
+  });
+
+  it('authenticates confidential clients at the token endpoint', async () => {
+    const { handler } = await createServer();
+    const { body: client } = await register(handler, { token_endpoint_auth_method: 'client_secret_basic' });
+    const { code, pkce } = await authorize(handler, client.client_id);
+    const params = { grant_type: 'authorization_code', code, code_verifier: pkce.verifier };
+
+    const missing = await token(handler, { ...params, client_id: client.client_id });
+    expect(missing.status).toBe(401);
+    expect((await missing.json()).error).toBe('invalid_client');
+
+    const post = await token(handler, { ...params, client_id: client.client_id, client_secret: client.client_secret! });
+    expect(post.status).toBe(401);
+    expect((await post.json()).error).toBe('invalid_client');
+
+    const basic = btoa(`${client.client_id}:${client.client_secret}`);
+    const response = await token(handler, params, { Authorization: `Basic ${basic}` });
+    expect(response.status).toBe(200);
+  });
+
+  it('rejects malformed Basic client credentials with a challenge', async () => {
+    const { handler } = await createServer();
+
+    for (const credentials of ['not base64!', btoa('client%:secret')]) {
+      for (const path of ['/token', '/revoke']) {
+        const response = await handler(
+          new Request(`${ORIGIN}${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded', Authorization: `Basic ${credentials}` },
+            body: new URLSearchParams({ grant_type: 'refresh_token', refresh_token: 'x', token: 'x' }),
+          }),
+        );
+        expect(response.status, `${path} ${credentials}`).toBe(401);
+        expect(response.headers.get('WWW-Authenticate')).toMatch(/^Basic /);
+        expect((await response.json()).error).toBe('invalid_client');
+      }
+    }
+  });
+
+  it('resumes the flow when an upstream identity provider redirects back', async () => {
+    const { handler } = await createServer(async ({ request, pendingId, callbackUrl }) => {
+      const url = new URL(request.url);
+      if (url.pathname === '/oauth/callback' && url.searchParams.get('code') === 'upstream-code') {
+        return { userId: 'upstream-user', props: { plan: 'free' } };
+      }
+      return Response.redirect(`https://idp.example.com/login?state=${pendingId}&redirect_uri=${callbackUrl}`, 302);
+    });
+    const { body: client } = await register(handler);
+    const pkce = await createPkce();
+
+    const toIdp = await handler(new Request(authorizeUrl(client.client_id, pkce.challenge)));
+    const idpUrl = new URL(toIdp.headers.get('Location')!);
+    expect(idpUrl.origin).toBe('https://idp.example.com');
+    expect(idpUrl.searchParams.get('redirect_uri')).toBe(`${ORIGIN}/oauth/callback`);
+
+    const back = await handler(
+      new Request(`${ORIGIN}/oauth/callback?code=upstream-code&state=${idpUrl.searchParams.get('state')}`),
+    );
+    const code = new URL(back.headers.get('Location')!).searchParams.get('code')!;
+    const tokens = await (
+      await token(handler, {
+        grant_type: 'authorization_code',
+        code,
+        code_verifier: pkce.verifier,
+        client_id: client.client_id,
+      })
+    ).json();
+
+    const mcpResponse = await handler(callWhoami(tokens.access_token));
+    expect((await mcpResponse.json()).result.content[0].text).toBe('upstream-user:free');
+  });
+});
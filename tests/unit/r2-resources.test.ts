@@ -0,0 +1,157 @@
+/**
+ * Tests for exposing R2 buckets as MCP resources
+ */
+
+import { describe, it, expect } from 'vitest';
+import { useWorkersRuntime } from '../helpers/workers.js';
+
+useWorkersRuntime();
+
+function createBucket(objects: Record<string, { body: string | Uint8Array; contentType?: string }>) {
+  const keys = Object.keys(objects).sort();
+  const cancelled: string[] = [];
+  const bytesOf = (key: string) => {
+    const { body } = objects[key]!;
+    return typeof body === 'string' ? new TextEncoder().encode(body) : body;
+  };
+  const head = (key: string) => ({
+    key,
+    size: bytesOf(key).byteLength,
+    ...(objects[key]!.contentType && { httpMetadata: { contentType: objects[key]!.contentType } }),
+  });
+
+  const bucket = {
+    list: async ({ prefix = '', limit = 1000, cursor }: { prefix?: string; limit?: number; cursor?: string }) => {
+      const matching = keys.filter((key) => key.startsWith(prefix));
+      const start = cursor ? Number(cursor) : 0;
+      const truncated = start + limit < matching.length;
+      return {
+        objects: matching.slice(start, start + limit).map(head),
+        delimitedPrefixes: [],
+        truncated,
+        ...(truncated && { cursor: String(start + limit) }),
+      };
+    },
+    get: async (key: string, options: { range?: { offset: number; length: number } } = {}) => {
+      if (!objects[key]) {
+        return null;
+      }
+      const bytes = bytesOf(key);
+      const { offset = 0, length = bytes.byteLength } = options.range ?? {};
+      const slice = bytes.slice(offset, offset + length);
+      return {
+        ...head(key),
+        body: { cancel: async () => void cancelled.push(key) },
+        arrayBuffer: async () => slice.buffer,
+      };
+    },
+  };
+
+  return { bucket, cancelled };
+}
+
+const LOG = 'line 1\nline 2\nline 3\n';
+
+function createEnv() {
+  return createBucket({
+    'files/notes.md': { body: '# Notes', contentType: 'text/markdown; charset=utf-8' },
+    'files/photo.jpg': { body: new Uint8Array([0xff, 0xd8, 0xff, 0xe0]), contentType: 'image/jpeg' },
+    'files/app.log': { body: LOG, contentType: 'text/plain' },
+    'files/raw.bin': { body: new Uint8Array([1, 2, 3]) },
+  });
+}
+
+async function createHandler(options: Record<string, unknown> = {}) {
+  const { WorkersFastMCP } = await import('../../src/index.js');
+  const { bucket, cancelled } = createEnv();
+
+  const server = new WorkersFastMCP({
+    name: 'R2 Resources Test Server',
+    version: '1.0.0',
+    skipCompatibilityCheck: true,
+    authenticate: async (request: Request) => ({ sub: 'user-1', scope: request.headers.get('X-Scopes') ?? '' }),
+  });
+
+  server.addR2Resources({ binding: 'FILES', prefix: 'files/', pageSize: 3, maxSize: 16, ...options });
+
+  const handler = server.toWorkerHandler();
+  const call = async (method: string, params?: Record<string, unknown>, scopes = '') => {
+    const request = new Request('https://mcp.example.com/mcp', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Scopes': scopes },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, ...(params && { params }) }),
+    });
+    return await handler(request, { FILES: bucket });
+  };
+
+  return { call: async (...args: Parameters<typeof call>) => (await call(...args)).json(), raw: call, cancelled };
+}
+
+describe('addR2Resources', () => {
+  it('lists objects with their content types and sizes using the R2 cursor', async () => {
+    const { call } = await createHandler();
+
+    const first = (await call('resources/list')).result;
+    expect(first.resources).toEqual([
+      { uri: 'r2://app.log', name: 'app.log', mimeType: 'text/plain', size: LOG.length },
+      { uri: 'r2://notes.md', name: 'notes.md', mimeType: 'text/markdown; charset=utf-8', size: 7 },
+      { uri: 'r2://photo.jpg', name: 'photo.jpg', mimeType: 'image/jpeg', size: 4 },
+    ]);
+
+    const second = (await call('resources/list', { cursor: first.nextCursor })).result;
+    expect(second.resources).toEqual([
+      { uri: 'r2://raw.bin', name: 'raw.bin', mimeType: 'application/octet-stream', size: 3 },
+    ]);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('returns textual objects as text and binary ones as base64 blobs', async () => {
+    const { call } = await createHandler();
+
+    const text = (await call('resources/read', { uri: 'r2://notes.md' })).result;
+    expect(text.contents[0]).toMatchObject({ text: '# Notes', mimeType: 'text/markdown; charset=utf-8' });
+
+    const image = (await call('resources/read', { uri: 'r2://photo.jpg' })).result;
+    expect(image.contents[0]).toMatchObject({ blob: btoa('\xff\xd8\xff\xe0'), mimeType: 'image/jpeg' });
+
+    const raw = (await call('resources/read', { uri: 'r2://raw.bin' })).result;
+    expect(raw.contents[0]).toMatchObject({ blob: btoa('\x01\x02\x03'), mimeType: 'application/octet-stream' });
+  });
+
+  it('refuses to read objects over the size limit whole', async () => {
+    const { call, cancelled } = await createHandler();
+
+    const response = await call('resources/read', { uri: 'r2://app.log' });
+
+    expect(response.error).toMatchObject({ code: -32602, data: { size: LOG.length, maxSize: 16 } });
+    expect(cancelled).toEqual(['files/app.log']);
+  });
+
+  it('reads byte ranges when range reads are enabled', async () => {
+    const { call } = await createHandler({ rangeReads: true });
+
+    const templates = (await call('resources/templates/list')).result;
+    expect(templates.resourceTemplates[0].uriTemplate).toBe('r2://{key}{?offset,length}');
+
+    const range = (await call('resources/read', { uri: 'r2://app.log?offset=7&length=6' })).result;
+    expect(range.contents[0]).toMatchObject({ uri: 'r2://app.log?offset=7&length=6', text: 'line 2' });
+
+    const capped = (await call('resources/read', { uri: 'r2://app.log?offset=7' })).result;
+    expect(capped.contents[0]).toMatchObject({ uri: 'r2://app.log?offset=7&length=16', text: LOG.slice(7, 23) });
+
+    expect((await call('resources/read', { uri: 'r2://app.log?offset=-1' })).error).toMatchObject({ code: -32602 });
+  });
+
+  it('answers missing objects with a resource not found error', async () => {
+    const { call } = await createHandler();
+
+    expect((await call('resources/read', { uri: 'r2://missing.txt' })).error).toMatchObject({ code: -32002 });
+  });
+
+  it('applies required scopes to ranged reads', async () => {
+    const { raw } = await createHandler({ rangeReads: true, requiredScopes: ['files:read'] });
+
+    expect((await raw('resources/read', { uri: 'r2://app.log?offset=0&length=4' })).status).toBe(403);
+    expect((await raw('resources/read', { uri: 'r2://app.log?offset=0&length=4' }, 'files:read')).status).toBe(200);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Tests for caching tools/call and resources/read results
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import {
+  clearWorkersGlobals,
+  createMemoryCache,
+  createMemoryKv,
+  rpcCall,
+  rpcRequest,
+  setWorkersGlobals,
+} from '../helpers/workers.js';
+
+let cache: ReturnType<typeof createMemoryCache>;
+
+// Simulate the Cloudflare Workers runtime with a working default cache
+beforeEach(() => {
+  cache = createMemoryCache();
+  setWorkersGlobals({ default: cache.cache });
+});
+
+afterEach(() => clearWorkersGlobals());
+
+async function createHandler(
+  cacheOptions: Record<string, unknown> = {},
+  authenticate: ((request: Request) => Promise<Record<string, unknown>>) | null = async (request: Request) => ({
+    sub: request.headers.get('X-User') ?? 'anonymous',
+  }),
+) {
+  const { WorkersFastMCP } = await import('../../src/index.js');
+  const calls: Record<string, number> = {};
+  const count = (name: string) => {
+    calls[name] = (calls[name] ?? 0) + 1;
+    return calls[name];
+  };
+
+  const server = new WorkersFastMCP({
+    name: 'Result Cache Test Server',
+    version: '1.0.0',
+    skipCompatibilityCheck: true,
+    ...(authenticate && { authenticate }),
+    cache: { ttlSeconds: 30, ...cacheOptions },
+  });
+
+  server.addTool({
+    name: 'lookup',
+    description: 'Read-only lookup',
+    parameters: z.object({ id: z.string(), verbose: z.boolean().optional() }),
+    annotations: { readOnlyHint: true },
+    execute: async ({ id }: { id: string }) => `${id}: call ${count('lookup')}`,
+  });
+
+  server.addTool({
+    name: 'rates',
+    description: 'Idempotent lookup with its own TTL',
+    parameters: z.object({}),
+    annotations: { idempotentHint: true },
+    cache: { ttlSeconds: 5 },
+    execute: async () => `call ${count('rates')}`,
+  });
+
+  server.addTool({
+    name: 'increment',
+    description: 'Not cacheable',
+    parameters: z.object({}),
+    execute: async () => `call ${count('increment')}`,
+  });
+
+  server.addTool({
+    name: 'fresh',
+    description: 'Read-only but never cached',
+    parameters: z.object({}),
+    annotations: { readOnlyHint: true },
+    cache: false,
+    execute: async () => `call ${count('fresh')}`,
+  });
+
+  server.addResource({
+    uri: 'config://settings',
+    name: 'Settings',
+    mimeType: 'text/plain',
+    load: async () => ({ text: `load ${count('settings')}` }),
+  });
+
+  const handler = server.toWorkerHandler();
+  const { entries, kv } = createMemoryKv();
+  const call = (method: string, params: Record<string, unknown>, user = 'alice') =>
+    rpcCall(handler, { CACHE: kv }, rpcRequest(method, params, { id: 7, headers: { 'X-User': user } }));
+  const callTool = (name: string, args: Record<string, unknown> = {}, user?: string) =>
+    call('tools/call', { name, arguments: args }, user);
+
+  return { server, call, callTool, kv, entries };
+}
+
+describe('Result cache', () => {
+  it('serves repeated calls of read-only tools from the cache with canonicalized arguments', async () => {
+    const { callTool } = await createHandler();
+
+    const first = await callTool('lookup', { id: 'a', verbose: true });
+    expect(first.result.content[0].text).toBe('a: call 1');
+    expect(first.result._meta['fastmcp-cloudflare/cache']).toEqual({ status: 'MISS', ttl: 30 });
+
+    const second = await callTool('lookup', { verbose: true, id: 'a' });
+    expect(second.id).toBe(7);
+    expect(second.result.content[0].text).toBe('a: call 1');
+    expect(second.result._meta['fastmcp-cloudflare/cache']).toMatchObject({ status: 'HIT', age: 0 });
+
+    expect((await callTool('lookup', { id: 'b' })).result.content[0].text).toBe('b: call 2');
+  });
+
+  it('keeps results of different users apart', async () => {
+    const { callTool } = await createHandler();
+
+    await callTool('lookup', { id: 'a' }, 'alice');
+    const other = await callTool('lookup', { id: 'a' }, 'bob');
+
+    expect(other.result.content[0].text).toBe('a: call 2');
+    expect(other.result._meta['fastmcp-cloudflare/cache'].status).toBe('MISS');
+  });
+
+  it('shares results across tokens of the same user', async () => {
+    let issued = 0;
+    const { callTool } = await createHandler({}, async (request: Request) => ({
+      sub: request.headers.get('X-User'),
+      iat: ++issued,
+      jti: `token-${issued}`,
+    }));
+
+    await callTool('lookup', { id: 'a' }, 'alice');
+    expect((await callTool('lookup', { id: 'a' }, 'alice')).result.content[0].text).toBe('a: call 1');
+    expect((await callTool('lookup', { id: 'a' }, 'bob')).result.content[0].text).toBe('a: call 2');
+  });
+
+  it('invalidates public entries without auth on servers without authentication', async () => {
+    const { server, call } = await createHandler({}, null);
+
+    await call('resources/read', { uri: 'config://settings' });
+    await server.invalidateResourceCache('config://settings');
+
+    expect((await call('resources/read', { uri: 'config://settings' })).result.contents[0].text).toBe('load 2');
+  });
+
+  it('shares results across users in a custom partition', async () => {
+    const { callTool } = await createHandler({ partition: () => 'shared' });
+
+    await callTool('lookup', { id: 'a' }, 'alice');
+    expect((await callTool('lookup', { id: 'a' }, 'bob')).result.content[0].text).toBe('a: call 1');
+  });
+
+  it('uses definition TTLs and skips tools without hints or with caching turned off', async () => {
+    const { callTool } = await createHandler();
+
+    expect((await callTool('rates')).result._meta['fastmcp-cloudflare/cache']).toEqual({ status: 'MISS', ttl: 5 });
+    expect([...cache.entries.keys()].some((key) => key.includes('/tool/rates/'))).toBe(true);
+
+    await callTool('increment');
+    const increment = await callTool('increment');
+    expect(increment.result.content[0].text).toBe('call 2');
+    expect(increment.result._meta).toBeUndefined();
+
+    await callTool('fresh');
+    expect((await callTool('fresh')).result.content[0].text).toBe('call 2');
+  });
+
+  it('caches resource reads and invalidates them', async () => {
+    const { server, call } = await createHandler();
+
+    await call('resources/read', { uri: 'config://settings' });
+    const cached = await call('resources/read', { uri: 'config://settings' });
+    expect(cached.result.contents[0].text).toBe('load 1');
+    expect(cached.result._meta['fastmcp-cloudflare/cache'].status).toBe('HIT');
+
+    await server.invalidateResourceCache('config://settings', { auth: { sub: 'alice' } });
+    expect((await call('resources/read', { uri: 'config://settings' })).result.contents[0].text).toBe('load 2');
+
+    await expect(server.invalidateResourceCache('config://settings')).rejects.toThrow('invalidated one at a time');
+  });
+
+  it('stores entries in KV and invalidates all results of a tool', async () => {
+    const { server, callTool, kv, entries } = await createHandler({ kv: 'CACHE' });
+
+    await callTool('lookup', { id: 'a' }, 'alice');
+    await callTool('lookup', { id: 'b' }, 'bob');
+    await callTool('rates');
+    expect(entries.size).toBe(3);
+    expect([...entries.values()][0]!.expirationTtl).toBe(60);
+    expect((await callTool('lookup', { id: 'a' }, 'alice')).result.content[0].text).toBe('a: call 1');
+
+    await server.invalidateToolCache('lookup', { env: { CACHE: kv } });
+
+    expect(entries.size).toBe(1);
+    expect((await callTool('lookup', { id: 'a' }, 'alice')).result.content[0].text).toBe('a: call 3');
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Tests for scope-based authorization of tools, resources and prompts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { useWorkersRuntime } from '../helpers/workers.js';
+
+useWorkersRuntime();
+
+async function createHandler(options: Record<string, unknown> = {}) {
+  const { WorkersFastMCP } = await import('../../src/index.js');
+
+  const server = new WorkersFastMCP({
+    ...options,
+    name: 'Scopes Test Server',
+    version: '1.0.0',
+    skipCompatibilityCheck: true,
+    authenticate: async (request: Request) => ({ sub: 'user-1', scope: request.headers.get('X-Scopes') ?? '' }),
+  });
+
+  server.addTool({
+    name: 'status',
+    description: 'Public tool',
+    parameters: z.object({}),
+    execute: async () => 'ok',
+  });
+  server.addTool({
+    name: 'refund',
+    description: 'Issue a refund',
+    parameters: z.object({}),
+    requiredScopes: ['billing:write'],
+    execute: async () => 'refunded',
+  });
+  server.addResource({
+    uri: 'file:///status.txt',
+    name: 'status',
+    mimeType: 'text/plain',
+    load: async () => ({ text: 'ok' }),
+  });
+  server.addResource({
+    uri: 'file:///invoices.json',
+    name: 'invoices',
+    mimeType: 'application/json',
+    requiredScopes: ['billing:read'],
+    load: async () => ({ text: '[]' }),
+  });
+  server.addResourceTemplate({
+    uriTemplate: 'file:///invoices/{id}',
+    name: 'invoice',
+    mimeType: 'application/json',
+    arguments: [{ name: 'id', required: true }],
+    requiredScopes: ['billing:read'],
+    load: async ({ id }: { id: string }) => ({ text: `{"id":"${id}"}` }),
+  });
+  server.addPrompt({
+    name: 'greet',
+    description: 'Public prompt',
+    load: async () => 'Hello',
+  });
+  server.addPrompt({
+    name: 'audit',
+    description: 'Audit prompt',
+    canAccess: (auth: any) => auth.sub === 'auditor',
+    load: async () => 'Audit the books',
+  });
+
+  return server.toWorkerHandler();
+}
+
+function rpc(body: unknown, scopes = '') {
+  return new Request('https://mcp.example.com/mcp', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Scopes': scopes },
+    body: JSON.stringify(body),
+  });
+}
+
+async function list(handler: (request: Request) => Promise<Response>, method: string, scopes = '') {
+  const response = await handler(rpc({ jsonrpc: '2.0', id: 1, method }, scopes));
+  return (await response.json()).result;
+}
+
+describe('getScopes', () => {
+  it('reads scope strings and scopes/scp arrays', async () => {
+    const { getScopes, hasScopes } = await import('../../src/index.js');
+
+    expect(getScopes({ scope: 'a b' })).toEqual(['a', 'b']);
+    expect(getScopes({ scopes: ['a'], scp: 'b c' })).toEqual(['a', 'b', 'c']);
+    expect(getScopes(undefined)).toEqual([]);
+    expect(hasScopes({ scope: 'a b' }, ['b'])).toBe(true);
+    expect(hasScopes({ scope: 'a' }, ['a', 'b'])).toBe(false);
+  });
+});
+
+describe('Scope-based authorization', () => {
+  it('hides items the session lacks scopes for from list results', async () => {
+    const handler = await createHandler();
+
+    const tools = await list(handler, 'tools/list');
+    expect(tools.tools.map((tool: any) => tool.name)).toEqual(['status']);
+
+    const granted = await list(handler, 'tools/list', 'billing:write');
+    expect(granted.tools.map((tool: any) => tool.name)).toEqual(['status', 'refund']);
+
+    const resources = await list(handler, 'resources/list');
+    expect(resources.resources.map((resource: any) => resource.name)).toEqual(['status']);
+    expect((await list(handler, 'resources/list', 'billing:read')).resources).toHaveLength(2);
+    expect((await list(handler, 'resources/templates/list', 'billing:read')).resourceTemplates).toHaveLength(1);
+
+    const prompts = await list(handler, 'prompts/list');
+    expect(prompts.prompts.map((prompt: any) => prompt.name)).toEqual(['greet']);
+  });
+
+  it('answers calls without the required scopes with 403 insufficient_scope', async () => {
+    const handler = await createHandler();
+
+    const response = await handler(
+      rpc({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'refund', arguments: {} } }, 'billing:read'),
+    );
+
+    expect(response.status).toBe(403);
+    expect(response.headers.get('WWW-Authenticate')).toBe(
+      'Bearer error="insufficient_scope", error_description="Requires scope billing:write", scope="billing:write"',
+    );
+
+    const read = await handler(
+      rpc({ jsonrpc: '2.0', id: 2, method: 'resources/read', params: { uri: 'file:///invoices/42' } }),
+    );
+    expect(read.status).toBe(403);
+    expect(read.headers.get('WWW-Authenticate')).toContain('scope="billing:read"');
+  });
+
+  it('advertises the protected resource metadata in insufficient_scope challenges', async () => {
+    const handler = await createHandler({
+      oauth: {
+        enabled: true,
+        protectedResource: {
+          resource: 'https://mcp.example.com/mcp',
+          authorizationServers: ['https://auth.example.com'],
+        },
+      },
+    });
+
+    const response = await handler(
+      rpc({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'refund', arguments: {} } }),
+    );
+
+    expect(response.status).toBe(403);
+    expect(response.headers.get('WWW-Authenticate')).toContain(
+      'resource_metadata="https://mcp.example.com/.well-known/oauth-protected-resource"',
+    );
+  });
+
+  it('allows calls with the required scopes', async () => {
+    const handler = await createHandler();
+
+    const response = await handler(
+      rpc({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'refund', arguments: {} } }, 'billing:write'),
+    );
+    expect((await response.json()).result.content[0].text).toBe('refunded');
+
+    const read = await handler(
+      rpc({ jsonrpc: '2.0', id: 2, method: 'resources/read', params: { uri: 'file:///invoices/42' } }, 'billing:read'),
+    );
+    expect((await read.json()).result.contents[0].text).toBe('{"id":"42"}');
+  });
+
+  it('answers forbidden calls inside a batch with a JSON-RPC error', async () => {
+    const handler = await createHandler();
+
+    const response = await handler(
+      rpc([
+        { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'status', arguments: {} } },
+        { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'refund', arguments: {} } },
+      ]),
+    );
+    const [allowed, denied] = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(allowed.result.content[0].text).toBe('ok');
+    expect(denied).toMatchObject({ id: 2, error: { code: -32000, message: 'Requires scope billing:write' } });
+  });
+
+  it('rejects invalid requiredScopes', async () => {
+    const { WorkersFastMCP } = await import('../../src/index.js');
+    const server = new WorkersFastMCP({ name: 'Invalid', version: '1.0.0', skipCompatibilityCheck: true });
+
+    expect(() =>
+      server.addTool({
+        name: 'bad',
+        description: 'Bad tool',
+        requiredScopes: 'billing:write',
+        execute: async () => 'nope',
+      }),
+    ).toThrow('Tool requiredScopes must be an array of strings or undefined');
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Tests for stateful sessions backed by a SessionStore
+ */
+
+import { describe, it, expect } from 'vitest';
+import { useWorkersRuntime } from '../helpers/workers.js';
+
+useWorkersRuntime();
+
+function post(body: unknown, sessionId?: string, user?: string) {
+  return new Request('https://example.com/mcp', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json',
+      ...(sessionId && { 'Mcp-Session-Id': sessionId }),
+      ...(user && { 'X-User': user }),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+const initialize = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: { sampling: {} },
+    clientInfo: { name: 'inspector', version: '2.0.0' },
+  },
+};
+
+async function createServer(sessionStore: any, authenticate?: (request: Request) => Promise<any>) {
+  const { WorkersFastMCP } = await import('../../src/index.js');
+
+  const server = new WorkersFastMCP({
+    name: 'Session Test Server',
+    version: '1.0.0',
+    skipCompatibilityCheck: true,
+    sessionStore,
+    ...(authenticate && { authenticate }),
+    transport: { streamable: { enabled: true, sessionIdGenerator: () => 'session-1' } },
+  });
+
+  server.addTool({
+    name: 'whoami',
+    description: 'Report the client',
+    execute: async (_args: unknown, context: any) => `${context.client.version?.name}@${context.client.version?.version}`,
+  });
+
+  return server;
+}
+
+/**
+ * Minimal in-memory stand-in for a Durable Object namespace
+ */
+async function createDurableObjectNamespace() {
+  const { McpSessionDurableObject } = await import('../../src/index.js');
+  const objects = new Map<string, any>();
+
+  const createState = () => {
+    const data = new Map<string, unknown>();
+    return {
+      storage: {
+        get: async (key: string) => data.get(key),
+        put: async (key: string, value: unknown) => void data.set(key, value),
+        deleteAll: async () => data.clear(),
+        setAlarm: async () => {},
+        deleteAlarm: async () => {},
+      },
+    };
+  };
+
+  return {
+    idFromName: (name: string) => name,
+    get: (id: string) => {
+      if (!objects.has(id)) {
+        objects.set(id, new McpSessionDurableObject(createState() as any));
+      }
+      const object = objects.get(id);
+      return { fetch: (url: string, init: RequestInit) => object.fetch(new Request(url, init)) };
+    },
+  };
+}
+
+describe('Session Store', () => {
+  it('should persist initialize data and rehydrate it on later requests', async () => {
+    const { MemorySessionStore } = await import('../../src/index.js');
+    const store = new MemorySessionStore();
+    const server = await createServer(store);
+    const handler = server.toWorkerHandler();
+
+    const init = await handler(post(initialize));
+    expect(init.headers.get('Mcp-Session-Id')).toBe('session-1');
+
+    const session = await server.getSession('session-1');
+    expect(session?.clientInfo).toEqual({ name: 'inspector', version: '2.0.0' });
+    expect(session?.protocolVersion).toBe('2025-03-26');
+
+    const call: any = await (
+      await handler(post({ jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'whoami' } }, 'session-1'))
+    ).json();
+    expect(call.result.content[0].text).toBe('inspector@2.0.0');
+  });
+
+  it('should return 404 for unknown sessions', async () => {
+    const { MemorySessionStore } = await import('../../src/index.js');
+    const handler = (await createServer(new MemorySessionStore())).toWorkerHandler();
+
+    const response = await handler(post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, 'missing'));
+    expect(response.status).toBe(404);
+  });
+
+  it('should delete sessions on DELETE', async () => {
+    const { MemorySessionStore } = await import('../../src/index.js');
+    const store = new MemorySessionStore();
+    const handler = (await createServer(store)).toWorkerHandler();
+
+    await handler(post(initialize));
+    expect(store.size).toBe(1);
+
+    const response = await handler(
+      new Request('https://example.com/mcp', { method: 'DELETE', headers: { 'Mcp-Session-Id': 'session-1' } }),
+    );
+    expect(response.status).toBe(204);
+    expect(store.size).toBe(0);
+  });
+
+  it('should only serve sessions to the identity that initialized them', async () => {
+    const { MemorySessionStore } = await import('../../src/index.js');
+    const store = new MemorySessionStore();
+    const handler = (
+      await createServer(store, async (request) => ({ sub: request.headers.get('X-User'), iat: Date.now() }))
+    ).toWorkerHandler();
+
+    await handler(post(initialize, undefined, 'alice'));
+
+    const list = { jsonrpc: '2.0', id: 2, method: 'tools/list' };
+    expect((await handler(post(list, 'session-1', 'mallory'))).status).toBe(404);
+
+    const deleted = await handler(
+      new Request('https://example.com/mcp', {
+        method: 'DELETE',
+        headers: { 'Mcp-Session-Id': 'session-1', 'X-User': 'mallory' },
+      }),
+    );
+    expect(deleted.status).toBe(404);
+    expect(store.size).toBe(1);
+
+    // A refreshed token for the same subject keeps the session
+    expect((await handler(post(list, 'session-1', 'alice'))).status).toBe(200);
+  });
+
+  it('should store sessions in Durable Objects resolved from env', async () => {
+    const { DurableObjectSessionStore } = await import('../../src/index.js');
+    const env = { MCP_SESSIONS: await createDurableObjectNamespace() };
+    const server = await createServer((workerEnv: any) => new DurableObjectSessionStore(workerEnv.MCP_SESSIONS));
+    const handler = server.toWorkerHandler();
+
+    await handler(post(initialize), env);
+    expect((await server.getSession('session-1', env))?.clientInfo?.name).toBe('inspector');
+
+    const call: any = await (
+      await handler(post({ jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'whoami' } }, 'session-1'), env)
+    ).json();
+    expect(call.result.content[0].text).toBe('inspector@2.0.0');
+
+    expect(await server.getSession('missing', env)).toBeUndefined();
+  });
+});
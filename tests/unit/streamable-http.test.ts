@@ -0,0 +1,162 @@
+/**
+ * Tests for the Streamable HTTP transport mode
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { useWorkersRuntime } from '../helpers/workers.js';
+
+useWorkersRuntime();
+
+async function createServer(streamable: Record<string, unknown> = {}) {
+  const { WorkersFastMCP } = await import('../../src/index.js');
+
+  const server = new WorkersFastMCP({
+    name: 'Streamable Test Server',
+    version: '1.0.0',
+    skipCompatibilityCheck: true,
+    transport: {
+      streamable: { enabled: true, sessionIdGenerator: () => 'session-1', ...streamable },
+    },
+  });
+
+  server.addTool({
+    name: 'count',
+    description: 'Count with progress',
+    parameters: z.object({ to: z.number() }),
+    execute: async (args: { to: number }, context: any) => {
+      for (let i = 1; i <= args.to; i++) {
+        await context.reportProgress({ progress: i, total: args.to });
+      }
+      return `counted to ${args.to} in ${context.sessionId}`;
+    },
+  });
+
+  return server;
+}
+
+function post(body: unknown, headers: Record<string, string> = {}) {
+  return new Request('https://example.com/mcp', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      ...headers,
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+function parseSSE(text: string) {
+  return text
+    .split('\n\n')
+    .filter((chunk) => chunk.includes('data: '))
+    .map((chunk) => {
+      const data = chunk
+        .split('\n')
+        .filter((line) => line.startsWith('data: '))
+        .map((line) => line.slice(6))
+        .join('\n');
+      return JSON.parse(data);
+    });
+}
+
+describe('Streamable HTTP Transport', () => {
+  it('should issue a session ID on initialize', async () => {
+    const handler = (await createServer({ enableJsonResponse: true })).toWorkerHandler();
+    const response = await handler(
+      post({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+      }),
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Mcp-Session-Id')).toBe('session-1');
+    expect(response.headers.get('Content-Type')).toBe('application/json');
+  });
+
+  it('should require a session ID after initialize', async () => {
+    const handler = (await createServer()).toWorkerHandler();
+    const response = await handler(post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should stream notifications and the response over SSE', async () => {
+    const handler = (await createServer()).toWorkerHandler();
+    const response = await handler(
+      post(
+        {
+          jsonrpc: '2.0',
+          id: 3,
+          method: 'tools/call',
+          params: { name: 'count', arguments: { to: 2 }, _meta: { progressToken: 'p1' } },
+        },
+        { 'Mcp-Session-Id': 'session-1' },
+      ),
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+
+    const messages = parseSSE(await response.text());
+    const progress = messages.filter((message) => message.method === 'notifications/progress');
+    expect(progress.map((message) => message.params.progress)).toEqual([1, 2]);
+
+    const result = messages[messages.length - 1];
+    expect(result.id).toBe(3);
+    expect(result.result.content[0].text).toBe('counted to 2 in session-1');
+  });
+
+  it('should acknowledge notifications with 202', async () => {
+    const handler = (await createServer()).toWorkerHandler();
+    const response = await handler(
+      post({ jsonrpc: '2.0', method: 'notifications/initialized' }, { 'Mcp-Session-Id': 'session-1' }),
+    );
+
+    expect(response.status).toBe(202);
+  });
+
+  it('should open a GET stream and terminate it with DELETE', async () => {
+    const { WorkersTransport } = await import('../../src/index.js');
+    const transport = new WorkersTransport({ streamable: { enabled: true } });
+
+    const stream = await transport.handleRequest(
+      new Request('https://example.com/mcp', {
+        method: 'GET',
+        headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': 'session-2' },
+      }),
+    );
+    expect(stream.status).toBe(200);
+    expect(stream.headers.get('Content-Type')).toBe('text/event-stream');
+
+    const reader = stream.body!.getReader();
+    const sent = transport.sendToSession('session-2', { jsonrpc: '2.0', method: 'notifications/tools/list_changed' });
+    const { value } = await reader.read();
+    expect(await sent).toBe(true);
+    expect(parseSSE(new TextDecoder().decode(value))[0].method).toBe('notifications/tools/list_changed');
+
+    const deleted = await transport.handleRequest(
+      new Request('https://example.com/mcp', {
+        method: 'DELETE',
+        headers: { 'Mcp-Session-Id': 'session-2' },
+      }),
+    );
+    expect(deleted.status).toBe(204);
+    expect((await reader.read()).done).toBe(true);
+    expect(await transport.sendToSession('session-2', {})).toBe(false);
+  });
+
+  it('should reject GET without an event-stream Accept header', async () => {
+    const { WorkersTransport } = await import('../../src/index.js');
+    const transport = new WorkersTransport({ streamable: { enabled: true } });
+    const response = await transport.handleRequest(
+      new Request('https://example.com/mcp', { method: 'GET', headers: { 'Mcp-Session-Id': 'session-3' } }),
+    );
+
+    expect(response.status).toBe(406);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Tests for semantic search over Vectorize, run against the in-memory index stand-in
+ */
+
+import { describe, it, expect } from 'vitest';
+import { rpcCall, rpcRequest, useWorkersRuntime } from '../helpers/workers.js';
+
+useWorkersRuntime();
+
+const DOCUMENTS = [
+  { id: 'kv', text: 'Workers KV is a global key value store', category: 'storage' },
+  { id: 'r2', text: 'R2 object storage without egress fees', category: 'storage', uri: 'r2://docs/r2.md' },
+  { id: 'ai', text: 'Workers AI runs machine learning models', category: 'ai' },
+];
+
+async function createHandler(options: Record<string, unknown> = {}) {
+  const { WorkersFastMCP, MemoryVectorizeIndex, LocalWorkersAI } = await import('../../src/index.js');
+  const ai = new LocalWorkersAI();
+  const index = new MemoryVectorizeIndex();
+
+  const embeddings = (await ai.run('@cf/baai/bge-base-en-v1.5', { text: DOCUMENTS.map((doc) => doc.text) })) as {
+    data: number[][];
+  };
+  await index.upsert(
+    DOCUMENTS.map(({ id, ...metadata }, position) => ({ id, values: embeddings.data[position]!, metadata })),
+  );
+
+  const server = new WorkersFastMCP({
+    name: 'Vectorize Search Test Server',
+    version: '1.0.0',
+    skipCompatibilityCheck: true,
+  });
+
+  server.addVectorizeSearch({ index: 'INDEX', topK: 2, ...options });
+
+  const handler = server.toWorkerHandler();
+  const call = (method: string, params?: Record<string, unknown>) =>
+    rpcCall(handler, { INDEX: index, AI: ai }, rpcRequest(method, params));
+  const search = async (args: Record<string, unknown>) =>
+    (await call('tools/call', { name: 'search', arguments: args })).result;
+
+  return { call, search, ai };
+}
+
+describe('addVectorizeSearch', () => {
+  it('embeds the query and returns resource links to the best matches', async () => {
+    const { search, ai } = await createHandler();
+
+    const result = await search({ query: 'key value store' });
+
+    expect(ai.calls.at(-1)).toEqual({ model: '@cf/baai/bge-base-en-v1.5', inputs: { text: ['key value store'] } });
+    expect(result.content[0]).toEqual({
+      type: 'resource_link',
+      uri: 'vectorize://kv',
+      name: 'kv',
+      description: DOCUMENTS[0]!.text,
+    });
+    expect(result.content).toHaveLength(2);
+    expect(result.structuredContent.matches[0]).toMatchObject({ id: 'kv', uri: 'vectorize://kv' });
+    expect(result.structuredContent.matches[0].score).toBeGreaterThan(result.structuredContent.matches[1].score);
+  });
+
+  it('links to the uri stored in metadata and embeds documents when configured', async () => {
+    const { search } = await createHandler({ results: 'embedded', topK: 1 });
+
+    const result = await search({ query: 'object storage egress' });
+
+    expect(result.content).toEqual([
+      { type: 'resource', resource: { uri: 'r2://docs/r2.md', mimeType: 'text/plain', text: DOCUMENTS[1]!.text } },
+    ]);
+  });
+
+  it('applies client filters on allowed fields and the configured filter', async () => {
+    const { search, call } = await createHandler({ filterFields: ['category'], topK: 3 });
+
+    const filtered = await search({ query: 'Workers', filter: { category: 'ai', id: 'kv' } });
+    expect(filtered.structuredContent.matches.map((match: { id: string }) => match.id)).toEqual(['ai']);
+
+    const tools = (await call('tools/list')).result.tools;
+    expect(Object.keys(tools[0].inputSchema.properties)).toEqual(['query', 'topK', 'filter']);
+
+    const { search: restricted } = await createHandler({
+      filterFields: ['category'],
+      filter: { category: { $ne: 'ai' } },
+      topK: 3,
+    });
+    const overridden = await restricted({ query: 'Workers', filter: { category: 'ai' } });
+    expect(overridden.structuredContent.matches.map((match: { id: string }) => match.id).sort()).toEqual(['kv', 'r2']);
+  });
+
+  it('uses a custom embedder and minimum score', async () => {
+    const embedded: string[] = [];
+    const { search } = await createHandler({
+      embed: async (query: string) => {
+        embedded.push(query);
+        return new Array(32).fill(1);
+      },
+      minScore: 2,
+    });
+
+    const result = await search({ query: 'anything' });
+
+    expect(embedded).toEqual(['anything']);
+    expect(result.content).toEqual([{ type: 'text', text: 'No results' }]);
+  });
+
+  it('serves document text stored in metadata as resources', async () => {
+    const { call } = await createHandler();
+
+    const read = (await call('resources/read', { uri: 'vectorize://ai' })).result;
+    expect(read.contents[0]).toMatchObject({ uri: 'vectorize://ai', mimeType: 'text/plain', text: DOCUMENTS[2]!.text });
+
+    expect((await call('resources/read', { uri: 'vectorize://missing' })).error).toMatchObject({ code: -32002 });
+    expect((await call('resources/list')).result.resources).toEqual([]);
+  });
+
+  it('serves only documents matching the configured filter', async () => {
+    const { call } = await createHandler({ filter: { category: 'storage' } });
+
+    const read = (await call('resources/read', { uri: 'vectorize://kv' })).result;
+    expect(read.contents[0]).toMatchObject({ uri: 'vectorize://kv', text: DOCUMENTS[0]!.text });
+    expect((await call('resources/read', { uri: 'vectorize://ai' })).error).toMatchObject({ code: -32002 });
+
+    const { call: scoped } = await createHandler({ filter: () => ({ category: 'ai' }) });
+    expect((await scoped('resources/read', { uri: 'vectorize://kv' })).error).toMatchObject({ code: -32002 });
+  });
+
+  it('caps topK at the Vectorize limit for queries returning metadata', async () => {
+    const { call, search } = await createHandler({ topK: 50, maxTopK: 100 });
+
+    const tools = (await call('tools/list')).result.tools;
+    expect(tools[0].inputSchema.properties.topK).toMatchObject({ maximum: 20 });
+    expect((await search({ query: 'Workers' })).structuredContent.matches).toHaveLength(3);
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Tests for the WebSocket transport and its hibernatable Durable Object
+ *
+ * Node cannot build 101 responses, so the upgrade itself is not exercised here;
+ * the tests drive the Durable Object's hibernation handlers with fake sockets instead.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { useWorkersRuntime } from '../helpers/workers.js';
+
+useWorkersRuntime();
+
+/**
+ * Fake hibernatable socket recording what the server sends
+ */
+function createSocket(sessionId = 'ws-session') {
+  const sent: any[] = [];
+
+  return {
+    sent,
+    send: (data: string) => sent.push(JSON.parse(data)),
+    close: () => {},
+    deserializeAttachment: () => ({ sessionId, url: 'https://example.com/ws' }),
+  };
+}
+
+async function createServer(durableObject?: (env: any) => any, options: Record<string, unknown> = {}) {
+  const { WorkersFastMCP } = await import('../../src/index.js');
+
+  const server = new WorkersFastMCP({
+    name: 'WebSocket Test Server',
+    version: '1.0.0',
+    skipCompatibilityCheck: true,
+    websocket: { ...(durableObject && { durableObject }) },
+    ...options,
+  });
+
+  server.addTool({
+    name: 'echo',
+    description: 'Echo a message',
+    parameters: z.object({ message: z.string() }),
+    execute: async (args: { message: string }) => args.message,
+  });
+
+  server.addTool({
+    name: 'whoami',
+    description: 'Return the connection subject',
+    parameters: z.object({}),
+    execute: async (_args: unknown, context: any) => String(context.session?.sub),
+  });
+
+  return server;
+}
+
+/**
+ * Durable Object storage stand-in
+ */
+function createStorage(entries: Record<string, unknown> = {}) {
+  const values = new Map(Object.entries(entries));
+
+  return {
+    values,
+    get: async (key: string) => values.get(key),
+    put: async (key: string, value: unknown) => void values.set(key, value),
+    delete: async (key: string) => values.delete(key),
+  };
+}
+
+async function createDurableObject(
+  sockets: any[] = [],
+  storage = createStorage(),
+  options: Record<string, unknown> = {},
+) {
+  const server = await createServer(undefined, options);
+  const McpWebSocketDurableObject = server.toWebSocketDurableObject();
+  const state = { getWebSockets: () => sockets, acceptWebSocket: () => {}, storage };
+
+  return new McpWebSocketDurableObject(state as any, {});
+}
+
+describe('WebSocket transport', () => {
+  it('answers requests received by the Durable Object', async () => {
+    const object = await createDurableObject();
+    const ws = createSocket();
+
+    await object.webSocketMessage(
+      ws as any,
+      JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+      }),
+    );
+    await object.webSocketMessage(
+      ws as any,
+      JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'echo', arguments: { message: 'hi' } } }),
+    );
+
+    expect(ws.sent).toHaveLength(2);
+    expect(ws.sent[0].result.serverInfo.name).toBe('WebSocket Test Server');
+    expect(ws.sent[1]).toMatchObject({ id: 2, result: { content: [{ type: 'text', text: 'hi' }] } });
+  });
+
+  it('answers batches with an array of responses', async () => {
+    const object = await createDurableObject();
+    const ws = createSocket();
+
+    await object.webSocketMessage(
+      ws as any,
+      JSON.stringify([
+        { jsonrpc: '2.0', id: 1, method: 'ping' },
+        { jsonrpc: '2.0', method: 'notifications/initialized' },
+        { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+      ]),
+    );
+
+    expect(ws.sent).toHaveLength(1);
+    expect(ws.sent[0].map((response: any) => response.id)).toEqual([1, 2]);
+  });
+
+  it('sends a parse error for invalid frames', async () => {
+    const object = await createDurableObject();
+    const ws = createSocket();
+
+    await object.webSocketMessage(ws as any, '{not json');
+
+    expect(ws.sent[0]).toEqual({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+  });
+
+  it('pushes server-initiated messages through the Durable Object', async () => {
+    const ws = createSocket();
+    const object = await createDurableObject([ws]);
+    const server = await createServer(() => ({
+      idFromName: (name: string) => name,
+      get: () => ({ fetch: (url: string, init: RequestInit) => object.fetch(new Request(url, init)) }),
+    }));
+
+    const delivered = await server.notifyWebSocket('ws-session', {
+      jsonrpc: '2.0',
+      method: 'notifications/tools/list_changed',
+    });
+
+    expect(delivered).toBe(true);
+    expect(ws.sent).toEqual([{ jsonrpc: '2.0', method: 'notifications/tools/list_changed' }]);
+  });
+
+  it('reports undelivered messages when no socket is open', async () => {
+    const server = await createServer();
+
+    expect(await server.notifyWebSocket('missing', { jsonrpc: '2.0', method: 'notifications/message' })).toBe(false);
+  });
+
+  it('keeps credentials and headers out of the hibernation attachment', async () => {
+    const { WebSocketTransport } = await import('../../src/index.js');
+    const transport = new WebSocketTransport();
+    const request = new Request('https://example.com/ws?access_token=secret', {
+      headers: {
+        Upgrade: 'websocket',
+        Authorization: `Bearer ${'x'.repeat(4096)}`,
+        Cookie: `session=${'y'.repeat(1024)}`,
+      },
+    });
+
+    const attachment = transport.createAttachment(request, 'ws-session');
+
+    expect(attachment).toEqual({ sessionId: 'ws-session', url: 'https://example.com/ws' });
+    expect(JSON.stringify(attachment).length).toBeLessThan(2048);
+  });
+
+  it('forwards the upgrade auth result to the Durable Object', async () => {
+    let forwarded: Request | undefined;
+    const server = await createServer(
+      () => ({
+        idFromName: (name: string) => name,
+        get: () => ({
+          fetch: async (request: Request) => {
+            forwarded = request;
+            return new Response('forwarded');
+          },
+        }),
+      }),
+      { authenticate: async () => ({ sub: 'alice' }) },
+    );
+
+    const response = await server.toWorkerHandler()(
+      new Request('https://example.com/ws', {
+        headers: { Upgrade: 'websocket', 'X-MCP-Connection-Auth': encodeURIComponent('{"sub":"mallory"}') },
+      }),
+      {},
+    );
+
+    expect(await response.text()).toBe('forwarded');
+    expect(JSON.parse(decodeURIComponent(forwarded!.headers.get('X-MCP-Connection-Auth')!))).toEqual({ sub: 'alice' });
+  });
+
+  it('answers messages with the auth result stored for the connection', async () => {
+    const storage = createStorage({ auth: { sub: 'alice' } });
+    const object = await createDurableObject([], storage, { authenticate: async () => ({ sub: 'header-auth' }) });
+    const ws = createSocket();
+
+    await object.webSocketMessage(
+      ws as any,
+      JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'whoami', arguments: {} } }),
+    );
+    expect(ws.sent[0].result.content[0].text).toBe('alice');
+
+    await object.webSocketClose(ws as any, 1000, 'done');
+    expect(storage.values.has('auth')).toBe(false);
+  });
+
+  it('leaves non-upgrade requests to the HTTP transport', async () => {
+    const server = await createServer();
+    const handler = server.toWorkerHandler();
+
+    const response = await handler(new Request('https://example.com/ws'));
+
+    expect(response.status).toBe(404);
+  });
+
+  it('requires the websocket option for the Durable Object class', async () => {
+    const { WorkersFastMCP } = await import('../../src/index.js');
+    const server = new WorkersFastMCP({ name: 'No WebSocket', version: '1.0.0', skipCompatibilityCheck: true });
+
+    expect(() => server.toWebSocketDurableObject()).toThrow('WebSocket transport is not enabled');
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Tests for the Worker module export with scheduled, queue and email handlers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import {
+  createExecutionContext,
+  createMessageBatch,
+  rpcRequest,
+  useWorkersRuntime,
+} from '../helpers/workers.js';
+
+useWorkersRuntime();
+
+const ctx = createExecutionContext();
+
+async function createServer(options: Record<string, unknown> = {}) {
+  const { WorkersFastMCP } = await import('../../src/index.js');
+  return new WorkersFastMCP({
+    name: 'Worker Export Test Server',
+    version: '1.0.0',
+    skipCompatibilityCheck: true,
+    ...options,
+  });
+}
+
+describe('toWorkerExport', () => {
+  it('serves MCP requests from fetch and leaves out handlers without hooks', async () => {
+    const server = await createServer();
+    const worker = server.toWorkerExport();
+
+    const response = await worker.fetch!(new Request('https://mcp.example.com/health'), {}, ctx);
+    expect(await response.text()).toBe('OK');
+    expect(worker.scheduled).toBeUndefined();
+    expect(worker.queue).toBeUndefined();
+    expect(worker.email).toBeUndefined();
+  });
+
+  it('runs scheduled hooks in order with the env and server', async () => {
+    const server = await createServer();
+    const calls: string[] = [];
+    const worker = server.toWorkerExport<{ REGION: string }>({
+      onScheduled: [
+        (controller, { env }) => void calls.push(`${controller.cron} ${env.REGION}`),
+        async (_controller, context) => void calls.push(context.server === server ? 'server' : 'other'),
+      ],
+    });
+
+    await worker.scheduled!({ cron: '*/5 * * * *', scheduledTime: 0, noRetry: () => {} }, { REGION: 'weur' }, ctx);
+    expect(calls).toEqual(['*/5 * * * * weur', 'server']);
+  });
+
+  it('hands queue batches and emails to their hooks', async () => {
+    const server = await createServer();
+    const seen: unknown[] = [];
+    const worker = server.toWorkerExport({
+      onQueue: (batch) => void seen.push(...batch.messages.map((message) => message.body)),
+      onEmail: (message) => void seen.push(message.from),
+    });
+
+    const email: Partial<ForwardableEmailMessage> = { from: 'alerts@example.com' };
+    await worker.queue!(createMessageBatch([{ job: 1 }], 'jobs').batch, {}, ctx);
+    await worker.email!(email as ForwardableEmailMessage, {}, ctx);
+
+    expect(seen).toEqual([{ job: 1 }, 'alerts@example.com']);
+  });
+
+  it('lets hooks notify Streamable HTTP sessions on their GET stream', async () => {
+    const server = await createServer({ transport: { streamable: { enabled: true } } });
+    const worker = server.toWorkerExport({
+      onScheduled: async (_controller, { env, server }) => {
+        const message = { jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri: 'kv://report' } };
+        expect(await server.notify('session-1', message, env)).toBe(true);
+        expect(await server.notify('missing', message, env)).toBe(false);
+      },
+    });
+
+    const stream = await worker.fetch(
+      new Request('https://mcp.example.com/mcp', {
+        method: 'GET',
+        headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': 'session-1' },
+      }),
+      {},
+      ctx,
+    );
+    const reader = stream.body!.getReader();
+    const scheduled = worker.scheduled!({ cron: '0 * * * *', scheduledTime: 0, noRetry: () => {} }, {}, ctx);
+
+    const { value } = await reader.read();
+    await scheduled;
+    expect(new TextDecoder().decode(value)).toContain('"method":"notifications/resources/updated"');
+    await reader.cancel();
+  });
+
+  it('runs deferred tool calls and passes the other messages on', async () => {
+    const { MemoryTaskStore } = await import('../../src/index.js');
+    const sent: unknown[] = [];
+    const store = new MemoryTaskStore();
+    const server = await createServer({ tasks: { queue: 'TASKS', store, writeIntervalMs: 10 } });
+    server.addTool({
+      name: 'report',
+      description: 'Slow report',
+      parameters: z.object({}),
+      deferred: true,
+      execute: async () => 'done',
+    });
+
+    const env = { TASKS: { send: async (body: unknown) => void sent.push(body) } };
+    const seen: unknown[] = [];
+    const worker = server.toWorkerExport({
+      onQueue: (batch) => {
+        seen.push(...batch.messages.map((message) => message.body));
+        batch.retryAll();
+      },
+    });
+
+    const request = rpcRequest('tools/call', { name: 'report', arguments: {} });
+    const { taskId } = (await (await worker.fetch!(request, env, ctx)).json()).result.structuredContent;
+
+    const { batch, outcomes } = createMessageBatch([sent[0], { job: 1 }]);
+    await worker.queue!(batch, env, ctx);
+
+    expect(seen).toEqual([{ job: 1 }]);
+    expect(outcomes).toEqual(['ack', 'retry']);
+    expect((await store.get(taskId))?.status).toBe('completed');
+  });
+});
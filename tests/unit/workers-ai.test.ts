@@ -0,0 +1,146 @@
+/**
+ * Tests for tools backed by Workers AI models, run against the local stand-in binding
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { useWorkersRuntime } from '../helpers/workers.js';
+
+useWorkersRuntime();
+
+async function createHandler(ai: unknown) {
+  const { WorkersFastMCP } = await import('../../src/index.js');
+
+  const server = new WorkersFastMCP({
+    name: 'Workers AI Test Server',
+    version: '1.0.0',
+    skipCompatibilityCheck: true,
+  });
+
+  const handler = server.toWorkerHandler();
+  const call = async (method: string, params?: Record<string, unknown>) => {
+    const request = new Request('https://mcp.example.com/mcp', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, ...(params && { params }) }),
+    });
+    return (await handler(request, { AI: ai })).json();
+  };
+  const callTool = async (name: string, args: Record<string, unknown>) =>
+    (await call('tools/call', { name, arguments: args })).result;
+
+  return { server, call, callTool };
+}
+
+describe('addWorkersAITool', () => {
+  it('builds parameters from the model task', async () => {
+    const { LocalWorkersAI } = await import('../../src/index.js');
+    const { server, call } = await createHandler(new LocalWorkersAI());
+
+    server.addWorkersAITool({ name: 'generate', model: '@cf/meta/llama-3.1-8b-instruct' });
+    server.addWorkersAITool({ name: 'embed', model: '@cf/baai/bge-base-en-v1.5' });
+    server.addWorkersAITool({ name: 'draw', model: '@cf/stabilityai/stable-diffusion-xl-base-1.0' });
+
+    const tools = (await call('tools/list')).result.tools;
+    const properties = Object.fromEntries(
+      tools.map((tool: any) => [tool.name, Object.keys(tool.inputSchema.properties)]),
+    );
+
+    expect(properties).toEqual({
+      generate: ['prompt', 'system', 'max_tokens', 'temperature'],
+      embed: ['text'],
+      draw: ['prompt', 'negative_prompt', 'width', 'height', 'num_steps'],
+    });
+    expect(tools[0].description).toBe('Generate text from a prompt with @cf/meta/llama-3.1-8b-instruct');
+  });
+
+  it('returns generated text and sends system prompts as messages', async () => {
+    const { LocalWorkersAI } = await import('../../src/index.js');
+    const ai = new LocalWorkersAI();
+    const { server, callTool } = await createHandler(ai);
+
+    server.addWorkersAITool({ name: 'generate', model: '@cf/meta/llama-3.1-8b-instruct' });
+
+    const result = await callTool('generate', { prompt: 'Hello', system: 'Be brief', max_tokens: 10 });
+
+    expect(result.content).toEqual([{ type: 'text', text: 'Hello' }]);
+    expect(ai.calls).toEqual([
+      {
+        model: '@cf/meta/llama-3.1-8b-instruct',
+        inputs: {
+          messages: [
+            { role: 'system', content: 'Be brief' },
+            { role: 'user', content: 'Hello' },
+          ],
+          max_tokens: 10,
+        },
+      },
+    ]);
+  });
+
+  it('returns embeddings as text and structured content', async () => {
+    const { LocalWorkersAI } = await import('../../src/index.js');
+    const { server, callTool } = await createHandler(new LocalWorkersAI({}, 4));
+
+    server.addWorkersAITool({ name: 'embed', model: '@cf/baai/bge-base-en-v1.5' });
+
+    const result = await callTool('embed', { text: 'edge network' });
+
+    expect(result.structuredContent.shape).toEqual([1, 4]);
+    expect(result.structuredContent.data[0]).toHaveLength(4);
+    expect(JSON.parse(result.content[0].text)).toEqual(result.structuredContent);
+  });
+
+  it('returns images from streams and base64 output as image content', async () => {
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    const { LocalWorkersAI } = await import('../../src/index.js');
+    const ai = new LocalWorkersAI({
+      'stream-model': () =>
+        new ReadableStream({
+          start(controller) {
+            controller.enqueue(png);
+            controller.close();
+          },
+        }),
+    });
+    const { server, callTool } = await createHandler(ai);
+
+    server.addWorkersAITool({ name: 'draw', model: 'stream-model', task: 'text-to-image' });
+    server.addWorkersAITool({ name: 'flux', model: '@cf/black-forest-labs/flux-1-schnell' });
+
+    const streamed = await callTool('draw', { prompt: 'a cloud' });
+    expect(streamed.content).toEqual([{ type: 'image', mimeType: 'image/png', data: btoa(String.fromCharCode(...png)) }]);
+
+    const encoded = await callTool('flux', { prompt: 'a cloud' });
+    expect(encoded.content[0]).toMatchObject({ type: 'image', mimeType: 'image/png' });
+  });
+
+  it('uses custom parameters and input and output mappings', async () => {
+    const { LocalWorkersAI } = await import('../../src/index.js');
+    const ai = new LocalWorkersAI({ '@cf/custom': (inputs) => ({ response: `label: ${inputs.prompt}` }) });
+    const { server, callTool } = await createHandler(ai);
+
+    server.addWorkersAITool({
+      name: 'classify',
+      model: '@cf/custom',
+      parameters: z.object({ review: z.string() }),
+      inputMapping: ({ review }) => ({ prompt: `Classify: ${review}` }),
+      outputMapping: (output) => output.response.toUpperCase(),
+    });
+
+    const result = await callTool('classify', { review: 'great' });
+
+    expect(result.content).toEqual([{ type: 'text', text: 'LABEL: CLASSIFY: GREAT' }]);
+  });
+
+  it('reports a missing binding as a tool error', async () => {
+    const { server, callTool } = await createHandler(undefined);
+
+    server.addWorkersAITool({ name: 'generate', model: '@cf/meta/llama-3.1-8b-instruct' });
+
+    const result = await callTool('generate', { prompt: 'Hello' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Workers AI binding "AI" not found in env');
+  });
+});